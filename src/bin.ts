@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * Entry point of the `vaultix` binary
+ */
+
+import { main } from './cli.js'
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import {
+  boletoBarcodeToDigitableLine,
+  boletoDigitableLineToBarcode,
+  boletoDueDate,
+  boletoDueDateFactor,
+  createBoletoBarcode,
+  formatBoletoDigitableLine,
+  isValidBoleto,
+  parseBoleto,
+  renderBoletoBarcodeSvg,
+} from './boleto.js'
+import { VaultixBoletoError } from './errors.js'
+import { createMockVaultix } from './testing/mock-server.js'
+
+const BARCODE = '00193161100000050000000001234567891234567890'
+const DIGITABLE_LINE = '00190000090123456789712345678903316110000005000'
+const PRINTED_LINE = '00190.00009 01234.567897 12345.678903 3 16110000005000'
+
+/** Replace the digit at `index` with the next one */
+function tamper(value: string, index: number): string {
+  return value.slice(0, index) + ((Number(value[index]) + 1) % 10) + value.slice(index + 1)
+}
+
+describe('parseBoleto', () => {
+  it('decodes a printed digitable line', () => {
+    expect(parseBoleto(PRINTED_LINE, { referenceDate: new Date('2026-10-19') })).toEqual({
+      barcode: BARCODE,
+      digitableLine: DIGITABLE_LINE,
+      formattedDigitableLine: PRINTED_LINE,
+      bankCode: '001',
+      currencyCode: '9',
+      dueDateFactor: 1611,
+      dueDate: '2026-10-26',
+      amount: 5000,
+      freeField: '0000001234567891234567890',
+    })
+  })
+
+  it('converts between barcode and digitable line', () => {
+    expect(boletoBarcodeToDigitableLine(BARCODE)).toBe(DIGITABLE_LINE)
+    expect(boletoDigitableLineToBarcode(PRINTED_LINE)).toBe(BARCODE)
+    expect(formatBoletoDigitableLine(DIGITABLE_LINE)).toBe(PRINTED_LINE)
+    expect(formatBoletoDigitableLine('123')).toBe('123')
+  })
+
+  it.each([
+    [0, 'field 1'],
+    [12, 'field 2'],
+    [25, 'field 3'],
+  ])('names the digitable line field with a wrong check digit (digit %i)', (index, field) => {
+    expect(() => parseBoleto(tamper(DIGITABLE_LINE, index))).toThrow(`Invalid digitable line: wrong check digit in ${field}`)
+  })
+
+  it('rejects a wrong general check digit', () => {
+    expect(() => parseBoleto(tamper(BARCODE, 4))).toThrow('Invalid boleto: wrong general check digit (expected 3, found 4)')
+    expect(() => parseBoleto(tamper(BARCODE, 20))).toThrow(VaultixBoletoError)
+    expect(isValidBoleto(tamper(BARCODE, 20))).toBe(false)
+  })
+
+  it.each([
+    ['letters', '0019X161100000050000000001234567891234567890', 'may only contain digits'],
+    ['the wrong length', '1234', 'received 4 digits'],
+    ['a collection boleto', '8'.repeat(48), 'Collection boletos'],
+  ])('rejects %s', (_, input, message) => {
+    expect(() => parseBoleto(input)).toThrow(message)
+  })
+
+  it('reads factor 0 as no due date', () => {
+    const barcode = createBoletoBarcode({ bankCode: '341', amount: 0, freeField: '1'.repeat(25) })
+
+    expect(parseBoleto(barcode)).toMatchObject({ dueDateFactor: 0, dueDate: undefined, amount: 0, bankCode: '341' })
+  })
+})
+
+describe('due date factor', () => {
+  it.each([
+    ['2000-07-03', 1000],
+    ['2025-02-21', 9999],
+    ['2025-02-22', 1000],
+    ['2026-10-26', 1611],
+    ['2049-10-13', 9999],
+    ['2049-10-14', 1000],
+  ])('maps %s to %i', (date, factor) => {
+    expect(boletoDueDateFactor(date)).toBe(factor)
+    expect(boletoDueDateFactor(new Date(`${date}T12:00:00Z`))).toBe(factor)
+  })
+
+  it('resolves a factor to the date closest to the reference date', () => {
+    expect(boletoDueDate(1000, new Date('2001-01-01'))).toBe('2000-07-03')
+    expect(boletoDueDate(1000, new Date('2025-01-01'))).toBe('2025-02-22')
+    expect(boletoDueDate(9999, new Date('2025-03-01'))).toBe('2025-02-21')
+    expect(boletoDueDate(0)).toBeUndefined()
+  })
+
+  it('rejects dates before the first factor and invalid factors', () => {
+    expect(() => boletoDueDateFactor('2000-07-02')).toThrow(VaultixBoletoError)
+    expect(() => boletoDueDateFactor('not a date')).toThrow(VaultixBoletoError)
+    expect(() => boletoDueDate(999)).toThrow('Invalid due date factor: 999')
+  })
+})
+
+describe('createBoletoBarcode', () => {
+  it('computes the general check digit', () => {
+    expect(createBoletoBarcode({ bankCode: '001', amount: 5000, dueDate: '2026-10-26', freeField: '0000001234567891234567890' }))
+      .toBe(BARCODE)
+  })
+
+  it.each([
+    [{ bankCode: '1' }, 'bankCode must have 3 digits'],
+    [{ freeField: '123' }, 'freeField must have 25 digits'],
+    [{ amount: 10.5 }, 'amount must be an integer number of cents'],
+    [{ amount: 100_000_000_00 }, 'amount must be an integer number of cents'],
+  ])('rejects %o', (overrides, message) => {
+    const params = { bankCode: '001', amount: 5000, freeField: '0'.repeat(25), ...overrides }
+    expect(() => createBoletoBarcode(params)).toThrow(message)
+  })
+
+  it('backs the mock server boletos', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const charge = await vaultix.charges.create({ amount: 12345, payment_method: 'boleto', boleto: { due_date: '2026-11-01' } })
+
+    expect(parseBoleto(charge.boleto.barcode)).toMatchObject({ amount: 12345, dueDate: '2026-11-01' })
+  })
+})
+
+describe('renderBoletoBarcodeSvg', () => {
+  it('draws start, 22 digit pairs and stop as Interleaved 2 of 5', () => {
+    const svg = renderBoletoBarcodeSvg(PRINTED_LINE, { height: 60, margin: 0 })
+    const bars = svg.match(/<rect x=/g) ?? []
+
+    // Start: 2 bars, each pair: 5 bars, stop: 2 bars
+    expect(bars).toHaveLength(2 + 22 * 5 + 2)
+    // Each digit has 2 wide (3) and 3 narrow (1) elements: 4 + 44 × 9 + 5
+    expect(svg).toContain('viewBox="0 0 405 60"')
+    expect(svg).toContain('<rect x="0" width="1" height="60"/>')
+  })
+
+  it('rejects invalid boletos', () => {
+    expect(() => renderBoletoBarcodeSvg(tamper(BARCODE, 4))).toThrow(VaultixBoletoError)
+  })
+})
@@ -0,0 +1,345 @@
+/**
+ * Vaultix Boleto
+ *
+ * Convert and validate bank boleto barcodes (44 digits) and digitable
+ * lines (linha digitável, 47 digits), and render the barcode as SVG
+ */
+
+import { VaultixBoletoError } from './errors.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+/** Day 0 of the due date factor */
+const FACTOR_EPOCH = Date.UTC(1997, 9, 7)
+
+/**
+ * Days from the epoch to 2025-02-22, when the factor rolled over from 9999
+ * back to 1000; it now repeats every 9000 days
+ */
+const FACTOR_ROLLOVER = 10_000
+
+/** Interleaved 2 of 5 patterns: 1 marks a wide element */
+const I2OF5_PATTERNS = ['00110', '10001', '01001', '11000', '00101', '10100', '01100', '00011', '10010', '01010']
+
+export interface Boleto {
+  /** 44-digit barcode */
+  barcode: string
+  /** 47-digit digitable line, digits only */
+  digitableLine: string
+  /** Digitable line as printed, e.g. `00190.00009 01234.567897 12345.678903 3 16110000005000` */
+  formattedDigitableLine: string
+  /** Issuing bank (FEBRABAN code), e.g. `'001'` */
+  bankCode: string
+  /** `'9'` for BRL */
+  currencyCode: string
+  /** Due date factor; 0 when the boleto has no due date */
+  dueDateFactor: number
+  /** Due date (`YYYY-MM-DD`), if the boleto has one */
+  dueDate?: string
+  /** Amount in cents; 0 when the payer enters the amount */
+  amount: number
+  /** 25-digit field defined by the issuing bank */
+  freeField: string
+}
+
+export interface BoletoBarcodeCreateParams {
+  /** Issuing bank (FEBRABAN code), e.g. `'001'` */
+  bankCode: string
+  /** Amount in cents */
+  amount: number
+  /** Due date (`YYYY-MM-DD` or Date); omit for no due date */
+  dueDate?: string | Date
+  /** 25-digit field defined by the issuing bank */
+  freeField: string
+}
+
+export interface BoletoSvgOptions {
+  /** Bar height in pixels (default 50) */
+  height?: number
+  /** Width of a narrow element in pixels (default 1) */
+  narrowWidth?: number
+  /** Wide to narrow ratio, 2 to 3 (default 3) */
+  wideRatio?: number
+  /** Quiet zone on each side, in narrow widths (default 10) */
+  margin?: number
+  /** Bar color (default `#000000`) */
+  color?: string
+  /** Background color (default `#ffffff`) */
+  background?: string
+}
+
+/**
+ * Decode and validate a boleto from its barcode or digitable line
+ *
+ * Spaces, dots and dashes are ignored, so a digitable line pasted from a
+ * PDF or banking app works as is. Throws a `VaultixBoletoError` naming
+ * the check digit that failed.
+ *
+ * @example
+ * ```ts
+ * const boleto = parseBoleto('00190.00009 01234.567897 12345.678903 3 16110000005000')
+ *
+ * boleto.bankCode // '001'
+ * boleto.amount   // 5000 (R$ 50,00)
+ * boleto.dueDate  // '2026-10-26'
+ * boleto.barcode  // '00193161100000050000000001234567891234567890'
+ * ```
+ */
+export function parseBoleto(input: string, options: { referenceDate?: Date } = {}): Boleto {
+  const digits = input.replace(/[\s.-]/g, '')
+
+  if (!/^\d+$/.test(digits)) {
+    throw new VaultixBoletoError('A boleto barcode or digitable line may only contain digits', input)
+  }
+
+  if (digits.length === 48 && digits.startsWith('8')) {
+    throw new VaultixBoletoError('Collection boletos (arrecadação, starting with 8) are not supported', input)
+  }
+
+  let barcode: string
+
+  if (digits.length === 47) {
+    const fields = [digits.slice(0, 10), digits.slice(10, 21), digits.slice(21, 32)]
+
+    fields.forEach((field, i) => {
+      if (modulo10(field.slice(0, -1)) !== Number(field.slice(-1))) {
+        throw new VaultixBoletoError(`Invalid digitable line: wrong check digit in field ${i + 1}`, input)
+      }
+    })
+
+    barcode = `${digits.slice(0, 4)}${digits[32]}${digits.slice(33)}${digits.slice(4, 9)}${digits.slice(10, 20)}${digits.slice(21, 31)}`
+  } else if (digits.length === 44) {
+    barcode = digits
+  } else {
+    throw new VaultixBoletoError(`Expected a 44-digit barcode or a 47-digit digitable line, received ${digits.length} digits`, input)
+  }
+
+  const checkDigit = barcodeCheckDigit(barcode.slice(0, 4) + barcode.slice(5))
+
+  if (checkDigit !== Number(barcode[4])) {
+    throw new VaultixBoletoError(`Invalid boleto: wrong general check digit (expected ${checkDigit}, found ${barcode[4]})`, input)
+  }
+
+  const factor = Number(barcode.slice(5, 9))
+  const digitableLine = toDigitableLine(barcode)
+
+  return {
+    barcode,
+    digitableLine,
+    formattedDigitableLine: formatBoletoDigitableLine(digitableLine),
+    bankCode: barcode.slice(0, 3),
+    currencyCode: barcode[3],
+    dueDateFactor: factor,
+    dueDate: boletoDueDate(factor, options.referenceDate),
+    amount: Number(barcode.slice(9, 19)),
+    freeField: barcode.slice(19),
+  }
+}
+
+/**
+ * Whether a barcode or digitable line has valid check digits
+ */
+export function isValidBoleto(input: string): boolean {
+  try {
+    parseBoleto(input)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Convert a 44-digit barcode to its 47-digit digitable line (digits only)
+ */
+export function boletoBarcodeToDigitableLine(barcode: string): string {
+  return parseBoleto(barcode).digitableLine
+}
+
+/**
+ * Convert a 47-digit digitable line to its 44-digit barcode
+ */
+export function boletoDigitableLineToBarcode(digitableLine: string): string {
+  return parseBoleto(digitableLine).barcode
+}
+
+/**
+ * Format a digitable line as printed on boletos:
+ * `AAAAA.AAAAA BBBBB.BBBBBB CCCCC.CCCCCC D EEEEEEEEEEEEEE`
+ */
+export function formatBoletoDigitableLine(digitableLine: string): string {
+  const digits = digitableLine.replace(/\D/g, '')
+  if (digits.length !== 47) return digitableLine
+
+  return [
+    `${digits.slice(0, 5)}.${digits.slice(5, 10)}`,
+    `${digits.slice(10, 15)}.${digits.slice(15, 21)}`,
+    `${digits.slice(21, 26)}.${digits.slice(26, 32)}`,
+    digits[32],
+    digits.slice(33),
+  ].join(' ')
+}
+
+/**
+ * Due date factor of a date: days since 1997-10-07, restarting at 1000
+ * after 9999 (on 2025-02-22, and every 9000 days since)
+ */
+export function boletoDueDateFactor(dueDate: string | Date): number {
+  const time = typeof dueDate === 'string' ? Date.parse(`${dueDate.slice(0, 10)}T00:00:00Z`) : Date.UTC(
+    dueDate.getUTCFullYear(), dueDate.getUTCMonth(), dueDate.getUTCDate()
+  )
+  const days = Math.round((time - FACTOR_EPOCH) / DAY)
+
+  if (!Number.isFinite(days) || days < 1000) {
+    throw new VaultixBoletoError(`Due date out of range: ${String(dueDate)}`)
+  }
+
+  return days >= FACTOR_ROLLOVER ? ((days - FACTOR_ROLLOVER) % 9000) + 1000 : days
+}
+
+/**
+ * Due date (`YYYY-MM-DD`) of a factor; undefined for factor 0 (no due
+ * date)
+ *
+ * A factor repeats every 9000 days (about 24.6 years), so the date closest
+ * to `referenceDate` (default now) is returned.
+ */
+export function boletoDueDate(factor: number, referenceDate: Date = new Date()): string | undefined {
+  if (factor === 0) return undefined
+
+  if (!Number.isInteger(factor) || factor < 1000 || factor > 9999) {
+    throw new VaultixBoletoError(`Invalid due date factor: ${factor}`)
+  }
+
+  const reference = (referenceDate.getTime() - FACTOR_EPOCH) / DAY
+  let days = factor
+  let candidate = factor - 1000 + FACTOR_ROLLOVER
+
+  while (Math.abs(candidate - reference) < Math.abs(days - reference)) {
+    days = candidate
+    candidate += 9000
+  }
+
+  return new Date(FACTOR_EPOCH + days * DAY).toISOString().slice(0, 10)
+}
+
+/**
+ * Build a 44-digit barcode, computing its general check digit
+ *
+ * @example
+ * ```ts
+ * createBoletoBarcode({
+ *   bankCode: '001',
+ *   amount: 5000,
+ *   dueDate: '2026-10-26',
+ *   freeField: '0000001234567891234567890',
+ * })
+ * ```
+ */
+export function createBoletoBarcode(params: BoletoBarcodeCreateParams): string {
+  if (!/^\d{3}$/.test(params.bankCode)) {
+    throw new VaultixBoletoError(`bankCode must have 3 digits, received ${params.bankCode}`)
+  }
+
+  if (!/^\d{25}$/.test(params.freeField)) {
+    throw new VaultixBoletoError('freeField must have 25 digits')
+  }
+
+  if (!Number.isInteger(params.amount) || params.amount < 0 || params.amount > 99_999_999_99) {
+    throw new VaultixBoletoError(`amount must be an integer number of cents up to 10 digits, received ${params.amount}`)
+  }
+
+  const factor = params.dueDate !== undefined ? boletoDueDateFactor(params.dueDate) : 0
+  const withoutDigit = `${params.bankCode}9${String(factor).padStart(4, '0')}${String(params.amount).padStart(10, '0')}${params.freeField}`
+
+  return `${withoutDigit.slice(0, 4)}${barcodeCheckDigit(withoutDigit)}${withoutDigit.slice(4)}`
+}
+
+/**
+ * Render a barcode (or the barcode of a digitable line) as an Interleaved
+ * 2 of 5 SVG, the symbology printed on boletos
+ *
+ * @example
+ * ```ts
+ * const svg = renderBoletoBarcodeSvg(charge.boleto!.barcode, { height: 60 })
+ * ```
+ */
+export function renderBoletoBarcodeSvg(input: string, options: BoletoSvgOptions = {}): string {
+  const { barcode } = parseBoleto(input)
+  const narrow = options.narrowWidth ?? 1
+  const wide = narrow * (options.wideRatio ?? 3)
+  const height = options.height ?? 50
+  const margin = (options.margin ?? 10) * narrow
+
+  // Start (narrow bar, space, bar, space), digit pairs, stop (wide bar, narrow space, narrow bar)
+  const elements: number[] = [narrow, narrow, narrow, narrow]
+
+  for (let i = 0; i < barcode.length; i += 2) {
+    const bars = I2OF5_PATTERNS[Number(barcode[i])]
+    const spaces = I2OF5_PATTERNS[Number(barcode[i + 1])]
+
+    for (let k = 0; k < 5; k++) {
+      elements.push(bars[k] === '1' ? wide : narrow, spaces[k] === '1' ? wide : narrow)
+    }
+  }
+
+  elements.push(wide, narrow, narrow)
+
+  const rects: string[] = []
+  let x = margin
+
+  elements.forEach((width, i) => {
+    if (i % 2 === 0) rects.push(`<rect x="${x}" width="${width}" height="${height}"/>`)
+    x += width
+  })
+
+  const total = x + margin
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${height}" width="${total}" height="${height}" shape-rendering="crispEdges">`,
+    `<rect width="${total}" height="${height}" fill="${options.background ?? '#ffffff'}"/>`,
+    `<g fill="${options.color ?? '#000000'}">${rects.join('')}</g>`,
+    '</svg>',
+  ].join('')
+}
+
+function toDigitableLine(barcode: string): string {
+  const field1 = barcode.slice(0, 4) + barcode.slice(19, 24)
+  const field2 = barcode.slice(24, 34)
+  const field3 = barcode.slice(34, 44)
+
+  return [
+    field1 + modulo10(field1),
+    field2 + modulo10(field2),
+    field3 + modulo10(field3),
+    barcode[4],
+    barcode.slice(5, 19),
+  ].join('')
+}
+
+/** Module 10 check digit of a digitable line field */
+function modulo10(digits: string): number {
+  let sum = 0
+  let weight = 2
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const product = Number(digits[i]) * weight
+    sum += product > 9 ? product - 9 : product
+    weight = weight === 2 ? 1 : 2
+  }
+
+  return (10 - (sum % 10)) % 10
+}
+
+/** Module 11 general check digit of the 43 barcode digits around it */
+function barcodeCheckDigit(digits: string): number {
+  let sum = 0
+  let weight = 2
+
+  for (let i = digits.length - 1; i >= 0; i--) {
+    sum += Number(digits[i]) * weight
+    weight = weight === 9 ? 2 : weight + 1
+  }
+
+  const digit = 11 - (sum % 11)
+  return digit === 0 || digit >= 10 ? 1 : digit
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkCardParams,
+  detectCardBrand,
+  formatCardNumber,
+  luhnCheck,
+  maskCardNumber,
+  normalizeCardNumber,
+  validateCard,
+  validateCardCvc,
+  validateCardExpiry,
+  validateCardNumber,
+} from './cards.js'
+import { VaultixCardError } from './errors.js'
+import { createMockVaultix } from './testing/mock-server.js'
+
+const now = new Date(2026, 9, 19)
+
+describe('luhnCheck', () => {
+  it.each(['4242424242424242', '4242 4242 4242 4242', '378282246310005', '0'])('accepts %s', number => {
+    expect(luhnCheck(number)).toBe(true)
+  })
+
+  it.each(['4242424242424241', '378282246310006', ''])('rejects %j', number => {
+    expect(luhnCheck(number)).toBe(false)
+  })
+})
+
+describe('detectCardBrand', () => {
+  it.each([
+    ['4242424242424242', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223003122003222', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['3056930009020004', 'diners'],
+    ['36227206271667', 'diners'],
+    ['6362970000457013', 'elo'],
+    ['5066991111111118', 'elo'],
+    ['4011780000000000', 'elo'],
+    ['6062826786276634', 'hipercard'],
+    ['3841000000000000', 'hipercard'],
+  ])('detects %s as %s', (number, brand) => {
+    expect(detectCardBrand(number)).toBe(brand)
+  })
+
+  it('works on partial numbers', () => {
+    expect(detectCardBrand('4')).toBe('visa')
+    expect(detectCardBrand('4011')).toBe('visa')
+    expect(detectCardBrand('401178')).toBe('elo')
+    expect(detectCardBrand('6363 68')).toBe('elo')
+    expect(detectCardBrand('37')).toBe('amex')
+    expect(detectCardBrand('2')).toBe('mastercard')
+    expect(detectCardBrand('9999')).toBeUndefined()
+    expect(detectCardBrand('')).toBeUndefined()
+  })
+})
+
+describe('validateCardNumber', () => {
+  it('checks the length for the brand and Luhn', () => {
+    expect(validateCardNumber('4242 4242 4242 4242')).toBe(true)
+    expect(validateCardNumber('4222222222222')).toBe(true)
+    expect(validateCardNumber('378282246310005')).toBe(true)
+    expect(validateCardNumber('36227206271667')).toBe(true)
+    expect(validateCardNumber('3782822463100052')).toBe(false) // Amex has 15 digits
+    expect(validateCardNumber('4242424242424241')).toBe(false)
+    expect(validateCardNumber('42424242424')).toBe(false)
+  })
+})
+
+describe('validateCardCvc', () => {
+  it('expects 4 digits for Amex, 3 for other brands, either when unknown', () => {
+    expect(validateCardCvc('1234', 'amex')).toBe(true)
+    expect(validateCardCvc('123', 'amex')).toBe(false)
+    expect(validateCardCvc('123', 'visa')).toBe(true)
+    expect(validateCardCvc('1234', 'visa')).toBe(false)
+    expect(validateCardCvc('1234')).toBe(true)
+    expect(validateCardCvc('12a')).toBe(false)
+  })
+})
+
+describe('validateCardExpiry', () => {
+  it('accepts cards through the end of their expiry month', () => {
+    expect(validateCardExpiry(10, 2026, now)).toBe(true)
+    expect(validateCardExpiry(9, 2026, now)).toBe(false)
+    expect(validateCardExpiry(1, 27, now)).toBe(true)
+    expect(validateCardExpiry(13, 2030, now)).toBe(false)
+    expect(validateCardExpiry(12, 2030.5, now)).toBe(false)
+  })
+})
+
+describe('validateCard', () => {
+  it('reports every problem with the codes the API uses', () => {
+    expect(validateCard({ number: '4242 4242 4242 4241', exp_month: 1, exp_year: 2020, cvc: '12' }, now)).toEqual([
+      { code: 'invalid_number', param: 'card[number]', message: 'The card number is invalid' },
+      { code: 'expired_card', param: 'card[exp_year]', message: 'The card has expired' },
+      { code: 'invalid_cvc', param: 'card[cvc]', message: 'The security code is invalid' },
+    ])
+    expect(validateCard({ number: '4242424242424242', exp_month: 0, exp_year: 2030, cvc: '123' }, now)[0].code).toBe('invalid_expiry_month')
+    expect(validateCard({ number: '4242424242424242', exp_month: 12, exp_year: 2030, cvc: '123' }, now)).toEqual([])
+  })
+})
+
+describe('formatting', () => {
+  it('strips every separator', () => {
+    expect(normalizeCardNumber('4242.4242-4242 4242')).toBe('4242424242424242')
+    expect(normalizeCardNumber('4242/4242_4242\t4242')).toBe('4242424242424242')
+  })
+
+  it('groups digits the way the brand prints them', () => {
+    expect(formatCardNumber('4242424242424242')).toBe('4242 4242 4242 4242')
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005')
+    expect(formatCardNumber('36227206271667')).toBe('3622 720627 1667')
+    expect(formatCardNumber('4242424')).toBe('4242 424')
+    expect(formatCardNumber('4242424242424242424')).toBe('4242 4242 4242 4242 424')
+  })
+
+  it('masks all but the last four digits', () => {
+    expect(maskCardNumber('4242 4242 4242 4242')).toBe('**** **** **** 4242')
+    expect(maskCardNumber('378282246310005')).toBe('**** ****** *0005')
+  })
+})
+
+describe('checkCardParams', () => {
+  const card = { number: '4242.4242.4242.4242', exp_month: 12, exp_year: 2099, cvc: '123' }
+
+  it('returns a copy with the number normalized', () => {
+    expect(checkCardParams({ card })).toEqual({ card: { ...card, number: '4242424242424242' } })
+    expect(card.number).toBe('4242.4242.4242.4242')
+  })
+
+  it('throws the first problem as a VaultixCardError', () => {
+    const check = () => checkCardParams({ card: { ...card, cvc: '1' } })
+
+    expect(check).toThrow(VaultixCardError)
+    expect(check).toThrow('The security code is invalid')
+  })
+})
+
+describe('validateCards', () => {
+  it('rejects bad cards before tokenizing them', async () => {
+    const { vaultix, server } = createMockVaultix({ config: { validateCards: true } })
+
+    await expect(vaultix.tokens.create({ card: { number: '4242424242424241', exp_month: 12, exp_year: 2099, cvc: '123' } }))
+      .rejects.toMatchObject({ code: 'invalid_number', param: 'card[number]', attempts: 0 })
+    expect(server.requests).toHaveLength(0)
+
+    const token = await vaultix.tokens.create({ card: { number: '4242-4242-4242-4242', exp_month: 12, exp_year: 2099, cvc: '123' } })
+    expect(token.card.last4).toBe('4242')
+    expect(server.requests[0].body.card.number).toBe('4242424242424242')
+  })
+})
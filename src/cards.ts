@@ -0,0 +1,276 @@
+/**
+ * Vaultix Cards
+ *
+ * Check card data before tokenizing it: Luhn, brand detection, CVC and
+ * expiry, plus formatting and masking for display
+ */
+
+import { VaultixCardError } from './errors.js'
+import type { TokenCreateParams } from './types.js'
+
+export type CardBrand = 'visa' | 'mastercard' | 'elo' | 'hipercard' | 'amex' | 'diners'
+
+interface BrandRule {
+  brand: CardBrand
+  /** BIN ranges as `[from, to]` prefixes of equal length, inclusive */
+  ranges: Array<[string, string]>
+  lengths: number[]
+  cvcLength: number
+  /** Digit group sizes for display */
+  groups: number[]
+}
+
+/**
+ * Checked in order: Elo and Hipercard ranges overlap Visa, Diners and
+ * Discover prefixes, so the more specific brands come first
+ */
+const BRAND_RULES: BrandRule[] = [
+  {
+    brand: 'elo',
+    ranges: [
+      ['401178', '401179'], ['431274', '431274'], ['438935', '438935'], ['451416', '451416'],
+      ['457393', '457393'], ['457631', '457632'], ['504175', '504175'], ['506699', '506778'],
+      ['509000', '509999'], ['627780', '627780'], ['636297', '636297'], ['636368', '636368'],
+      ['650031', '650033'], ['650035', '650051'], ['650405', '650439'], ['650485', '650538'],
+      ['650541', '650598'], ['650700', '650718'], ['650720', '650727'], ['650901', '650978'],
+      ['651652', '651679'], ['655000', '655019'], ['655021', '655058'],
+    ],
+    lengths: [16],
+    cvcLength: 3,
+    groups: [4, 4, 4, 4],
+  },
+  {
+    brand: 'hipercard',
+    ranges: [['606282', '606282'], ['384100', '384100'], ['384140', '384140'], ['384160', '384160'], ['637095', '637095'], ['637568', '637568'], ['637599', '637599'], ['637609', '637609'], ['637612', '637612']],
+    lengths: [13, 16, 19],
+    cvcLength: 3,
+    groups: [4, 4, 4, 4, 3],
+  },
+  {
+    brand: 'amex',
+    ranges: [['34', '34'], ['37', '37']],
+    lengths: [15],
+    cvcLength: 4,
+    groups: [4, 6, 5],
+  },
+  {
+    brand: 'diners',
+    ranges: [['300', '305'], ['36', '36'], ['38', '39']],
+    lengths: [14, 16, 19],
+    cvcLength: 3,
+    groups: [4, 6, 4, 5],
+  },
+  {
+    brand: 'mastercard',
+    ranges: [['51', '55'], ['2221', '2720']],
+    lengths: [16],
+    cvcLength: 3,
+    groups: [4, 4, 4, 4],
+  },
+  {
+    brand: 'visa',
+    ranges: [['4', '4']],
+    lengths: [13, 16, 19],
+    cvcLength: 3,
+    groups: [4, 4, 4, 4, 3],
+  },
+]
+
+export interface CardValidationIssue {
+  /** Error code the API uses for the same problem */
+  code: 'invalid_number' | 'invalid_expiry_month' | 'invalid_expiry_year' | 'expired_card' | 'invalid_cvc'
+  /** Offending param, e.g. `card[number]` */
+  param: string
+  message: string
+}
+
+/**
+ * Keep only the digits of a card number, dropping spaces, dashes, dots and
+ * any other separator
+ */
+export function normalizeCardNumber(number: string): string {
+  return number.replace(/\D/g, '')
+}
+
+/**
+ * Whether a number passes the Luhn (mod 10) checksum
+ */
+export function luhnCheck(number: string): boolean {
+  const digits = normalizeCardNumber(number)
+  if (!/^\d+$/.test(digits)) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+
+  return sum % 10 === 0
+}
+
+/**
+ * Brand of a card number from its BIN (first digits); works on partial
+ * numbers, e.g. to show the brand logo while the customer types
+ *
+ * @example
+ * ```ts
+ * detectCardBrand('4242 4242 4242 4242') // 'visa'
+ * detectCardBrand('6363 68')             // 'elo'
+ * detectCardBrand('9999')                // undefined
+ * ```
+ */
+export function detectCardBrand(number: string): CardBrand | undefined {
+  return ruleFor(normalizeCardNumber(number))?.brand
+}
+
+/**
+ * Whether a card number has a valid length for its brand and passes Luhn
+ */
+export function validateCardNumber(number: string): boolean {
+  const digits = normalizeCardNumber(number)
+  if (!/^\d{12,19}$/.test(digits)) return false
+
+  const rule = ruleFor(digits)
+  if (rule && !rule.lengths.includes(digits.length)) return false
+
+  return luhnCheck(digits)
+}
+
+/**
+ * Whether a CVC has the length the brand uses: 4 digits for Amex, 3 for
+ * the others, 3 or 4 when the brand is unknown
+ */
+export function validateCardCvc(cvc: string, brand?: CardBrand): boolean {
+  const length = BRAND_RULES.find(rule => rule.brand === brand)?.cvcLength
+  return length ? new RegExp(`^\\d{${length}}$`).test(cvc) : /^\d{3,4}$/.test(cvc)
+}
+
+/**
+ * Whether an expiry date is valid and not in the past; cards are valid
+ * through the last day of their expiry month. Two-digit years are read as
+ * 20xx.
+ */
+export function validateCardExpiry(month: number, year: number, now: Date = new Date()): boolean {
+  if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(year)) return false
+
+  const fullYear = year < 100 ? 2000 + year : year
+  return fullYear > now.getFullYear() || (fullYear === now.getFullYear() && month >= now.getMonth() + 1)
+}
+
+/**
+ * Every problem with card data, with the codes and params the API would
+ * return; empty if the card looks valid
+ *
+ * @example
+ * ```ts
+ * const issues = validateCard({ number: '4242 4242 4242 4241', exp_month: 1, exp_year: 2020, cvc: '12' })
+ * // [{ code: 'invalid_number', param: 'card[number]', ... },
+ * //  { code: 'expired_card', param: 'card[exp_year]', ... },
+ * //  { code: 'invalid_cvc', param: 'card[cvc]', ... }]
+ * ```
+ */
+export function validateCard(card: TokenCreateParams['card'], now: Date = new Date()): CardValidationIssue[] {
+  const issues: CardValidationIssue[] = []
+  const number = normalizeCardNumber(String(card.number ?? ''))
+
+  if (!validateCardNumber(number)) {
+    issues.push({ code: 'invalid_number', param: 'card[number]', message: 'The card number is invalid' })
+  }
+
+  if (!Number.isInteger(card.exp_month) || card.exp_month < 1 || card.exp_month > 12) {
+    issues.push({ code: 'invalid_expiry_month', param: 'card[exp_month]', message: 'The expiration month is invalid' })
+  } else if (!Number.isInteger(card.exp_year)) {
+    issues.push({ code: 'invalid_expiry_year', param: 'card[exp_year]', message: 'The expiration year is invalid' })
+  } else if (!validateCardExpiry(card.exp_month, card.exp_year, now)) {
+    issues.push({ code: 'expired_card', param: 'card[exp_year]', message: 'The card has expired' })
+  }
+
+  if (!validateCardCvc(String(card.cvc ?? ''), detectCardBrand(number))) {
+    issues.push({ code: 'invalid_cvc', param: 'card[cvc]', message: 'The security code is invalid' })
+  }
+
+  return issues
+}
+
+/**
+ * Group the digits for display, e.g. `4242 4242 4242 4242` or
+ * `3782 822463 10005` for Amex
+ */
+export function formatCardNumber(number: string): string {
+  const digits = normalizeCardNumber(number)
+  const groups = ruleFor(digits)?.groups ?? [4, 4, 4, 4, 3]
+  const parts: string[] = []
+  let offset = 0
+
+  for (const size of groups) {
+    if (offset >= digits.length) break
+    parts.push(digits.slice(offset, offset + size))
+    offset += size
+  }
+
+  if (offset < digits.length) parts.push(digits.slice(offset))
+  return parts.join(' ')
+}
+
+/**
+ * Hide all but the last four digits, keeping the grouping, e.g.
+ * `**** **** **** 4242`
+ */
+export function maskCardNumber(number: string): string {
+  const digits = normalizeCardNumber(number)
+  const visible = digits.length - 4
+  const masked = [...digits].map((digit, i) => (i < visible ? '*' : digit)).join('')
+  const formatted = formatCardNumber(digits)
+
+  // Re-apply the grouping of the real number to the masked digits
+  let index = 0
+  return formatted.replace(/\d/g, () => masked[index++])
+}
+
+/**
+ * Check the card inside token params, throwing the `VaultixCardError` the
+ * API would return for the first problem found
+ *
+ * Returns a copy of the params with separators stripped from the
+ * number. Used by `tokens.create` when `validateCards` is enabled.
+ */
+export function checkCardParams(params: TokenCreateParams): TokenCreateParams {
+  if (!params?.card) return params
+
+  const [issue] = validateCard(params.card)
+
+  if (issue) {
+    throw new VaultixCardError({
+      type: 'card_error',
+      code: issue.code,
+      message: issue.message,
+      param: issue.param,
+    }, undefined, { attempts: 0 })
+  }
+
+  return { ...params, card: { ...params.card, number: normalizeCardNumber(params.card.number) } }
+}
+
+/**
+ * Brand rule for a (possibly partial) number; a number shorter than a BIN
+ * prefix only matches it when no brand matches outright, so `4` is Visa
+ * even though Elo has `401178`
+ */
+function ruleFor(digits: string): BrandRule | undefined {
+  if (!digits) return undefined
+
+  const matches = (partial: boolean) => (rule: BrandRule) => rule.ranges.some(([from, to]) => {
+    if (digits.length < from.length) {
+      return partial && digits >= from.slice(0, digits.length) && digits <= to.slice(0, digits.length)
+    }
+
+    const prefix = digits.slice(0, from.length)
+    return prefix >= from && prefix <= to
+  })
+
+  return BRAND_RULES.find(matches(false)) ?? BRAND_RULES.find(matches(true))
+}
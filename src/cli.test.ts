@@ -0,0 +1,118 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { main } from './cli.js'
+import { createMockVaultix } from './testing/mock-server.js'
+
+describe('CLI', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vaultix-cli-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  /** Run the CLI against a mock server, never touching ~/.vaultix */
+  async function run(argv: string[], env: Record<string, string> = {}) {
+    const { vaultix, server } = createMockVaultix({ secretKey: 'sk_test_cli' })
+    let stdout = ''
+    let stderr = ''
+
+    const code = await main(argv, {
+      stdout: { write: text => (stdout += text) },
+      stderr: { write: text => (stderr += text) },
+      env: { VAULTIX_CONFIG: join(dir, 'missing.json'), VAULTIX_SECRET_KEY: 'sk_test_cli', ...env },
+      fetch: server.fetch,
+    })
+
+    return { code, stdout, stderr, server, vaultix }
+  }
+
+  it('accepts global flags before and after the resource', async () => {
+    const before = await run(['--json', 'balance'])
+    const after = await run(['balance', 'get', '--json'])
+
+    expect(before.code).toBe(0)
+    expect(JSON.parse(before.stdout)).toMatchObject({ object: 'balance' })
+    expect(after.stdout).toBe(before.stdout)
+
+    const table = await run(['balance'])
+    expect(() => JSON.parse(table.stdout)).toThrow()
+  })
+
+  it('prefers --api-key over the environment and the environment over the profile', async () => {
+    const config = join(dir, 'config.json')
+    await writeFile(config, JSON.stringify({ default: { secretKey: 'sk_test_profile' }, ci: { secretKey: 'sk_test_cli' } }))
+
+    const fromEnv = await run(['balance'], { VAULTIX_CONFIG: config })
+    const fromFlag = await run(['balance', '--api-key', 'sk_test_flag'], { VAULTIX_CONFIG: config })
+    const fromProfile = await run(['balance', '-p', 'ci'], { VAULTIX_CONFIG: config, VAULTIX_SECRET_KEY: '' })
+    const fromEnvProfile = await run(['balance'], { VAULTIX_CONFIG: config, VAULTIX_SECRET_KEY: '', VAULTIX_PROFILE: 'ci' })
+
+    expect(fromEnv.server.requests[0].headers.authorization).toBe('Bearer sk_test_cli')
+    expect(fromFlag.server.requests[0].headers.authorization).toBe('Bearer sk_test_flag')
+    expect(fromProfile.code).toBe(0)
+    expect(fromEnvProfile.code).toBe(0)
+  })
+
+  it('reports missing keys and profiles as usage errors', async () => {
+    const noKey = await run(['balance'], { VAULTIX_SECRET_KEY: '' })
+    const noProfile = await run(['balance', '--profile', 'staging'])
+
+    expect(noKey).toMatchObject({ code: 2, stdout: '' })
+    expect(noKey.stderr).toContain('No API key found')
+    expect(noProfile.code).toBe(2)
+    expect(noProfile.stderr).toContain('Cannot read')
+  })
+
+  it('sends numeric options as numbers and rejects non-integers', async () => {
+    const { code, server } = await run(['transactions', 'list', '--min-amount', '1000', '--payment-method', 'pix'])
+    const invalid = await run(['charges', 'list', '--limit', 'ten'])
+
+    expect(code).toBe(0)
+    expect(server.requests[0].query).toMatchObject({ min_amount: '1000', payment_method: 'pix' })
+    expect(invalid).toMatchObject({ code: 2, stderr: '--limit must be an integer\n' })
+    expect(invalid.server.requests).toHaveLength(0)
+  })
+
+  it('fetches every page with --all', async () => {
+    const { vaultix, server } = createMockVaultix({ secretKey: 'sk_test_cli' })
+    for (const name of ['Ana', 'Bia', 'Caio']) {
+      await vaultix.customers.create({ name, email: `${name.toLowerCase()}@email.com` })
+    }
+
+    const list = async (...args: string[]) => {
+      let stdout = ''
+      await main(['customers', 'list', '--limit', '1', '--json', ...args], {
+        stdout: { write: text => (stdout += text) },
+        env: { VAULTIX_CONFIG: join(dir, 'missing.json'), VAULTIX_SECRET_KEY: 'sk_test_cli' },
+        fetch: server.fetch,
+      })
+      return JSON.parse(stdout)
+    }
+
+    expect(await list()).toMatchObject({ has_more: true, data: [{ name: 'Caio' }] })
+    expect((await list('--all')).data.map((customer: { name: string }) => customer.name)).toEqual(['Caio', 'Bia', 'Ana'])
+  })
+
+  it('exits with 2 for usage errors and 1 for API errors', async () => {
+    expect((await run(['nope'])).code).toBe(2)
+    expect((await run(['charges', 'nope'])).code).toBe(2)
+    expect((await run(['charges', 'get'])).code).toBe(2)
+    expect((await run(['charges', 'list', '--bogus'])).code).toBe(2)
+    expect((await run(['transactions', 'summary', '1y'])).code).toBe(2)
+    expect((await run(['--help'])).code).toBe(0)
+
+    const notFound = await run(['charges', 'get', 'ch_missing'])
+    expect(notFound.code).toBe(1)
+    expect(notFound.stderr).toMatch(/^Error: .+\(resource_missing/)
+
+    const unauthorized = await run(['balance', '--api-key', 'sk_test_wrong'])
+    expect(unauthorized.code).toBe(1)
+    expect(unauthorized.stderr).toContain('invalid_api_key')
+  })
+})
@@ -0,0 +1,622 @@
+/**
+ * Vaultix CLI
+ *
+ * Command-line access to the Vaultix API, a thin layer over the SDK
+ * resources. Importing this module has no side effects; the `vaultix`
+ * binary in `bin.ts` calls `main`.
+ *
+ * @example
+ * ```sh
+ * export VAULTIX_SECRET_KEY=sk_live_...
+ *
+ * vaultix charges get ch_abc123
+ * vaultix charges list --status paid --limit 50 --json
+ * vaultix payouts cancel po_abc123
+ * vaultix balance
+ * ```
+ */
+
+import { readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { parseArgs } from 'node:util'
+import type { ParseArgsConfig } from 'node:util'
+import { Vaultix } from './vaultix.js'
+import { VERSION } from './client.js'
+import { VaultixAPIError } from './errors.js'
+import type { PagePromise } from './pagination.js'
+import type { FetchFunction } from './types.js'
+
+type Options = NonNullable<ParseArgsConfig['options']>
+type Values = Record<string, string | boolean | undefined>
+
+interface Command {
+  description: string
+  /** Positional arguments, e.g. `<id>` */
+  args?: string[]
+  options?: Options
+  run: (vaultix: Vaultix, args: string[], values: Values) => Promise<unknown>
+  /** Columns shown when the result is printed as a table */
+  columns?: string[]
+}
+
+interface Profile {
+  secretKey?: string
+  baseUrl?: string
+}
+
+/** Where the CLI reads its environment and writes its output */
+export interface CliContext {
+  stdout?: { write(text: string): unknown }
+  stderr?: { write(text: string): unknown }
+  /** Environment variables (default `process.env`) */
+  env?: Record<string, string | undefined>
+  /** Fetch implementation handed to the client, e.g. a mock server's */
+  fetch?: FetchFunction
+}
+
+interface Io {
+  out: (text: string) => void
+  err: (text: string) => void
+  env: Record<string, string | undefined>
+  fetch?: FetchFunction
+}
+
+class UsageError extends Error {}
+
+const GLOBAL_OPTIONS: Options = {
+  'api-key': { type: 'string', short: 'k' },
+  profile: { type: 'string', short: 'p' },
+  'base-url': { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+}
+
+const LIST_OPTIONS: Options = {
+  limit: { type: 'string', short: 'l' },
+  'starting-after': { type: 'string' },
+  'ending-before': { type: 'string' },
+  all: { type: 'boolean' },
+}
+
+const SUMMARY_PERIODS = ['24h', '7d', '30d', '90d'] as const
+
+type SummaryPeriod = (typeof SUMMARY_PERIODS)[number]
+
+/** Options whose values are sent as numbers */
+const NUMERIC_OPTIONS = new Set(['limit', 'amount', 'min-amount', 'max-amount'])
+
+/** Options that control the CLI itself and are never sent as params */
+const CLI_OPTIONS = new Set([...Object.keys(GLOBAL_OPTIONS), 'all'])
+
+const CHARGE_COLUMNS = ['id', 'amount', 'currency', 'payment_method', 'status', 'created']
+const REFUND_COLUMNS = ['id', 'charge', 'amount', 'status', 'reason', 'created']
+const PAYOUT_COLUMNS = ['id', 'amount', 'currency', 'status', 'destination.type', 'created']
+
+const COMMANDS: Record<string, Record<string, Command>> = {
+  balance: {
+    get: {
+      description: 'Show the account balance',
+      run: vaultix => vaultix.balance.retrieve(),
+    },
+    transactions: {
+      description: 'List balance transactions',
+      options: { ...LIST_OPTIONS, type: { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.balance.listTransactions(params(values)), values),
+      columns: ['id', 'type', 'amount', 'status', 'source', 'created'],
+    },
+  },
+  charges: {
+    get: {
+      description: 'Retrieve a charge',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.charges.retrieve(id),
+    },
+    list: {
+      description: 'List charges',
+      options: { ...LIST_OPTIONS, status: { type: 'string' }, 'payment-method': { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.charges.list(params(values)), values),
+      columns: CHARGE_COLUMNS,
+    },
+    capture: {
+      description: 'Capture an authorized card charge',
+      args: ['<id>'],
+      options: { amount: { type: 'string' } },
+      run: (vaultix, [id], values) => vaultix.charges.capture(id, params(values)),
+    },
+    cancel: {
+      description: 'Cancel a pending charge',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.charges.cancel(id),
+    },
+  },
+  customers: {
+    get: {
+      description: 'Retrieve a customer',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.customers.retrieve(id),
+    },
+    list: {
+      description: 'List customers',
+      options: LIST_OPTIONS,
+      run: (vaultix, _, values) => list(vaultix.customers.list(params(values)), values),
+      columns: ['id', 'name', 'email', 'created'],
+    },
+    delete: {
+      description: 'Delete a customer',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.customers.delete(id),
+    },
+  },
+  refunds: {
+    get: {
+      description: 'Retrieve a refund',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.refunds.retrieve(id),
+    },
+    list: {
+      description: 'List refunds',
+      options: { ...LIST_OPTIONS, charge: { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.refunds.list(params(values)), values),
+      columns: REFUND_COLUMNS,
+    },
+    create: {
+      description: 'Refund a charge, fully or partially',
+      args: ['<charge>'],
+      options: { amount: { type: 'string' }, reason: { type: 'string' } },
+      run: (vaultix, [charge], values) => vaultix.refunds.create({ charge, ...params(values) }),
+    },
+  },
+  payouts: {
+    get: {
+      description: 'Retrieve a payout',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.payouts.retrieve(id),
+    },
+    list: {
+      description: 'List payouts',
+      options: { ...LIST_OPTIONS, status: { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.payouts.list(params(values)), values),
+      columns: PAYOUT_COLUMNS,
+    },
+    cancel: {
+      description: 'Cancel a pending payout',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.payouts.cancel(id),
+    },
+  },
+  'payment-links': {
+    get: {
+      description: 'Retrieve a payment link',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.paymentLinks.retrieve(id),
+    },
+    list: {
+      description: 'List payment links',
+      options: { ...LIST_OPTIONS, status: { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.paymentLinks.list(params(values)), values),
+      columns: ['id', 'amount', 'currency', 'status', 'current_uses', 'url'],
+    },
+    deactivate: {
+      description: 'Deactivate a payment link',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.paymentLinks.deactivate(id),
+    },
+    payments: {
+      description: 'List charges paid through a payment link',
+      args: ['<id>'],
+      options: { limit: LIST_OPTIONS.limit },
+      run: (vaultix, [id], values) => vaultix.paymentLinks.listPayments(id, params(values)),
+      columns: CHARGE_COLUMNS,
+    },
+  },
+  products: {
+    get: {
+      description: 'Retrieve a product',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.products.retrieve(id),
+    },
+    list: {
+      description: 'List products',
+      options: { ...LIST_OPTIONS, status: { type: 'string' }, 'category-id': { type: 'string' }, search: { type: 'string' } },
+      run: (vaultix, _, values) => list(vaultix.products.list(params(values)), values),
+      columns: ['id', 'name', 'sku', 'price', 'stock_quantity', 'status'],
+    },
+  },
+  orders: {
+    get: {
+      description: 'Retrieve an order with its items',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.orders.retrieve(id, { expand: 'items' }),
+    },
+    list: {
+      description: 'List orders',
+      options: {
+        ...LIST_OPTIONS,
+        status: { type: 'string' },
+        'payment-status': { type: 'string' },
+        'fulfillment-status': { type: 'string' },
+        'customer-id': { type: 'string' },
+        'created-gte': { type: 'string' },
+        'created-lte': { type: 'string' },
+      },
+      run: (vaultix, _, values) => list(vaultix.orders.list(params(values)), values),
+      columns: ['id', 'order_number', 'status', 'payment_status', 'amounts.total', 'created_at'],
+    },
+    items: {
+      description: 'List the items of an order',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.orders.listItems(id),
+      columns: ['id', 'name', 'quantity', 'unit_price', 'total'],
+    },
+  },
+  transactions: {
+    get: {
+      description: 'Retrieve a transaction',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.transactions.retrieve(id),
+    },
+    list: {
+      description: 'List charges, refunds and payouts',
+      options: {
+        ...LIST_OPTIONS,
+        type: { type: 'string' },
+        status: { type: 'string' },
+        'payment-method': { type: 'string' },
+        'created-gte': { type: 'string' },
+        'created-lte': { type: 'string' },
+        'min-amount': { type: 'string' },
+        'max-amount': { type: 'string' },
+      },
+      run: (vaultix, _, values) => list(vaultix.transactions.list(params(values)), values),
+      columns: ['id', 'type', 'amount', 'currency', 'status', 'created_at'],
+    },
+    summary: {
+      description: 'Summarize transactions over a period (24h, 7d, 30d or 90d)',
+      args: ['[period]'],
+      run: (vaultix, [period = '30d']) => {
+        if (!isSummaryPeriod(period)) {
+          throw new UsageError(`Invalid period: ${period} (expected ${SUMMARY_PERIODS.join(', ')})`)
+        }
+
+        return vaultix.transactions.summary(period)
+      },
+    },
+  },
+  tokens: {
+    get: {
+      description: 'Retrieve a card token',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.tokens.retrieve(id),
+    },
+  },
+  sandbox: {
+    'pay-charge': {
+      description: 'Simulate a charge being paid (test mode)',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.sandbox.payCharge(id),
+    },
+    'fail-charge': {
+      description: 'Simulate a charge failing (test mode)',
+      args: ['<id>'],
+      options: { 'failure-code': { type: 'string' }, 'failure-message': { type: 'string' } },
+      run: (vaultix, [id], values) => vaultix.sandbox.failCharge(id, params(values)),
+    },
+    'expire-charge': {
+      description: 'Simulate a charge expiring (test mode)',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.sandbox.expireCharge(id),
+    },
+    'succeed-refund': {
+      description: 'Simulate a refund completing (test mode)',
+      args: ['<id>'],
+      run: (vaultix, [id]) => vaultix.sandbox.succeedRefund(id),
+    },
+    'test-webhook': {
+      description: 'Send a test event to your webhook endpoint (test mode)',
+      args: ['[event-type]'],
+      run: (vaultix, [eventType]) => vaultix.sandbox.testWebhook(eventType ? { event_type: eventType } : undefined),
+    },
+    'test-cards': {
+      description: 'List test card numbers',
+      run: vaultix => vaultix.sandbox.listTestCards(),
+      columns: ['number', 'brand', 'behavior', 'description'],
+    },
+  },
+}
+
+/** Commands run when only a resource is given, e.g. `vaultix balance` */
+const DEFAULT_COMMANDS: Record<string, string> = {
+  balance: 'get',
+}
+
+/**
+ * Run the CLI and resolve with its exit code: 0 on success, 1 for API and
+ * unexpected errors, 2 for usage errors. Never rejects.
+ *
+ * @example
+ * ```ts
+ * const code = await main(['charges', 'list', '--json'], { env: { VAULTIX_SECRET_KEY: 'sk_test_...' } })
+ * ```
+ */
+export async function main(argv: string[], context: CliContext = {}): Promise<number> {
+  const stdout = context.stdout ?? process.stdout
+  const stderr = context.stderr ?? process.stderr
+  const io: Io = {
+    out: text => stdout.write(`${text}\n`),
+    err: text => stderr.write(`${text}\n`),
+    env: context.env ?? process.env,
+    fetch: context.fetch,
+  }
+
+  try {
+    return await run(argv, io)
+  } catch (error) {
+    if (error instanceof VaultixAPIError) {
+      const details = [error.code, error.param && `param: ${error.param}`, error.requestId && `request: ${error.requestId}`]
+      io.err(`Error: ${error.message} (${details.filter(Boolean).join(', ')})`)
+      return 1
+    }
+
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+      io.err((error as Error).message)
+      return 2
+    }
+
+    io.err(error instanceof Error ? error.stack ?? error.message : String(error))
+    return 1
+  }
+}
+
+async function run(argv: string[], io: Io): Promise<number> {
+  const { globalArgs, args } = splitGlobalArgs(argv)
+  const { values: globals } = parseArgs({ args: globalArgs, options: GLOBAL_OPTIONS })
+  const [resourceName, commandName, ...rest] = args
+
+  if (globals.version) {
+    io.out(VERSION)
+    return 0
+  }
+
+  const resource = COMMANDS[resourceName]
+
+  if (!resource || resourceName.startsWith('-')) {
+    if (resourceName && !resourceName.startsWith('-')) io.err(`Unknown resource: ${resourceName}\n`)
+    io.out(usage())
+    return resourceName && !globals.help ? 2 : 0
+  }
+
+  const defaultCommand = DEFAULT_COMMANDS[resourceName]
+  const useDefault = defaultCommand && (!commandName || commandName.startsWith('-'))
+  const name = useDefault ? defaultCommand : commandName
+  const command = resource[name]
+
+  if (!command) {
+    if (name && !name.startsWith('-')) io.err(`Unknown command: ${resourceName} ${name}\n`)
+    io.out(resourceUsage(resourceName))
+    return name && !globals.help ? 2 : 0
+  }
+
+  if (globals.help) {
+    io.out(commandUsage(resourceName, name, command))
+    return 0
+  }
+
+  const { values, positionals } = parseArgs({
+    args: [...globalArgs, ...(useDefault ? [commandName, ...rest].filter(arg => arg !== undefined) : rest)],
+    options: { ...GLOBAL_OPTIONS, ...command.options },
+    allowPositionals: true,
+  })
+
+  const required = (command.args ?? []).filter(arg => arg.startsWith('<'))
+  if (positionals.length < required.length || positionals.length > (command.args ?? []).length) {
+    throw new UsageError(`Usage: ${commandSignature(resourceName, name, command)}`)
+  }
+
+  const vaultix = new Vaultix({ ...resolveConfig(values as Values, io.env), fetch: io.fetch })
+  const result = await command.run(vaultix, positionals, values as Values)
+
+  io.out(values.json ? JSON.stringify(result, null, 2) : format(result, command.columns))
+  return 0
+}
+
+/**
+ * Separate global flags from the rest of the arguments, so they can come
+ * anywhere: `vaultix --json charges list` and `vaultix charges list --json`
+ */
+function splitGlobalArgs(argv: string[]): { globalArgs: string[]; args: string[] } {
+  const globalArgs: string[] = []
+  const args: string[] = []
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+
+    if (arg === '--') {
+      args.push(...argv.slice(i))
+      break
+    }
+
+    const option = arg.startsWith('--')
+      ? GLOBAL_OPTIONS[arg.slice(2).split('=')[0]]
+      : Object.values(GLOBAL_OPTIONS).find(option => option.short && arg === `-${option.short}`)
+
+    if (!option) {
+      args.push(arg)
+      continue
+    }
+
+    globalArgs.push(arg)
+    if (option.type === 'string' && !arg.includes('=') && i + 1 < argv.length) globalArgs.push(argv[++i])
+  }
+
+  return { globalArgs, args }
+}
+
+function isSummaryPeriod(value: string): value is SummaryPeriod {
+  return (SUMMARY_PERIODS as readonly string[]).includes(value)
+}
+
+/**
+ * Resolve the API key and base URL from flags, the environment or a
+ * profile in `~/.vaultix/config.json`
+ */
+function resolveConfig(values: Values, env: Io['env']): { secretKey: string; baseUrl?: string } {
+  const profileName = (values.profile as string) ?? env.VAULTIX_PROFILE ?? 'default'
+  const profile = loadProfile(profileName, values.profile !== undefined || env.VAULTIX_PROFILE !== undefined, env)
+
+  const secretKey = (values['api-key'] as string) ?? (env.VAULTIX_SECRET_KEY || profile.secretKey)
+  const baseUrl = (values['base-url'] as string) ?? (env.VAULTIX_BASE_URL || profile.baseUrl)
+
+  if (!secretKey) {
+    throw new UsageError(
+      'No API key found. Pass --api-key, set VAULTIX_SECRET_KEY or add a profile to ~/.vaultix/config.json'
+    )
+  }
+
+  return { secretKey, baseUrl }
+}
+
+function loadProfile(name: string, explicit: boolean, env: Io['env']): Profile {
+  const path = env.VAULTIX_CONFIG ?? join(homedir(), '.vaultix', 'config.json')
+  let profiles: Record<string, Profile>
+
+  try {
+    profiles = JSON.parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !explicit) return {}
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const profile = profiles[name]
+  if (!profile && explicit) throw new UsageError(`Profile "${name}" not found in ${path}`)
+
+  return profile ?? {}
+}
+
+/**
+ * Turn command options into API params: `--payment-method pix` becomes
+ * `{ payment_method: 'pix' }`
+ */
+function params(values: Values): Record<string, any> {
+  const result: Record<string, any> = {}
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined || CLI_OPTIONS.has(key)) continue
+
+    if (NUMERIC_OPTIONS.has(key)) {
+      const number = Number(value)
+      if (!Number.isInteger(number)) throw new UsageError(`--${key} must be an integer`)
+      result[key.replace(/-/g, '_')] = number
+    } else {
+      result[key.replace(/-/g, '_')] = value
+    }
+  }
+
+  return result
+}
+
+/**
+ * Fetch the first page, or every page with `--all`
+ */
+async function list<T extends { id: string }>(promise: PagePromise<T>, values: Values): Promise<unknown> {
+  if (values.all) {
+    return { object: 'list', data: await promise.toArray(), has_more: false }
+  }
+
+  return promise
+}
+
+function format(result: unknown, columns?: string[]): string {
+  if (isList(result)) {
+    const rows = result.data
+    const keys = columns ?? Object.keys(rows[0] ?? {}).filter(key => isScalar(rows[0][key]))
+    const table = renderTable(keys, rows.map(row => keys.map(key => cell(pick(row, key)))))
+    const more = result.has_more ? '\nMore results available; use --starting-after or --all' : ''
+
+    return rows.length === 0 ? 'No results' : table + more
+  }
+
+  if (result && typeof result === 'object') {
+    const rows = flatten(result as Record<string, unknown>)
+    return renderTable(['field', 'value'], rows, false)
+  }
+
+  return String(result)
+}
+
+function isList(value: unknown): value is { data: Array<Record<string, unknown>>; has_more?: boolean } {
+  return Boolean(value) && typeof value === 'object' && Array.isArray((value as { data?: unknown }).data)
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || typeof value !== 'object'
+}
+
+function pick(value: unknown, path: string): unknown {
+  return path.split('.').reduce<any>((current, key) => current?.[key], value)
+}
+
+function cell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Flatten an object into `[dotted.key, value]` rows
+ */
+function flatten(value: Record<string, unknown>, prefix = ''): string[][] {
+  return Object.entries(value).flatMap(([key, field]) => {
+    const name = prefix + key
+
+    if (field && typeof field === 'object' && !Array.isArray(field)) {
+      return flatten(field as Record<string, unknown>, `${name}.`)
+    }
+
+    return field === undefined ? [] : [[name, cell(field)]]
+  })
+}
+
+function renderTable(header: string[], rows: string[][], showHeader = true): string {
+  const all = showHeader ? [header.map(title => title.toUpperCase()), ...rows] : rows
+  const widths = header.map((_, i) => Math.max(...all.map(row => row[i]?.length ?? 0)))
+
+  return all
+    .map(row => row.map((value, i) => (i === row.length - 1 ? value : value.padEnd(widths[i]))).join('  '))
+    .join('\n')
+}
+
+function commandSignature(resourceName: string, name: string, command: Command): string {
+  const options = Object.keys(command.options ?? {}).map(option => `[--${option}]`)
+  return ['vaultix', resourceName, name, ...(command.args ?? []), ...options].join(' ')
+}
+
+function commandUsage(resourceName: string, name: string, command: Command): string {
+  return `${command.description}\n\nUsage: ${commandSignature(resourceName, name, command)}\n\n${globalUsage()}`
+}
+
+function resourceUsage(resourceName: string): string {
+  const commands = Object.entries(COMMANDS[resourceName])
+    .map(([name, command]) => [`  ${[resourceName, name, ...(command.args ?? [])].join(' ')}`, command.description])
+
+  return `Usage: vaultix ${resourceName} <command> [options]\n\nCommands:\n${renderTable(['', ''], commands, false)}\n\n${globalUsage()}`
+}
+
+function usage(): string {
+  const resources = Object.entries(COMMANDS)
+    .map(([name, commands]) => [`  ${name}`, Object.keys(commands).join(', ')])
+
+  return `Vaultix CLI v${VERSION}\n\nUsage: vaultix <resource> <command> [args] [options]\n\nResources:\n${renderTable(['', ''], resources, false)}\n\nRun "vaultix <resource> --help" for the commands of a resource.\n\n${globalUsage()}`
+}
+
+function globalUsage(): string {
+  return [
+    'Options:',
+    '  -k, --api-key <key>   API key (default: $VAULTIX_SECRET_KEY or the profile)',
+    '  -p, --profile <name>  Profile from ~/.vaultix/config.json (default: $VAULTIX_PROFILE or "default")',
+    '      --base-url <url>  API base URL',
+    '      --json            Print raw JSON instead of a table',
+    '  -h, --help            Show help',
+    '  -v, --version         Show the SDK version',
+  ].join('\n')
+}
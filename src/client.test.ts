@@ -0,0 +1,388 @@
+import { describe, expect, it, vi } from 'vitest'
+import { VERSION, VaultixClient } from './client.js'
+import { VaultixAPIError, VaultixRateLimitError, VaultixTimeoutError } from './errors.js'
+import { Vaultix } from './vaultix.js'
+import type { RetryInfo, VaultixConfig } from './types.js'
+
+interface FetchCall {
+  url: string
+  init: RequestInit
+  headers: Record<string, string>
+}
+
+/**
+ * A fetch that answers with the given responses in order, repeating the
+ * last one; errors are thrown as network failures
+ */
+function mockFetch(...responses: Array<Response | Error>) {
+  const calls: FetchCall[] = []
+  const queue = [...responses]
+
+  const fetch = vi.fn(async (url: string, init: RequestInit) => {
+    calls.push({ url, init, headers: init.headers as Record<string, string> })
+    const next = queue.length > 1 ? queue.shift()! : queue[0]
+    if (next instanceof Error) throw next
+    return next.clone()
+  })
+
+  return { fetch, calls }
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json', ...headers } })
+}
+
+function createClient(fetch: VaultixConfig['fetch'], config: Partial<VaultixConfig> = {}): VaultixClient {
+  return new VaultixClient({
+    secretKey: 'sk_test_123',
+    fetch,
+    retry: { baseDelay: 1, jitter: 'none' },
+    logLevel: 'silent',
+    ...config,
+  })
+}
+
+/** A fetch that never answers, until its signal aborts */
+function hangingFetch() {
+  return vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_, reject) => {
+    init.signal!.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })))
+  }))
+}
+
+const serverError = () => jsonResponse({ error: { type: 'api_error', code: 'server_error', message: 'Boom' } }, 500)
+
+describe('idempotency keys', () => {
+  it('sends a generated key on mutating requests', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch)
+
+    await client.post('/v1/charges', { amount: 5000 })
+    await client.put('/v1/customers/cus_1', { name: 'Maria' })
+    await client.delete('/v1/customers/cus_1')
+
+    for (const call of calls) {
+      expect(call.headers['Idempotency-Key']).toMatch(/^[\da-f-]{36}$/)
+    }
+  })
+
+  it('generates a new key for every call', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch)
+
+    await client.post('/v1/charges', { amount: 5000 })
+    await client.post('/v1/charges', { amount: 5000 })
+
+    expect(calls[0].headers['Idempotency-Key']).not.toBe(calls[1].headers['Idempotency-Key'])
+  })
+
+  it('reuses the same key on every retry of a call', async () => {
+    const { fetch, calls } = mockFetch(serverError(), new TypeError('fetch failed'), jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch)
+
+    const charge = await client.post<{ id: string }>('/v1/charges', { amount: 5000 })
+
+    expect(charge.id).toBe('ch_1')
+    expect(calls).toHaveLength(3)
+    expect(new Set(calls.map(call => call.headers['Idempotency-Key'])).size).toBe(1)
+  })
+
+  it('sends a caller-provided key unchanged', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'po_1' }))
+    const client = createClient(fetch)
+
+    await client.post('/v1/payouts', { amount: 100 }, { idempotencyKey: 'withdrawal_8812' })
+
+    expect(calls[0].headers['Idempotency-Key']).toBe('withdrawal_8812')
+  })
+
+  it('sends no key on GET requests', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch)
+
+    await client.get('/v1/charges/ch_1')
+
+    expect(calls[0].headers['Idempotency-Key']).toBeUndefined()
+  })
+})
+
+describe('per-request options', () => {
+  it('sends extra headers and the account on resource methods', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const vaultix = new Vaultix({ secretKey: 'sk_test_123', fetch, logLevel: 'silent' })
+
+    await vaultix.charges.retrieve('ch_1', { headers: { 'X-Trace-Id': 'trace_1' }, account: 'acct_1' })
+
+    expect(calls[0].headers['X-Trace-Id']).toBe('trace_1')
+    expect(calls[0].headers['Vaultix-Account']).toBe('acct_1')
+  })
+
+  it('keeps the options when fetching the next page of a list', async () => {
+    const { fetch, calls } = mockFetch(
+      jsonResponse({ object: 'list', data: [{ id: 'cus_1' }], has_more: true }),
+      jsonResponse({ object: 'list', data: [{ id: 'cus_2' }], has_more: false })
+    )
+    const vaultix = new Vaultix({ secretKey: 'sk_test_123', fetch, logLevel: 'silent' })
+
+    await vaultix.customers.list({ limit: 1 }, { account: 'acct_1' }).toArray()
+
+    expect(calls.map(call => call.headers['Vaultix-Account'])).toEqual(['acct_1', 'acct_1'])
+  })
+
+  it('overrides the client timeout', async () => {
+    const fetch = hangingFetch()
+    const client = createClient(fetch, { timeout: 60_000 })
+
+    const error = await client.get('/v1/charges/ch_1', undefined, { timeout: 10 }).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixTimeoutError)
+    expect(error.message).toBe('Request timed out after 10ms')
+  })
+
+  it('overrides the client maxRetries', async () => {
+    const { fetch, calls } = mockFetch(serverError())
+    const client = createClient(fetch, { maxRetries: 3 })
+
+    await expect(client.get('/v1/charges/ch_1', undefined, { maxRetries: 0 })).rejects.toThrow('Boom')
+    expect(calls).toHaveLength(1)
+  })
+})
+
+describe('transport', () => {
+  it('sends requests through the injected fetch', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch, { baseUrl: 'https://sandbox.example.com' })
+
+    await client.post('/v1/charges', { amount: 5000 })
+
+    expect(calls[0].url).toBe('https://sandbox.example.com/v1/charges')
+    expect(calls[0].init.method).toBe('POST')
+    expect(calls[0].init.body).toBe(JSON.stringify({ amount: 5000 }))
+    expect(calls[0].headers.Authorization).toBe('Bearer sk_test_123')
+  })
+
+  it('merges fetchOptions into every call', async () => {
+    const dispatcher = { name: 'proxy' }
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch, { fetchOptions: { dispatcher, keepalive: true } })
+
+    await client.get('/v1/charges/ch_1')
+
+    expect(calls[0].init).toMatchObject({ dispatcher, keepalive: true, method: 'GET' })
+  })
+
+  it('appends the app info to the User-Agent', async () => {
+    const { fetch, calls } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch, { appInfo: { name: 'my-store', version: '2.4.0', url: 'https://my.store' } })
+
+    await client.get('/v1/charges/ch_1')
+
+    expect(calls[0].headers['User-Agent']).toBe(`@vaultix/sdk/${VERSION} my-store/2.4.0 (https://my.store)`)
+  })
+})
+
+describe('retries', () => {
+  const rateLimited = (retryAfter: string) => jsonResponse(
+    { error: { type: 'rate_limit_error', code: 'rate_limited', message: 'Slow down' } },
+    429,
+    { 'retry-after': retryAfter }
+  )
+
+  function recordRetries(config: Partial<VaultixConfig> = {}, ...responses: Array<Response | Error>) {
+    const retries: RetryInfo[] = []
+    const { fetch, calls } = mockFetch(...responses)
+    const client = createClient(fetch, {
+      ...config,
+      onRetry: info => {
+        retries.push(info)
+        config.onRetry?.(info)
+      },
+    })
+    return { client, calls, retries }
+  }
+
+  it('backs off exponentially without jitter', async () => {
+    const { client, retries } = recordRetries(
+      { maxRetries: 3, retry: { baseDelay: 2, jitter: 'none' } },
+      serverError()
+    )
+
+    await expect(client.get('/v1/balance')).rejects.toThrow('Boom')
+    expect(retries.map(retry => retry.delay)).toEqual([2, 4, 8])
+  })
+
+  it('caps the backoff at maxDelay', async () => {
+    const { client, retries } = recordRetries(
+      { maxRetries: 4, retry: { baseDelay: 2, maxDelay: 5, jitter: 'none' } },
+      serverError()
+    )
+
+    await expect(client.get('/v1/balance')).rejects.toThrow('Boom')
+    expect(retries.map(retry => retry.delay)).toEqual([2, 4, 5, 5])
+  })
+
+  it('waits a random share of the backoff with full jitter', async () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.5)
+
+    try {
+      const { client, retries } = recordRetries(
+        { maxRetries: 2, retry: { baseDelay: 10 } },
+        serverError()
+      )
+
+      await expect(client.get('/v1/balance')).rejects.toThrow('Boom')
+      expect(retries.map(retry => retry.delay)).toEqual([5, 10])
+    } finally {
+      random.mockRestore()
+    }
+  })
+
+  it('honors Retry-After over the computed delay', async () => {
+    const { client, retries } = recordRetries(
+      { retry: { baseDelay: 1, jitter: 'none' } },
+      rateLimited('0.02'),
+      jsonResponse({ object: 'balance' })
+    )
+
+    await client.get('/v1/balance')
+    expect(retries.map(retry => retry.delay)).toEqual([20])
+  })
+
+  it('throws instead of retrying early when Retry-After exceeds maxDelay', async () => {
+    const { client, calls, retries } = recordRetries(
+      { retry: { baseDelay: 1, maxDelay: 30, jitter: 'none' } },
+      rateLimited('7200'),
+      jsonResponse({ object: 'balance' })
+    )
+
+    const error = await client.get('/v1/balance').catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixRateLimitError)
+    expect(error).toMatchObject({ retryAfter: 7200, attempts: 1 })
+    expect(retries).toHaveLength(0)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('throws when Retry-After would exceed maxElapsedTime', async () => {
+    const { client, calls } = recordRetries(
+      { retry: { baseDelay: 1, maxDelay: 60000, maxElapsedTime: 5000, jitter: 'none' } },
+      rateLimited('10'),
+      jsonResponse({ object: 'balance' })
+    )
+
+    await expect(client.get('/v1/balance')).rejects.toBeInstanceOf(VaultixRateLimitError)
+    expect(calls).toHaveLength(1)
+  })
+
+  it('ignores Retry-After when respectRetryAfter is false', async () => {
+    const { client, retries } = recordRetries(
+      { retry: { baseDelay: 3, jitter: 'none', respectRetryAfter: false } },
+      rateLimited('7200'),
+      jsonResponse({ object: 'balance' })
+    )
+
+    await client.get('/v1/balance')
+    expect(retries.map(retry => retry.delay)).toEqual([3])
+  })
+
+  it('does not retry client errors or timeouts', async () => {
+    const badRequest = recordRetries(
+      {},
+      jsonResponse({ error: { type: 'invalid_request_error', code: 'parameter_invalid', message: 'Bad' } }, 400)
+    )
+    await expect(badRequest.client.get('/v1/balance')).rejects.toThrow('Bad')
+    expect(badRequest.calls).toHaveLength(1)
+
+    const fetch = hangingFetch()
+    const timedOut = createClient(fetch, { timeout: 5, maxRetries: 3 })
+    await expect(timedOut.get('/v1/balance')).rejects.toBeInstanceOf(VaultixTimeoutError)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('retries POST requests, which always carry an idempotency key', async () => {
+    const { client, retries } = recordRetries({}, serverError(), jsonResponse({ id: 'ch_1' }))
+
+    await client.post('/v1/charges', { amount: 5000 })
+
+    expect(retries).toHaveLength(1)
+    expect(retries[0]).toMatchObject({ method: 'POST', retryable: true })
+    expect(retries[0].idempotencyKey).toBeTruthy()
+  })
+
+  it('lets shouldRetry override the default decision', async () => {
+    const { client, calls } = recordRetries(
+      { maxRetries: 3, retry: { baseDelay: 1, shouldRetry: context => context.error.statusCode === 404 } },
+      jsonResponse({ error: { type: 'invalid_request_error', code: 'not_found', message: 'Not found' } }, 404),
+      jsonResponse({ id: 'ch_1' })
+    )
+
+    await client.get('/v1/charges/ch_1')
+    expect(calls).toHaveLength(2)
+  })
+
+  it('gives up when the next attempt would exceed maxElapsedTime', async () => {
+    const { client, calls } = recordRetries(
+      { maxRetries: 5, retry: { baseDelay: 1000, jitter: 'none', maxElapsedTime: 500 } },
+      serverError()
+    )
+
+    await expect(client.get('/v1/balance')).rejects.toThrow('Boom')
+    expect(calls).toHaveLength(1)
+  })
+
+  it('stops waiting between attempts when the request is aborted', async () => {
+    const controller = new AbortController()
+    const reason = new Error('user navigated away')
+    const { client, calls } = recordRetries(
+      { maxRetries: 3, retry: { baseDelay: 60_000, jitter: 'none' }, onRetry: () => controller.abort(reason) },
+      serverError()
+    )
+
+    const started = Date.now()
+    const error = await client.get('/v1/balance', undefined, { signal: controller.signal }).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixAPIError)
+    expect(error.code).toBe('request_aborted')
+    expect(error.cause).toBe(reason)
+    expect(calls).toHaveLength(1)
+    expect(Date.now() - started).toBeLessThan(5_000)
+  })
+})
+
+describe('response metadata', () => {
+  it('exposes status, headers, request ID and attempts as lastResponse', async () => {
+    const { fetch } = mockFetch(
+      serverError(),
+      jsonResponse({ id: 'ch_1' }, 201, { 'x-request-id': 'req_123', 'x-ratelimit-remaining': '99' })
+    )
+    const client = createClient(fetch)
+
+    const charge = await client.post<{ id: string }>('/v1/charges', { amount: 5000 })
+
+    expect(charge.lastResponse).toMatchObject({
+      status: 201,
+      requestId: 'req_123',
+      attempts: 2,
+    })
+    expect(charge.lastResponse.headers['x-ratelimit-remaining']).toBe('99')
+    expect(charge.lastResponse.elapsedMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('keeps lastResponse out of JSON and object spreads', async () => {
+    const { fetch } = mockFetch(jsonResponse({ id: 'ch_1' }))
+    const client = createClient(fetch)
+
+    const charge = await client.get<{ id: string }>('/v1/charges/ch_1')
+
+    expect(JSON.parse(JSON.stringify(charge))).toEqual({ id: 'ch_1' })
+    expect({ ...charge }).toEqual({ id: 'ch_1' })
+  })
+
+  it('is available on list pages', async () => {
+    const { fetch } = mockFetch(jsonResponse({ object: 'list', data: [], has_more: false }, 200, { 'x-request-id': 'req_list' }))
+    const vaultix = new Vaultix({ secretKey: 'sk_test_123', fetch, logLevel: 'silent' })
+
+    const page = await vaultix.charges.list()
+
+    expect(page.lastResponse.requestId).toBe('req_list')
+  })
+})
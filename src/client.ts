@@ -4,35 +4,67 @@
  * Core HTTP client for making requests to the Vaultix API
  */
 
-import type { VaultixConfig, VaultixError } from './types.js'
+import { randomUUID } from 'node:crypto'
+import { PagePromise } from './pagination.js'
+import {
+  VaultixAPIError,
+  VaultixConnectionError,
+  VaultixInvalidRequestError,
+  VaultixResponseValidationError,
+  VaultixTimeoutError,
+} from './errors.js'
+import { createLogger } from './logger.js'
+import type { Logger } from './logger.js'
+import { composeMiddleware } from './middleware.js'
+import { paramSchemaFor } from './param-schemas.js'
+import { RateLimiter } from './rate-limiter.js'
+import { redactBody, redactHeaders } from './redact.js'
+import { responseSchemaFor } from './response-schemas.js'
+import { validate } from './schema.js'
+import type { Middleware, MiddlewareRequest, MiddlewareResponse } from './middleware.js'
+import type {
+  AppInfo,
+  FetchFunction,
+  HttpMethod,
+  ListResponse,
+  RateLimiterStats,
+  RequestOptions,
+  ResponseMetadata,
+  RetryContext,
+  RetryInfo,
+  RetryPolicy,
+  VaultixConfig,
+  VaultixResponse,
+} from './types.js'
+
+export const VERSION = '1.0.0'
 
 const DEFAULT_BASE_URL = 'https://console.velon.app/api'
 const DEFAULT_TIMEOUT = 30000
 const DEFAULT_MAX_RETRIES = 3
-
-export class VaultixAPIError extends Error {
-  readonly type: VaultixError['type']
-  readonly code: string
-  readonly param?: string
-  readonly docUrl?: string
-  readonly statusCode: number
-
-  constructor(error: VaultixError, statusCode: number) {
-    super(error.message)
-    this.name = 'VaultixAPIError'
-    this.type = error.type
-    this.code = error.code
-    this.param = error.param
-    this.docUrl = error.doc_url
-    this.statusCode = statusCode
-  }
-}
+const DEFAULT_RETRY_BASE_DELAY = 1000
+const DEFAULT_RETRY_MAX_DELAY = 10000
 
 export class VaultixClient {
   private readonly secretKey: string
   private readonly baseUrl: string
   private readonly timeout: number
   private readonly maxRetries: number
+  private readonly fetch: FetchFunction
+  private readonly fetchOptions: Record<string, unknown>
+  private readonly userAgent: string
+  private readonly middleware: Middleware[]
+  private readonly retryPolicy: RetryPolicy
+  private readonly onRetry?: (info: RetryInfo) => void
+  private readonly rateLimiter?: RateLimiter
+  private readonly logger: Logger
+  private readonly validateResponses?: 'strict' | 'lenient'
+  private readonly onValidationError?: (error: VaultixResponseValidationError) => void
+  private readonly validateParams: boolean
+  /** Whether CPF/CNPJ params are checked and normalized before sending */
+  readonly validateDocuments: boolean
+  /** Whether card data is checked before tokenizing */
+  readonly validateCards: boolean
 
   constructor(config: VaultixConfig) {
     if (!config.secretKey) {
@@ -47,6 +79,19 @@ export class VaultixClient {
     this.baseUrl = config.baseUrl || DEFAULT_BASE_URL
     this.timeout = config.timeout || DEFAULT_TIMEOUT
     this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES
+    this.fetch = config.fetch ?? ((url, init) => fetch(url, init))
+    this.fetchOptions = config.fetchOptions ?? {}
+    this.userAgent = this.buildUserAgent(config.appInfo)
+    this.middleware = [...(config.middleware ?? [])]
+    this.retryPolicy = config.retry ?? {}
+    this.onRetry = config.onRetry
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined
+    this.logger = createLogger(config.logger, config.logLevel, config.loggerStyle)
+    this.validateResponses = config.validateResponses
+    this.onValidationError = config.onValidationError
+    this.validateParams = config.validateParams ?? false
+    this.validateDocuments = config.validateDocuments ?? false
+    this.validateCards = config.validateCards ?? false
   }
 
   /**
@@ -56,17 +101,33 @@ export class VaultixClient {
     return this.secretKey.startsWith('sk_test_')
   }
 
+  /**
+   * Current state of the client-side rate limiter, if enabled
+   */
+  get rateLimiterStats(): RateLimiterStats | undefined {
+    return this.rateLimiter?.stats
+  }
+
   /**
    * Make a request to the Vaultix API
    */
   async request<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE',
+    method: HttpMethod,
     path: string,
     data?: any,
-    retryCount = 0
-  ): Promise<T> {
+    options: RequestOptions = {}
+  ): Promise<VaultixResponse<T>> {
+    if (this.validateParams) {
+      this.checkParams(method, path, data)
+    }
+
     const url = new URL(path, this.baseUrl)
 
+    // Generate the idempotency key once so every retry reuses it
+    if (method !== 'GET' && !options.idempotencyKey) {
+      options = { ...options, idempotencyKey: randomUUID() }
+    }
+
     // Add query params for GET requests
     if (method === 'GET' && data) {
       Object.entries(data).forEach(([key, value]) => {
@@ -76,112 +137,441 @@ export class VaultixClient {
       })
     }
 
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout)
+    const timeout = options.timeout ?? this.timeout
+    const maxRetries = options.maxRetries ?? this.maxRetries
+    const send = composeMiddleware(this.middleware, req => this.send(req, timeout, options.signal))
+    const startedAt = Date.now()
 
-    try {
-      const response = await fetch(url.toString(), {
+    for (let attempt = 1; ; attempt++) {
+      if (options.signal?.aborted) {
+        throw this.abortedError(attempt)
+      }
+
+      const request: MiddlewareRequest = {
         method,
+        url: url.toString(),
+        path,
         headers: {
           'Authorization': `Bearer ${this.secretKey}`,
           'Content-Type': 'application/json',
-          'User-Agent': '@vaultix/sdk/1.0.0',
+          'User-Agent': this.userAgent,
+          ...options.headers,
+          ...(options.account && { 'Vaultix-Account': options.account }),
+          ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey }),
         },
-        body: method !== 'GET' && data ? JSON.stringify(data) : undefined,
-        signal: controller.signal,
-      })
+        body: method !== 'GET' && data ? data : undefined,
+        attempt,
+      }
 
-      clearTimeout(timeoutId)
+      let error: VaultixAPIError
+      let release: (() => void) | undefined
+
+      try {
+        release = await this.acquireSlot(options.signal, attempt)
+
+        const response = await send(request)
+        this.rateLimiter?.update(response.status, response.headers)
+
+        const metadata = { requestId: response.headers['x-request-id'], headers: response.headers, attempts: attempt }
 
-      const json: any = await response.json()
+        if (response.status >= 200 && response.status < 300) {
+          if (response.body === undefined) {
+            throw new VaultixAPIError({
+              type: 'api_error',
+              code: 'invalid_response',
+              message: 'The API returned a response that is not valid JSON',
+            }, response.status, metadata)
+          }
 
-      if (!response.ok) {
-        // Check if we should retry
-        if (this.shouldRetry(response.status, retryCount)) {
-          const delay = this.getRetryDelay(retryCount)
-          await this.sleep(delay)
-          return this.request<T>(method, path, data, retryCount + 1)
+          if (this.validateResponses) {
+            this.validateResponse(method, path, response.body, response.status, metadata)
+          }
+
+          this.logger.info('Vaultix request completed', {
+            method,
+            path,
+            status: response.status,
+            requestId: metadata.requestId,
+            elapsedMs: Date.now() - startedAt,
+            attempts: attempt,
+          })
+
+          return this.withResponse<T>(response.body, {
+            status: response.status,
+            headers: response.headers,
+            requestId: metadata.requestId,
+            elapsedMs: Date.now() - startedAt,
+            attempts: attempt,
+          })
         }
 
-        throw new VaultixAPIError(json.error || {
+        error = VaultixAPIError.generate(response.body?.error || {
           type: 'api_error',
           code: 'unknown_error',
-          message: 'An unknown error occurred',
-        }, response.status)
+          message: `Request failed with status ${response.status}`,
+        }, response.status, metadata)
+      } catch (thrown) {
+        if (!(thrown instanceof VaultixConnectionError)) {
+          this.logFailure(method, path, thrown, startedAt)
+          throw thrown
+        }
+
+        error = thrown
+      } finally {
+        release?.()
       }
 
-      return json as T
-    } catch (error) {
-      clearTimeout(timeoutId)
+      const context: RetryContext = {
+        method,
+        path,
+        attempt,
+        error,
+        idempotencyKey: options.idempotencyKey,
+        retryable: this.isRetryable(method, error, options.idempotencyKey),
+      }
+
+      const delay = attempt <= maxRetries ? this.getRetryDelay(context, startedAt) : null
 
-      if (error instanceof VaultixAPIError) {
+      if (delay === null) {
+        this.logFailure(method, path, error, startedAt)
         throw error
       }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new VaultixAPIError({
-          type: 'api_error',
-          code: 'timeout',
-          message: `Request timed out after ${this.timeout}ms`,
-        }, 408)
+      this.logger.warn('Retrying Vaultix request', {
+        method,
+        path,
+        attempt,
+        delay,
+        status: error.statusCode,
+        code: error.code,
+        requestId: error.requestId,
+      })
+
+      this.onRetry?.({ ...context, delay })
+
+      try {
+        await this.sleep(delay, options.signal)
+      } catch (reason) {
+        throw this.abortedError(attempt, reason)
       }
+    }
+  }
+
+  /**
+   * Register a middleware that wraps every HTTP attempt
+   *
+   * Middleware run in registration order; each receives the outgoing request
+   * and a `next` function that performs it.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware)
+    return this
+  }
+
+  /**
+   * Wait for the rate limiter, if enabled
+   */
+  private async acquireSlot(signal: AbortSignal | undefined, attempt: number): Promise<(() => void) | undefined> {
+    if (!this.rateLimiter) return undefined
 
-      // Network error - retry if possible
-      if (retryCount < this.maxRetries) {
-        const delay = this.getRetryDelay(retryCount)
-        await this.sleep(delay)
-        return this.request<T>(method, path, data, retryCount + 1)
+    try {
+      return await this.rateLimiter.acquire(signal)
+    } catch (error) {
+      throw this.abortedError(attempt, error)
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt
+   */
+  private async send(request: MiddlewareRequest, timeout: number, signal?: AbortSignal): Promise<MiddlewareResponse> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeout)
+    const onAbort = () => controller.abort()
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    this.logger.debug('Vaultix request', {
+      method: request.method,
+      url: request.url,
+      attempt: request.attempt,
+      headers: redactHeaders(request.headers),
+      body: redactBody(request.body),
+    })
+
+    try {
+      const response = await this.fetch(request.url, {
+        ...this.fetchOptions,
+        method: request.method,
+        headers: request.headers,
+        body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      })
+
+      const result: MiddlewareResponse = {
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: this.parseBody(await response.text()),
       }
 
-      throw new VaultixAPIError({
-        type: 'api_error',
-        code: 'network_error',
-        message: error instanceof Error ? error.message : 'Network error',
-      }, 0)
+      this.logger.debug('Vaultix response', {
+        method: request.method,
+        url: request.url,
+        attempt: request.attempt,
+        status: result.status,
+        requestId: result.headers['x-request-id'],
+        body: redactBody(result.body),
+      })
+
+      return result
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.abortedError(request.attempt, error)
+      }
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new VaultixTimeoutError(timeout, { attempts: request.attempt, cause: error })
+      }
+
+      throw new VaultixConnectionError(
+        error instanceof Error ? error.message : 'Network error',
+        { attempts: request.attempt, cause: error }
+      )
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', onAbort)
     }
   }
 
   /**
    * GET request helper
    */
-  get<T>(path: string, params?: any): Promise<T> {
-    return this.request<T>('GET', path, params)
+  get<T>(path: string, params?: any, options?: RequestOptions): Promise<VaultixResponse<T>> {
+    return this.request<T>('GET', path, params, options)
+  }
+
+  /**
+   * Paginated GET request helper
+   */
+  getList<T extends { id: string }>(path: string, params?: any, options?: RequestOptions): PagePromise<T> {
+    return new PagePromise<T>(pageParams => this.get<ListResponse<T>>(path, pageParams, options), params)
   }
 
   /**
    * POST request helper
    */
-  post<T>(path: string, data?: any): Promise<T> {
-    return this.request<T>('POST', path, data)
+  post<T>(path: string, data?: any, options?: RequestOptions): Promise<VaultixResponse<T>> {
+    return this.request<T>('POST', path, data, options)
   }
 
   /**
    * PUT request helper
    */
-  put<T>(path: string, data?: any): Promise<T> {
-    return this.request<T>('PUT', path, data)
+  put<T>(path: string, data?: any, options?: RequestOptions): Promise<VaultixResponse<T>> {
+    return this.request<T>('PUT', path, data, options)
   }
 
   /**
    * DELETE request helper
    */
-  delete<T>(path: string): Promise<T> {
-    return this.request<T>('DELETE', path)
+  delete<T>(path: string, options?: RequestOptions): Promise<VaultixResponse<T>> {
+    return this.request<T>('DELETE', path, undefined, options)
   }
 
-  private shouldRetry(statusCode: number, retryCount: number): boolean {
-    if (retryCount >= this.maxRetries) return false
+  /**
+   * Default retry decision: rate limits, server errors and network failures,
+   * but POSTs only when they carry an idempotency key
+   */
+  private isRetryable(method: HttpMethod, error: VaultixAPIError, idempotencyKey?: string): boolean {
+    if (method === 'POST' && !idempotencyKey) return false
+    if (error instanceof VaultixTimeoutError) return false
+    if (error instanceof VaultixConnectionError) return true
 
-    // Retry on server errors and rate limits
+    const statusCode = error.statusCode ?? 0
     return statusCode >= 500 || statusCode === 429
   }
 
-  private getRetryDelay(retryCount: number): number {
-    // Exponential backoff: 1s, 2s, 4s...
-    return Math.min(1000 * Math.pow(2, retryCount), 10000)
+  /**
+   * Delay before the next attempt, or null if the request should not be retried
+   */
+  private getRetryDelay(context: RetryContext, startedAt: number): number | null {
+    const policy = this.retryPolicy
+    const shouldRetry = policy.shouldRetry ? policy.shouldRetry(context) : context.retryable
+
+    if (!shouldRetry) return null
+
+    const baseDelay = policy.baseDelay ?? DEFAULT_RETRY_BASE_DELAY
+    const maxDelay = policy.maxDelay ?? DEFAULT_RETRY_MAX_DELAY
+
+    // Exponential backoff: 1s, 2s, 4s... randomized with full jitter by default
+    const backoff = Math.min(baseDelay * Math.pow(2, context.attempt - 1), maxDelay)
+    let delay = policy.jitter === 'none' ? backoff : Math.random() * backoff
+
+    const retryAfter = policy.respectRetryAfter === false
+      ? undefined
+      : this.parseRetryAfter(context.error.headers['retry-after'])
+
+    if (retryAfter !== undefined) {
+      // Never retry before the server allows it; give up and surface the
+      // error (with its `retryAfter`) if the wait is longer than we accept
+      if (retryAfter > maxDelay) return null
+      delay = retryAfter
+    }
+
+    if (policy.maxElapsedTime !== undefined && Date.now() - startedAt + delay > policy.maxElapsedTime) {
+      return null
+    }
+
+    return Math.round(delay)
+  }
+
+  /**
+   * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+   */
+  private parseRetryAfter(value?: string): number | undefined {
+    if (!value) return undefined
+
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+    const date = Date.parse(value)
+    if (Number.isFinite(date)) return Math.max(0, date - Date.now())
+
+    return undefined
+  }
+
+  private logFailure(method: HttpMethod, path: string, error: unknown, startedAt: number): void {
+    const apiError = error instanceof VaultixAPIError ? error : undefined
+
+    this.logger.error('Vaultix request failed', {
+      method,
+      path,
+      status: apiError?.statusCode,
+      code: apiError?.code,
+      requestId: apiError?.requestId,
+      attempts: apiError?.attempts,
+      elapsedMs: Date.now() - startedAt,
+      message: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  /**
+   * Reject params the API would reject, without a round trip; the error
+   * names the first offending param, like the API's own
+   */
+  private checkParams(method: HttpMethod, path: string, data: unknown): void {
+    const schema = paramSchemaFor(method, path)
+    if (!schema) return
+
+    const [issue] = validate(schema, data ?? {})
+    if (!issue) return
+
+    throw new VaultixInvalidRequestError({
+      type: 'invalid_request_error',
+      code: issue.missing ? 'parameter_missing' : 'parameter_invalid',
+      message: issue.missing && issue.message.startsWith('is required')
+        ? `Missing required param: ${issue.path}`
+        : `Invalid param ${issue.path}: ${issue.message}`,
+      param: issue.path,
+    }, undefined, { attempts: 0 })
+  }
+
+  /**
+   * Check a response body against the schema of its endpoint; throws in
+   * strict mode, reports and carries on in lenient mode
+   */
+  private validateResponse(
+    method: HttpMethod,
+    path: string,
+    body: unknown,
+    status: number,
+    metadata: { requestId?: string; headers: Record<string, string>; attempts: number }
+  ): void {
+    const schema = responseSchemaFor(method, path)
+    if (!schema) return
+
+    const issues = validate(schema, body)
+    if (issues.length === 0) return
+
+    const error = new VaultixResponseValidationError(issues, `${method} ${path}`, status, metadata)
+
+    if (this.validateResponses === 'strict') {
+      throw error
+    }
+
+    if (this.onValidationError) {
+      this.onValidationError(error)
+    } else {
+      this.logger.warn('Vaultix response does not match the SDK types', {
+        method,
+        path,
+        requestId: metadata.requestId,
+        issues,
+      })
+    }
+  }
+
+  /**
+   * Attach response metadata to a parsed body as a non-enumerable property
+   */
+  private withResponse<T>(body: any, metadata: ResponseMetadata): VaultixResponse<T> {
+    if (body !== null && typeof body === 'object') {
+      Object.defineProperty(body, 'lastResponse', {
+        value: metadata,
+        enumerable: false,
+        configurable: true,
+      })
+    }
+
+    return body as VaultixResponse<T>
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  private buildUserAgent(appInfo?: AppInfo): string {
+    let userAgent = `@vaultix/sdk/${VERSION}`
+
+    if (appInfo?.name) {
+      userAgent += ` ${appInfo.name}${appInfo.version ? `/${appInfo.version}` : ''}`
+      if (appInfo.url) userAgent += ` (${appInfo.url})`
+    }
+
+    return userAgent
+  }
+
+  private parseBody(text: string): any {
+    if (!text) return undefined
+
+    try {
+      return JSON.parse(text)
+    } catch {
+      return undefined
+    }
+  }
+
+  private abortedError(attempts: number, cause?: unknown): VaultixAPIError {
+    return new VaultixAPIError({
+      type: 'api_error',
+      code: 'request_aborted',
+      message: 'Request was aborted',
+    }, undefined, { attempts, cause })
+  }
+
+  /**
+   * Wait between attempts; rejects with the abort reason if the signal fires
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason)
+
+      const onAbort = () => {
+        clearTimeout(timeoutId)
+        reject(signal!.reason)
+      }
+
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
   }
 }
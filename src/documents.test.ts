@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkDocumentParam,
+  detectDocumentType,
+  formatDocument,
+  isValidCnpj,
+  isValidCpf,
+  isValidDocument,
+  maskDocument,
+  normalizeDocument,
+  parseDocument,
+} from './documents.js'
+import { VaultixInvalidRequestError } from './errors.js'
+import { createMockVaultix } from './testing/mock-server.js'
+
+describe('CPF', () => {
+  it.each(['12345678909', '123.456.789-09', '529.982.247-25', '111.444.777-35'])('accepts %s', cpf => {
+    expect(isValidCpf(cpf)).toBe(true)
+  })
+
+  it.each(['12345678900', '123.456.789-19', '11111111111', '1234567890', '123456789091', 'ABC45678909'])('rejects %s', cpf => {
+    expect(isValidCpf(cpf)).toBe(false)
+  })
+})
+
+describe('CNPJ', () => {
+  it.each(['11222333000181', '11.222.333/0001-81', '12ABC34501DE35', '12.abc.345/01de-35'])('accepts %s', cnpj => {
+    expect(isValidCnpj(cnpj)).toBe(true)
+  })
+
+  it.each(['11222333000180', '11.222.333/0001-18', '00000000000000', '12ABC34501DE36', '12ABC34501DEA5'])('rejects %s', cnpj => {
+    expect(isValidCnpj(cnpj)).toBe(false)
+  })
+})
+
+describe('documents', () => {
+  it('normalizes punctuation, whitespace and case', () => {
+    expect(normalizeDocument(' 123.456.789-09 ')).toBe('12345678909')
+    expect(normalizeDocument('12.abc.345/01de-35')).toBe('12ABC34501DE35')
+  })
+
+  it('detects the type from the shape alone', () => {
+    expect(detectDocumentType('123.456.789-00')).toBe('cpf')
+    expect(detectDocumentType('12ABC34501DE35')).toBe('cnpj')
+    expect(detectDocumentType('12345')).toBeUndefined()
+    expect(isValidDocument('12345')).toBe(false)
+  })
+
+  it('formats and masks CPFs and CNPJs', () => {
+    expect(formatDocument('12345678909')).toBe('123.456.789-09')
+    expect(formatDocument('12ABC34501DE35')).toBe('12.ABC.345/01DE-35')
+    expect(formatDocument('12-34')).toBe('12-34')
+
+    expect(maskDocument('123.456.789-09')).toBe('***.456.789-**')
+    expect(maskDocument('11222333000181')).toBe('**.222.333/0001-**')
+    expect(maskDocument('12-34')).toBe('****')
+  })
+
+  it('parses valid documents only', () => {
+    expect(parseDocument('12.abc.345/01de-35')).toEqual({
+      type: 'cnpj',
+      number: '12ABC34501DE35',
+      formatted: '12.ABC.345/01DE-35',
+      masked: '**.ABC.345/01DE-**',
+    })
+    expect(parseDocument('123.456.789-00')).toBeUndefined()
+  })
+})
+
+describe('checkDocumentParam', () => {
+  it('returns a copy with the document normalized', () => {
+    const params = { amount: 5000, customer: { name: 'Maria', document: '123.456.789-09' } }
+
+    expect(checkDocumentParam(params, ['customer', 'document'])).toEqual({
+      amount: 5000,
+      customer: { name: 'Maria', document: '12345678909' },
+    })
+    expect(params.customer.document).toBe('123.456.789-09')
+  })
+
+  it('leaves params without the document alone', () => {
+    const params = { amount: 5000 }
+    expect(checkDocumentParam(params, ['customer', 'document'])).toBe(params)
+  })
+
+  it('throws the error the API would return', () => {
+    const check = () => checkDocumentParam({ destination: { holder_document: '11222333000180' } }, ['destination', 'holder_document'])
+
+    expect(check).toThrow(VaultixInvalidRequestError)
+    expect(check).toThrow('Invalid param destination[holder_document]: not a valid CPF or CNPJ')
+  })
+})
+
+describe('validateDocuments', () => {
+  it('sends normalized documents and rejects invalid ones before the request', async () => {
+    const { vaultix, server } = createMockVaultix({ config: { validateDocuments: true } })
+
+    const customer = await vaultix.customers.create({ name: 'Maria', email: 'maria@email.com', document: '123.456.789-09' })
+    expect(customer.document).toBe('12345678909')
+
+    await expect(vaultix.customers.update(customer.id, { document: '123.456.789-00' }))
+      .rejects.toMatchObject({ param: 'document', attempts: 0 })
+    expect(server.requests).toHaveLength(1)
+  })
+
+  it('is off by default', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const customer = await vaultix.customers.create({ name: 'Maria', email: 'maria@email.com', document: '123.456.789-00' })
+
+    expect(customer.document).toBe('123.456.789-00')
+  })
+})
@@ -0,0 +1,199 @@
+/**
+ * Vaultix Documents
+ *
+ * Validate, normalize, format and mask Brazilian taxpayer documents: CPF
+ * (individuals) and CNPJ (companies), including the alphanumeric CNPJ
+ */
+
+import { VaultixInvalidRequestError } from './errors.js'
+
+export type DocumentType = 'cpf' | 'cnpj'
+
+export interface ParsedDocument {
+  type: DocumentType
+  /** Without punctuation, e.g. `'12345678909'` or `'12ABC34501DE35'` */
+  number: string
+  /** For display, e.g. `'123.456.789-09'` or `'12.ABC.345/01DE-35'` */
+  formatted: string
+  /** Safe for logs and receipts, e.g. `'***.456.789-**'` */
+  masked: string
+}
+
+const CPF_PATTERN = /^\d{11}$/
+/** Alphanumeric CNPJ: 12 characters of `0-9A-Z`, then two numeric check digits */
+const CNPJ_PATTERN = /^[\dA-Z]{12}\d{2}$/
+
+const CNPJ_WEIGHTS = [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+
+/**
+ * Strip punctuation and whitespace and uppercase letters
+ *
+ * @example
+ * ```ts
+ * normalizeDocument('123.456.789-09')      // '12345678909'
+ * normalizeDocument('12.abc.345/01de-35')  // '12ABC34501DE35'
+ * ```
+ */
+export function normalizeDocument(value: string): string {
+  return value.replace(/[\s./-]/g, '').toUpperCase()
+}
+
+/**
+ * Whether a CPF has valid check digits (punctuation is ignored)
+ */
+export function isValidCpf(value: string): boolean {
+  const cpf = normalizeDocument(value)
+  if (!CPF_PATTERN.test(cpf) || /^(\d)\1+$/.test(cpf)) return false
+
+  const digits = [...cpf].map(Number)
+  return cpfCheckDigit(digits.slice(0, 9)) === digits[9] && cpfCheckDigit(digits.slice(0, 10)) === digits[10]
+}
+
+/**
+ * Whether a CNPJ has valid check digits (punctuation is ignored)
+ *
+ * Accepts both numeric CNPJs and the alphanumeric format issued from July
+ * 2026, where the first twelve characters may be letters.
+ */
+export function isValidCnpj(value: string): boolean {
+  const cnpj = normalizeDocument(value)
+  if (!CNPJ_PATTERN.test(cnpj) || /^(.)\1+$/.test(cnpj)) return false
+
+  const values = [...cnpj].map(char => char.charCodeAt(0) - 48)
+  return cnpjCheckDigit(values.slice(0, 12)) === values[12] && cnpjCheckDigit(values.slice(0, 13)) === values[13]
+}
+
+/**
+ * Whether a value has the shape of a CPF or CNPJ, without checking its
+ * check digits
+ */
+export function detectDocumentType(value: string): DocumentType | undefined {
+  const document = normalizeDocument(value)
+  if (CPF_PATTERN.test(document)) return 'cpf'
+  if (CNPJ_PATTERN.test(document)) return 'cnpj'
+  return undefined
+}
+
+/**
+ * Whether a value is a valid CPF or CNPJ
+ */
+export function isValidDocument(value: string): boolean {
+  const type = detectDocumentType(value)
+  return type === 'cpf' ? isValidCpf(value) : type === 'cnpj' ? isValidCnpj(value) : false
+}
+
+/**
+ * Parse a CPF or CNPJ, returning undefined if it is not valid
+ *
+ * @example
+ * ```ts
+ * const document = parseDocument(form.document)
+ * if (!document) throw new Error('CPF ou CNPJ inválido')
+ *
+ * document.type      // 'cpf'
+ * document.number    // '12345678909'
+ * document.formatted // '123.456.789-09'
+ * document.masked    // '***.456.789-**'
+ * ```
+ */
+export function parseDocument(value: string): ParsedDocument | undefined {
+  if (!isValidDocument(value)) return undefined
+
+  const number = normalizeDocument(value)
+
+  return {
+    type: detectDocumentType(number)!,
+    number,
+    formatted: formatDocument(number),
+    masked: maskDocument(number),
+  }
+}
+
+/**
+ * Format a CPF (`000.000.000-00`) or CNPJ (`00.000.000/0000-00`) for
+ * display; values of any other shape are returned unchanged
+ */
+export function formatDocument(value: string): string {
+  const document = normalizeDocument(value)
+
+  switch (detectDocumentType(document)) {
+    case 'cpf':
+      return document.replace(/^(.{3})(.{3})(.{3})(.{2})$/, '$1.$2.$3-$4')
+    case 'cnpj':
+      return document.replace(/^(.{2})(.{3})(.{3})(.{4})(.{2})$/, '$1.$2.$3/$4-$5')
+    default:
+      return value
+  }
+}
+
+/**
+ * Hide all but the middle of a document, the way Brazilian receipts show
+ * them: `***.456.789-**`, `**.ABC.345/01DE-**`
+ *
+ * Values of any other shape are masked entirely.
+ */
+export function maskDocument(value: string): string {
+  const document = normalizeDocument(value)
+
+  switch (detectDocumentType(document)) {
+    case 'cpf':
+      return `***.${document.slice(3, 6)}.${document.slice(6, 9)}-**`
+    case 'cnpj':
+      return `**.${document.slice(2, 5)}.${document.slice(5, 8)}/${document.slice(8, 12)}-**`
+    default:
+      return '*'.repeat(document.length)
+  }
+}
+
+/**
+ * Normalize and validate a document inside request params, e.g.
+ * `['customer', 'document']`, throwing the error the API would return
+ *
+ * Returns a copy of the params with the document normalized; params
+ * without the document are returned as they are. Used by the resources
+ * when `validateDocuments` is enabled.
+ */
+export function checkDocumentParam<T>(params: T, path: string[]): T {
+  const parents = path.slice(0, -1)
+  const key = path[path.length - 1]
+
+  let parent: any = params
+  for (const segment of parents) parent = parent?.[segment]
+
+  const value = parent?.[key]
+  if (typeof value !== 'string') return params
+
+  const param = path.map((segment, i) => (i === 0 ? segment : `[${segment}]`)).join('')
+
+  if (!isValidDocument(value)) {
+    throw new VaultixInvalidRequestError({
+      type: 'invalid_request_error',
+      code: 'parameter_invalid',
+      message: `Invalid param ${param}: not a valid CPF or CNPJ`,
+      param,
+    }, undefined, { attempts: 0 })
+  }
+
+  return setPath(params, path, normalizeDocument(value))
+}
+
+function setPath<T>(target: T, path: string[], value: unknown): T {
+  const [key, ...rest] = path
+  const copy: any = { ...target }
+  copy[key] = rest.length === 0 ? value : setPath(copy[key], rest, value)
+  return copy
+}
+
+function cpfCheckDigit(digits: number[]): number {
+  const weight = digits.length + 1
+  const sum = digits.reduce((total, digit, i) => total + digit * (weight - i), 0)
+  const remainder = sum % 11
+  return remainder < 2 ? 0 : 11 - remainder
+}
+
+function cnpjCheckDigit(values: number[]): number {
+  const weights = CNPJ_WEIGHTS.slice(CNPJ_WEIGHTS.length - values.length)
+  const sum = values.reduce((total, value, i) => total + value * weights[i], 0)
+  const remainder = sum % 11
+  return remainder < 2 ? 0 : 11 - remainder
+}
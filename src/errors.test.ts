@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { VaultixClient } from './client.js'
+import {
+  VaultixAPIError,
+  VaultixAuthenticationError,
+  VaultixCardError,
+  VaultixConnectionError,
+  VaultixIdempotencyError,
+  VaultixInvalidRequestError,
+  VaultixRateLimitError,
+} from './errors.js'
+import type { VaultixError } from './types.js'
+
+function apiError(type: VaultixError['type'], code = 'some_code'): VaultixError {
+  return { type, code, message: 'Something went wrong' }
+}
+
+describe('VaultixAPIError.generate', () => {
+  it.each([
+    [apiError('card_error', 'card_declined'), 402, VaultixCardError],
+    [apiError('idempotency_error'), 409, VaultixIdempotencyError],
+    [apiError('invalid_request_error', 'idempotency_key_in_use'), 409, VaultixIdempotencyError],
+    [apiError('authentication_error'), 401, VaultixAuthenticationError],
+    [apiError('api_error'), 401, VaultixAuthenticationError],
+    [apiError('rate_limit_error'), 429, VaultixRateLimitError],
+    [apiError('api_error'), 429, VaultixRateLimitError],
+    [apiError('invalid_request_error', 'parameter_invalid'), 400, VaultixInvalidRequestError],
+    [apiError('api_error'), 500, VaultixAPIError],
+  ])('maps %o with status %i to the most specific class', (error, status, ErrorClass) => {
+    const generated = VaultixAPIError.generate(error, status)
+
+    expect(generated).toBeInstanceOf(ErrorClass)
+    expect(generated).toBeInstanceOf(VaultixAPIError)
+    expect(generated.name).toBe(ErrorClass.name)
+  })
+
+  it('copies the API error fields and the request metadata', () => {
+    const error = VaultixAPIError.generate(
+      { type: 'invalid_request_error', code: 'parameter_invalid', message: 'Invalid amount', param: 'amount', doc_url: 'https://docs' },
+      400,
+      { requestId: 'req_1', headers: { 'x-request-id': 'req_1' }, attempts: 2 }
+    )
+
+    expect(error).toMatchObject({
+      message: 'Invalid amount',
+      type: 'invalid_request_error',
+      code: 'parameter_invalid',
+      param: 'amount',
+      docUrl: 'https://docs',
+      statusCode: 400,
+      requestId: 'req_1',
+      attempts: 2,
+    })
+  })
+
+  it('reads retryAfter from the Retry-After header of rate limit errors', () => {
+    const error = VaultixAPIError.generate(apiError('rate_limit_error'), 429, { headers: { 'retry-after': '30' } })
+
+    expect((error as VaultixRateLimitError).retryAfter).toBe(30)
+  })
+})
+
+describe('errors thrown by the client', () => {
+  it('carry the request ID and the number of attempts', async () => {
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      fetch: async () => Response.json(
+        { error: { type: 'card_error', code: 'card_declined', message: 'Your card was declined' } },
+        { status: 402, headers: { 'x-request-id': 'req_abc' } }
+      ),
+    })
+
+    const error = await client.post('/v1/charges', { amount: 5000 }).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixCardError)
+    expect(error.requestId).toBe('req_abc')
+    expect(error.statusCode).toBe(402)
+    expect(error.attempts).toBe(1)
+  })
+
+  it('wrap network failures in a VaultixConnectionError with the cause', async () => {
+    const cause = new TypeError('fetch failed')
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      maxRetries: 2,
+      retry: { baseDelay: 1 },
+      fetch: async () => {
+        throw cause
+      },
+    })
+
+    const error = await client.get('/v1/balance').catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixConnectionError)
+    expect(error.code).toBe('network_error')
+    expect(error.attempts).toBe(3)
+    expect(error.cause).toBe(cause)
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * Vaultix Errors
+ *
+ * Error classes thrown by the SDK
+ */
+
+import type { SchemaIssue } from './schema.js'
+import type { VaultixError } from './types.js'
+
+export interface VaultixErrorMetadata {
+  /** Request ID returned by the server (`x-request-id`) */
+  requestId?: string
+  /** Response headers, lowercased */
+  headers?: Record<string, string>
+  /** Number of attempts made, including retries */
+  attempts?: number
+  /** Underlying error, if any */
+  cause?: unknown
+}
+
+export class VaultixAPIError extends Error {
+  readonly type: VaultixError['type']
+  readonly code: string
+  readonly param?: string
+  readonly docUrl?: string
+  /** HTTP status code (undefined when no response was received) */
+  readonly statusCode?: number
+  readonly requestId?: string
+  readonly headers: Record<string, string>
+  readonly attempts: number
+
+  constructor(error: VaultixError, statusCode?: number, metadata: VaultixErrorMetadata = {}) {
+    super(error.message, metadata.cause !== undefined ? { cause: metadata.cause } : undefined)
+    this.name = 'VaultixAPIError'
+    this.type = error.type
+    this.code = error.code
+    this.param = error.param
+    this.docUrl = error.doc_url
+    this.statusCode = statusCode
+    this.requestId = metadata.requestId
+    this.headers = metadata.headers ?? {}
+    this.attempts = metadata.attempts ?? 1
+  }
+
+  /**
+   * Build the most specific error class for an API error response
+   */
+  static generate(error: VaultixError, statusCode: number, metadata: VaultixErrorMetadata = {}): VaultixAPIError {
+    if (error.type === 'card_error') {
+      return new VaultixCardError(error, statusCode, metadata)
+    }
+
+    if (error.type === 'idempotency_error' || error.code?.startsWith('idempotency_')) {
+      return new VaultixIdempotencyError(error, statusCode, metadata)
+    }
+
+    if (error.type === 'authentication_error' || statusCode === 401) {
+      return new VaultixAuthenticationError(error, statusCode, metadata)
+    }
+
+    if (error.type === 'rate_limit_error' || statusCode === 429) {
+      return new VaultixRateLimitError(error, statusCode, metadata)
+    }
+
+    if (error.type === 'invalid_request_error') {
+      return new VaultixInvalidRequestError(error, statusCode, metadata)
+    }
+
+    return new VaultixAPIError(error, statusCode, metadata)
+  }
+}
+
+/** Invalid, expired or revoked API key */
+export class VaultixAuthenticationError extends VaultixAPIError {
+  constructor(error: VaultixError, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    super(error, statusCode, metadata)
+    this.name = 'VaultixAuthenticationError'
+  }
+}
+
+/** Invalid parameters; `param` names the offending field */
+export class VaultixInvalidRequestError extends VaultixAPIError {
+  constructor(error: VaultixError, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    super(error, statusCode, metadata)
+    this.name = 'VaultixInvalidRequestError'
+  }
+}
+
+/** Too many requests; `retryAfter` is the delay suggested by the server, in seconds */
+export class VaultixRateLimitError extends VaultixAPIError {
+  readonly retryAfter?: number
+
+  constructor(error: VaultixError, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    super(error, statusCode, metadata)
+    this.name = 'VaultixRateLimitError'
+
+    const retryAfter = Number(this.headers['retry-after'])
+    this.retryAfter = Number.isFinite(retryAfter) ? retryAfter : undefined
+  }
+}
+
+/** The card was declined or could not be charged */
+export class VaultixCardError extends VaultixAPIError {
+  constructor(error: VaultixError, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    super(error, statusCode, metadata)
+    this.name = 'VaultixCardError'
+  }
+}
+
+/** The idempotency key was reused with different parameters or is still in use */
+export class VaultixIdempotencyError extends VaultixAPIError {
+  constructor(error: VaultixError, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    super(error, statusCode, metadata)
+    this.name = 'VaultixIdempotencyError'
+  }
+}
+
+/** The request never received a response (DNS, TLS, connection reset, ...) */
+export class VaultixConnectionError extends VaultixAPIError {
+  constructor(message: string, metadata?: VaultixErrorMetadata, code = 'network_error') {
+    super({ type: 'api_error', code, message }, undefined, metadata)
+    this.name = 'VaultixConnectionError'
+  }
+}
+
+/** The request did not complete within the configured timeout */
+export class VaultixTimeoutError extends VaultixConnectionError {
+  constructor(timeout: number, metadata?: VaultixErrorMetadata) {
+    super(`Request timed out after ${timeout}ms`, metadata, 'timeout')
+    this.name = 'VaultixTimeoutError'
+  }
+}
+
+/** A response did not match the type declared by the SDK (see `validateResponses`) */
+export class VaultixResponseValidationError extends VaultixAPIError {
+  /** Every mismatch found, e.g. `{ path: 'pix[qr_code]', message: 'is required (expected string)' }` */
+  readonly issues: SchemaIssue[]
+  /** Endpoint that returned the response, e.g. `GET /v1/charges/ch_123` */
+  readonly endpoint: string
+
+  constructor(issues: SchemaIssue[], endpoint: string, statusCode?: number, metadata?: VaultixErrorMetadata) {
+    const [first] = issues
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : ''
+
+    super({
+      type: 'api_error',
+      code: 'invalid_response',
+      message: `Unexpected response from ${endpoint}: ${first.path} ${first.message}${more}`,
+    }, statusCode, metadata)
+    this.name = 'VaultixResponseValidationError'
+    this.issues = issues
+    this.endpoint = endpoint
+  }
+}
+
+/** A webhook signature could not be verified */
+export class VaultixSignatureVerificationError extends Error {
+  readonly header?: string
+  readonly payload?: string
+
+  constructor(message: string, header?: string, payload?: string) {
+    super(message)
+    this.name = 'VaultixSignatureVerificationError'
+    this.header = header
+    this.payload = payload
+  }
+}
+
+/** A PIX BR Code could not be decoded or built */
+export class VaultixPixCodeError extends Error {
+  /** The code that failed to decode, if any */
+  readonly payload?: string
+
+  constructor(message: string, payload?: string) {
+    super(message)
+    this.name = 'VaultixPixCodeError'
+    this.payload = payload
+  }
+}
+
+/** A boleto barcode or digitable line is malformed or has a wrong check digit */
+export class VaultixBoletoError extends Error {
+  /** The barcode or digitable line that failed, if any */
+  readonly input?: string
+
+  constructor(message: string, input?: string) {
+    super(message)
+    this.name = 'VaultixBoletoError'
+    this.input = input
+  }
+}
@@ -29,17 +29,147 @@
 
 // Main class
 export { Vaultix, default } from './vaultix.js'
+export { VERSION } from './client.js'
 
-// Error class
-export { VaultixAPIError } from './client.js'
+// Error classes
+export {
+  VaultixAPIError,
+  VaultixAuthenticationError,
+  VaultixInvalidRequestError,
+  VaultixRateLimitError,
+  VaultixCardError,
+  VaultixIdempotencyError,
+  VaultixConnectionError,
+  VaultixTimeoutError,
+  VaultixResponseValidationError,
+  VaultixSignatureVerificationError,
+  VaultixPixCodeError,
+  VaultixBoletoError,
+} from './errors.js'
+export type { VaultixErrorMetadata } from './errors.js'
+
+// Middleware
+export type {
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+} from './middleware.js'
+
+// Schemas
+export { s, validate } from './schema.js'
+export type { Schema, SchemaIssue } from './schema.js'
+
+// Money
+export { Money, formatMoney } from './money.js'
+export type { MoneyFormatOptions } from './money.js'
+
+// Documents
+export {
+  detectDocumentType,
+  formatDocument,
+  isValidCnpj,
+  isValidCpf,
+  isValidDocument,
+  maskDocument,
+  normalizeDocument,
+  parseDocument,
+} from './documents.js'
+export type { DocumentType, ParsedDocument } from './documents.js'
+
+// PIX
+export { createDynamicPixCode, createPixCode, isValidPixCode, parsePixCode, pixCrc16 } from './pix.js'
+export type { PixCode, PixCodeCreateParams } from './pix.js'
+
+// Boletos
+export {
+  boletoBarcodeToDigitableLine,
+  boletoDigitableLineToBarcode,
+  boletoDueDate,
+  boletoDueDateFactor,
+  createBoletoBarcode,
+  formatBoletoDigitableLine,
+  isValidBoleto,
+  parseBoleto,
+  renderBoletoBarcodeSvg,
+} from './boleto.js'
+export type { Boleto, BoletoBarcodeCreateParams, BoletoSvgOptions } from './boleto.js'
+
+// QR codes
+export { QrCode, renderQrCode, renderQrPng, renderQrSvg, renderQrTerminal } from './qr.js'
+export type {
+  QrCodeOptions,
+  QrErrorCorrectionLevel,
+  QrImage,
+  QrImageFormat,
+  QrRenderOptions,
+  QrTerminalOptions,
+} from './qr.js'
+
+// Cards
+export {
+  detectCardBrand,
+  formatCardNumber,
+  luhnCheck,
+  maskCardNumber,
+  normalizeCardNumber,
+  validateCard,
+  validateCardCvc,
+  validateCardExpiry,
+  validateCardNumber,
+} from './cards.js'
+export type { CardBrand, CardValidationIssue } from './cards.js'
+
+// Pagination
+export { Page, PagePromise } from './pagination.js'
+export type { AutoPaginationOptions } from './pagination.js'
+
+// Webhooks
+export { Webhooks } from './resources/webhooks.js'
+export {
+  handleWebhook,
+  createNodeWebhookHandler,
+  createExpressWebhookHandler,
+  fastifyWebhookPlugin,
+  createFetchWebhookHandler,
+} from './webhook-handlers.js'
+export type { WebhookHandlerOptions, WebhookHandlerResult } from './webhook-handlers.js'
+export {
+  WebhookDispatcher,
+  MemoryWebhookEventStore,
+  FileWebhookEventStore,
+  webhookCallbackName,
+} from './webhook-dispatcher.js'
+export type {
+  WebhookDispatcherOptions,
+  WebhookDispatchResult,
+  WebhookEventStore,
+  WebhookEventHandler,
+  WebhookEventCallbacks,
+  WebhookCallbackName,
+} from './webhook-dispatcher.js'
 
 // Types
 export type {
   // Config
   VaultixConfig,
+  FetchFunction,
+  AppInfo,
+  RetryPolicy,
+  RetryContext,
+  RetryInfo,
+  RateLimitOptions,
+  RateLimiterStats,
+  LogLevel,
+  LoggerStyle,
+  VaultixLogger,
   VaultixError,
 
   // Common
+  RequestOptions,
+  ResponseMetadata,
+  VaultixResponse,
+  HttpMethod,
   ListParams,
   ListResponse,
   Currency,
@@ -85,4 +215,11 @@ export type {
   SandboxChargePayParams,
   SandboxChargeFailParams,
   SandboxWebhookTestParams,
+
+  // Webhook Events
+  VaultixEvent,
+  VaultixEventBase,
+  VaultixEventOf,
+  VaultixEventType,
+  VaultixEventObjectMap,
 } from './types.js'
@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest'
+import { VaultixClient } from './client.js'
+import { createLogger } from './logger.js'
+import type { VaultixLogger } from './types.js'
+
+function fakeLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  } satisfies VaultixLogger
+}
+
+describe('createLogger', () => {
+  it('drops messages below the level', () => {
+    const sink = fakeLogger()
+    const logger = createLogger(sink, 'warn')
+
+    logger.debug('debug')
+    logger.info('info')
+    logger.warn('warn', { attempt: 1 })
+    logger.error('error')
+
+    expect(sink.debug).not.toHaveBeenCalled()
+    expect(sink.info).not.toHaveBeenCalled()
+    expect(sink.warn).toHaveBeenCalledWith('warn', { attempt: 1 })
+    expect(sink.error).toHaveBeenCalledWith('error', undefined)
+  })
+
+  it('logs nothing when silent or without a logger', () => {
+    const sink = fakeLogger()
+
+    createLogger(sink, 'silent').error('error')
+    expect(() => createLogger(undefined, 'debug').error('error')).not.toThrow()
+    expect(sink.error).not.toHaveBeenCalled()
+  })
+
+  it('skips levels the logger does not implement', () => {
+    const sink = { info: vi.fn() } as unknown as VaultixLogger
+    expect(() => createLogger(sink, 'debug').debug('debug')).not.toThrow()
+  })
+
+  it('passes the metadata first to pino-style loggers', () => {
+    const lines: Array<Record<string, unknown>> = []
+    // Shaped like pino: `(obj, msg)`, and `this` must be the logger
+    const pinoLike = {
+      bindings: { name: 'app' },
+      info(this: { bindings: Record<string, unknown> }, obj: Record<string, unknown>, msg?: string) {
+        lines.push({ ...this.bindings, ...obj, msg })
+      },
+    }
+
+    const logger = createLogger(pinoLike as unknown as VaultixLogger, 'info', 'pino')
+    logger.info('Vaultix request completed', { status: 200 })
+    logger.info('no meta')
+
+    expect(lines).toEqual([
+      { name: 'app', status: 200, msg: 'Vaultix request completed' },
+      { name: 'app', msg: 'no meta' },
+    ])
+  })
+})
+
+describe('client logging', () => {
+  it('never logs secrets or card data', async () => {
+    const sink = fakeLogger()
+    const client = new VaultixClient({
+      secretKey: 'sk_test_supersecret',
+      logger: sink,
+      logLevel: 'debug',
+      fetch: async () => Response.json({ id: 'tok_1', card: { last4: '4242' } }),
+    })
+
+    await client.post('/v1/tokens', { card: { number: '4242424242424242', exp_month: 12, exp_year: 2030, cvc: '123' } })
+
+    const logged = JSON.stringify([...sink.debug.mock.calls, ...sink.info.mock.calls])
+    expect(logged).not.toContain('sk_test_supersecret')
+    expect(logged).not.toContain('4242424242424242')
+    expect(logged).not.toContain('"123"')
+    expect(logged).toContain('************4242')
+  })
+
+  it('logs completed requests with their status and attempts', async () => {
+    const sink = fakeLogger()
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logger: sink,
+      fetch: async () => Response.json({ object: 'balance' }, { headers: { 'x-request-id': 'req_1' } }),
+    })
+
+    await client.get('/v1/balance')
+
+    expect(sink.debug).not.toHaveBeenCalled()
+    expect(sink.info).toHaveBeenCalledWith('Vaultix request completed', expect.objectContaining({
+      method: 'GET',
+      path: '/v1/balance',
+      status: 200,
+      requestId: 'req_1',
+      attempts: 1,
+    }))
+  })
+
+  it('honors loggerStyle', async () => {
+    const sink = fakeLogger()
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logger: sink,
+      loggerStyle: 'pino',
+      fetch: async () => Response.json({ object: 'balance' }),
+    })
+
+    await client.get('/v1/balance')
+
+    expect(sink.info).toHaveBeenCalledWith(expect.objectContaining({ status: 200 }), 'Vaultix request completed')
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Vaultix Logger
+ *
+ * Level filtering around a user-supplied logger
+ */
+
+import type { LogLevel, LoggerStyle, VaultixLogger } from './types.js'
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+export type LogMethod = (message: string, meta?: Record<string, unknown>) => void
+
+export type Logger = Record<LogLevel, LogMethod>
+
+const noop: LogMethod = () => {}
+
+/**
+ * Wrap a logger so that messages below `level` are dropped, calling it with
+ * `(message, meta)` or, for the `pino` style, `(meta, message)`
+ */
+export function createLogger(
+  logger?: VaultixLogger,
+  level: LogLevel | 'silent' = 'info',
+  style: LoggerStyle = 'console'
+): Logger {
+  const threshold = LEVELS[level] ?? LEVELS.info
+
+  const method = (name: LogLevel): LogMethod => {
+    if (!logger || LEVELS[name] < threshold || typeof logger[name] !== 'function') {
+      return noop
+    }
+
+    if (style === 'pino') {
+      const log = logger[name] as unknown as (meta: Record<string, unknown>, message: string) => void
+      return (message, meta) => log.call(logger, meta ?? {}, message)
+    }
+
+    return (message, meta) => logger[name](message, meta)
+  }
+
+  return {
+    debug: method('debug'),
+    info: method('info'),
+    warn: method('warn'),
+    error: method('error'),
+  }
+}
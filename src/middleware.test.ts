@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { VaultixClient } from './client.js'
+import { composeMiddleware } from './middleware.js'
+import type { Middleware, MiddlewareRequest, MiddlewareResponse } from './middleware.js'
+
+const request: MiddlewareRequest = { method: 'GET', url: 'https://api.test/v1/balance', path: '/v1/balance', headers: {}, attempt: 1 }
+const ok: MiddlewareResponse = { status: 200, headers: {}, body: { object: 'balance' } }
+
+describe('composeMiddleware', () => {
+  it('runs the first registered middleware outermost', async () => {
+    const order: string[] = []
+    const tracing = (name: string): Middleware => async (req, next) => {
+      order.push(`${name}:before`)
+      const response = await next(req)
+      order.push(`${name}:after`)
+      return response
+    }
+
+    const send = composeMiddleware([tracing('a'), tracing('b')], async () => {
+      order.push('handler')
+      return ok
+    })
+
+    await send(request)
+
+    expect(order).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after'])
+  })
+
+  it('lets middleware short-circuit the handler', async () => {
+    let called = false
+    const send = composeMiddleware([async () => ({ status: 200, headers: {}, body: { cached: true } })], async () => {
+      called = true
+      return ok
+    })
+
+    expect((await send(request)).body).toEqual({ cached: true })
+    expect(called).toBe(false)
+  })
+
+  it('calls the handler directly without middleware', async () => {
+    expect(await composeMiddleware([], async () => ok)(request)).toBe(ok)
+  })
+})
+
+describe('client middleware', () => {
+  it('sees and alters every attempt, including retries', async () => {
+    const attempts: number[] = []
+    const headers: Array<Record<string, string>> = []
+    let calls = 0
+
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      retry: { baseDelay: 1 },
+      fetch: async (_url, init) => {
+        headers.push(init.headers as Record<string, string>)
+        return ++calls === 1
+          ? Response.json({ error: { type: 'api_error', code: 'server_error', message: 'Boom' } }, { status: 503 })
+          : Response.json({ object: 'balance' })
+      },
+      middleware: [
+        async (req, next) => {
+          attempts.push(req.attempt)
+          req.headers['X-Correlation-Id'] = 'corr_1'
+          return next(req)
+        },
+      ],
+    })
+
+    await client.get('/v1/balance')
+
+    expect(attempts).toEqual([1, 2])
+    expect(headers.map(h => h['X-Correlation-Id'])).toEqual(['corr_1', 'corr_1'])
+  })
+
+  it('can rewrite the response body', async () => {
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      fetch: async () => Response.json({ id: 'ch_1', amount: 5000 }),
+    })
+
+    client.use(async (req, next) => {
+      const response = await next(req)
+      return { ...response, body: { ...response.body, tagged: true } }
+    })
+
+    expect(await client.get('/v1/charges/ch_1')).toMatchObject({ id: 'ch_1', tagged: true })
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Vaultix Middleware
+ *
+ * Observe and alter every HTTP attempt made by the client
+ */
+
+import type { HttpMethod } from './types.js'
+
+export interface MiddlewareRequest {
+  method: HttpMethod
+  /** Full URL, including query parameters */
+  url: string
+  /** API path, e.g. `/v1/charges` */
+  path: string
+  headers: Record<string, string>
+  /** Request body before JSON serialization */
+  body?: any
+  /** Attempt number, starting at 1 and increasing on every retry */
+  attempt: number
+}
+
+export interface MiddlewareResponse {
+  status: number
+  /** Response headers, lowercased */
+  headers: Record<string, string>
+  /** Parsed JSON body (undefined if the body was empty or not JSON) */
+  body: any
+}
+
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<MiddlewareResponse>
+
+/**
+ * A function wrapping a single HTTP attempt
+ *
+ * Call `next` to continue down the chain, or return a response without
+ * calling it to short-circuit the request. Network failures surface as
+ * errors thrown by `next`.
+ *
+ * @example
+ * ```ts
+ * vaultix.use(async (request, next) => {
+ *   request.headers['X-Correlation-Id'] = getCorrelationId()
+ *
+ *   const start = Date.now()
+ *   try {
+ *     return await next(request)
+ *   } finally {
+ *     metrics.timing('vaultix.request', Date.now() - start, { path: request.path })
+ *   }
+ * })
+ * ```
+ */
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<MiddlewareResponse>
+
+/**
+ * Chain middleware around a handler, first registered runs outermost
+ */
+export function composeMiddleware(middleware: Middleware[], handler: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, fn) => request => fn(request, next),
+    handler
+  )
+}
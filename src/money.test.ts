@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { formatMoney, Money } from './money.js'
+
+const cents = (parts: Money[]) => parts.map(part => part.amount)
+
+describe('formatMoney', () => {
+  it.each([
+    [123456, 'BRL', 'R$ 1.234,56'],
+    [5, 'BRL', 'R$ 0,05'],
+    [0, 'BRL', 'R$ 0,00'],
+    [100000000, 'BRL', 'R$ 1.000.000,00'],
+    [-990, 'USD', '-US$ 9,90'],
+    [2550, 'EUR', '€ 25,50'],
+  ] as const)('formats %i %s as %s', (amount, currency, expected) => {
+    expect(formatMoney(amount, currency)).toBe(expected)
+  })
+
+  it('can omit the symbol and show the sign of credits', () => {
+    expect(formatMoney(5000, 'BRL', { symbol: false })).toBe('50,00')
+    expect(formatMoney(1000, 'BRL', { signDisplay: true })).toBe('+R$ 10,00')
+    expect(formatMoney(0, 'BRL', { signDisplay: true })).toBe('R$ 0,00')
+  })
+
+  it('rejects amounts that are not integer cents', () => {
+    expect(() => formatMoney(10.5)).toThrow(RangeError)
+  })
+})
+
+describe('Money', () => {
+  it.each([
+    ['1234.56', 123456],
+    ['1.234,56', 123456],
+    ['R$ 1.234,56', 123456],
+    ['0,5', 50],
+    [',99', 99],
+    ['-10', -1000],
+    [19.9, 1990],
+  ])('parses the decimal %s', (value, amount) => {
+    expect(Money.fromDecimal(value).amount).toBe(amount)
+  })
+
+  it.each(['', 'abc', '1.234', '1,234', '10.999', '-'])('rejects the decimal %j', value => {
+    expect(() => Money.fromDecimal(value)).toThrow(RangeError)
+  })
+
+  it('rejects non-integer cents, unsupported currencies and non-finite numbers', () => {
+    expect(() => Money.fromCents(10.5)).toThrow(RangeError)
+    expect(() => Money.fromCents(100, 'GBP' as 'BRL')).toThrow('Unsupported currency: GBP')
+    expect(() => Money.fromDecimal(Infinity)).toThrow(RangeError)
+  })
+
+  it('adds, subtracts and compares amounts of the same currency', () => {
+    const price = Money.fromCents(5000)
+    const discount = Money.fromCents(1250)
+
+    expect(price.add(discount).amount).toBe(6250)
+    expect(discount.subtract(price).amount).toBe(-3750)
+    expect(Money.sum([price, discount, discount]).amount).toBe(7500)
+    expect(price.compare(discount)).toBe(1)
+    expect(price.greaterThan(discount)).toBe(true)
+    expect(price.equals(Money.fromCents(5000))).toBe(true)
+  })
+
+  it('refuses to mix currencies', () => {
+    const brl: Money = Money.fromCents(100, 'BRL')
+    const usd: Money = Money.fromCents(100, 'USD')
+
+    expect(() => brl.add(usd)).toThrow('Cannot combine BRL and USD amounts')
+    expect(brl.equals(usd)).toBe(false)
+  })
+
+  it.each([
+    [123456, 0.0399, 4926],
+    [1000, 0.1, 100],
+    [15, 0.5, 8],
+    [-15, 0.5, -8],
+    [25, 0.1, 3],
+    [5000, 3, 15000],
+    [100, 1e-7, 0],
+  ])('multiplies %i by %d rounding half away from zero', (amount, factor, expected) => {
+    expect(Money.fromCents(amount).multiply(factor).amount).toBe(expected)
+  })
+
+  it('allocates by ratio without losing a cent', () => {
+    expect(cents(Money.fromCents(1000).allocate([70, 30]))).toEqual([700, 300])
+    expect(cents(Money.fromCents(1000).allocate([1, 1, 1]))).toEqual([334, 333, 333])
+    expect(cents(Money.fromCents(100).allocate([0.5, 0.25, 0.25]))).toEqual([50, 25, 25])
+    expect(cents(Money.fromCents(5).allocate([0, 1, 1]))).toEqual([0, 3, 2])
+    expect(cents(Money.fromCents(-1000).allocate([1, 1, 1]))).toEqual([-334, -333, -333])
+  })
+
+  it('rejects invalid ratios', () => {
+    expect(() => Money.fromCents(100).allocate([])).toThrow(RangeError)
+    expect(() => Money.fromCents(100).allocate([0, 0])).toThrow(RangeError)
+    expect(() => Money.fromCents(100).allocate([-1, 2])).toThrow(RangeError)
+  })
+
+  it('splits into installments that add up to the total', () => {
+    const installments = Money.fromCents(10000).split(3)
+
+    expect(cents(installments)).toEqual([3334, 3333, 3333])
+    expect(Money.sum(installments).amount).toBe(10000)
+    expect(() => Money.fromCents(100).split(0)).toThrow(RangeError)
+  })
+
+  it('converts to decimal, text and JSON', () => {
+    const money = Money.from({ amount: -123456, currency: 'BRL' })
+
+    expect(money.toDecimal()).toBe('-1234.56')
+    expect(Money.fromCents(5).toDecimal()).toBe('0.05')
+    expect(String(money)).toBe('-R$ 1.234,56')
+    expect(JSON.stringify({ total: money })).toBe('{"total":{"amount":-123456,"currency":"BRL"}}')
+  })
+
+  it('never produces negative zero', () => {
+    expect(Object.is(Money.fromCents(0).negate().amount, 0)).toBe(true)
+    expect(Object.is(Money.fromCents(-1).multiply(0).amount, 0)).toBe(true)
+  })
+})
@@ -0,0 +1,336 @@
+/**
+ * Vaultix Money
+ *
+ * Integer-cent amounts with exact arithmetic, and pt-BR formatting
+ */
+
+import type { Currency } from './types.js'
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  BRL: 'R$',
+  USD: 'US$',
+  EUR: '€',
+}
+
+export interface MoneyFormatOptions {
+  /** Prefix the currency symbol, e.g. `R$` (default true) */
+  symbol?: boolean
+  /** Always show the sign, e.g. `+R$ 10,00` for credits (default false) */
+  signDisplay?: boolean
+}
+
+/**
+ * Format an amount in cents the way Brazilians write it, e.g. `R$ 1.234,56`
+ *
+ * The output uses a plain space after the symbol (unlike
+ * `Intl.NumberFormat`, which inserts a non-breaking one), so it is safe to
+ * compare, log and embed in text messages.
+ *
+ * @example
+ * ```ts
+ * formatMoney(123456)              // 'R$ 1.234,56'
+ * formatMoney(-990, 'USD')         // '-US$ 9,90'
+ * formatMoney(5000, 'BRL', { symbol: false }) // '50,00'
+ * ```
+ */
+export function formatMoney(amount: number, currency: Currency = 'BRL', options: MoneyFormatOptions = {}): string {
+  assertCents(amount)
+
+  const digits = String(Math.abs(amount)).padStart(3, '0')
+  const units = digits.slice(0, -2).replace(/\B(?=(\d{3})+(?!\d))/g, '.')
+  const number = `${units},${digits.slice(-2)}`
+  const sign = amount < 0 ? '-' : options.signDisplay && amount > 0 ? '+' : ''
+
+  return options.symbol === false ? `${sign}${number}` : `${sign}${symbolFor(currency)} ${number}`
+}
+
+/**
+ * An amount of money in integer cents, tagged with its currency
+ *
+ * Money is immutable: arithmetic returns new instances. Nothing goes
+ * through floating point, and operations between different currencies
+ * throw (and are rejected by the type checker when the currencies are
+ * known).
+ *
+ * @example
+ * ```ts
+ * const total = Money.fromDecimal('1.234,56')        // R$ 1.234,56
+ * const fee = total.multiply(0.0399)                  // R$ 49,26
+ * const installments = Money.fromCents(10000).split(3) // R$ 33,34 + R$ 33,33 + R$ 33,33
+ *
+ * Money.from(charge).format()                         // 'R$ 50,00'
+ * Money.from(balance.available[0]).add(Money.from(balance.pending[0]))
+ * ```
+ */
+export class Money<C extends Currency = Currency> {
+  private constructor(
+    /** Amount in cents */
+    readonly amount: number,
+    readonly currency: C
+  ) {}
+
+  /**
+   * Money from an amount in cents, as returned by the API
+   */
+  static fromCents<C extends Currency = 'BRL'>(amount: number, currency: C = 'BRL' as C): Money<C> {
+    assertCents(amount)
+    assertCurrency(currency)
+    return new Money(amount === 0 ? 0 : amount, currency)
+  }
+
+  /**
+   * Money from a decimal amount, e.g. `'1234.56'`, `'1.234,56'` or
+   * `'R$ 1.234,56'`
+   *
+   * A comma marks the decimal separator (dots are then thousands
+   * separators); without a comma, a dot is the decimal separator. Throws
+   * on more than two decimal places rather than rounding.
+   */
+  static fromDecimal<C extends Currency = 'BRL'>(value: string | number, currency: C = 'BRL' as C): Money<C> {
+    const text = typeof value === 'number' ? String(value) : value
+
+    if (typeof value === 'number' && (!Number.isFinite(value) || /e/i.test(text))) {
+      throw new RangeError(`Invalid decimal amount: ${text}`)
+    }
+
+    let normalized = text.replace(/[^\d.,-]/g, '')
+
+    if (normalized.includes(',')) {
+      normalized = normalized.replace(/\./g, '').replace(',', '.')
+    }
+
+    const match = /^(-?)(\d*)(?:\.(\d{0,2}))?$/.exec(normalized)
+
+    if (!match || (match[2] === '' && !match[3])) {
+      throw new RangeError(`Invalid decimal amount: ${JSON.stringify(text)}`)
+    }
+
+    const [, sign, units, fraction = ''] = match
+    const cents = Number(units || '0') * 100 + Number(fraction.padEnd(2, '0'))
+
+    return Money.fromCents(sign ? -cents : cents, currency)
+  }
+
+  /**
+   * Money from any object with `amount` (in cents) and `currency`: a
+   * charge, payout, payment link or balance entry
+   */
+  static from<C extends Currency>(source: { amount: number; currency: C }): Money<C> {
+    return Money.fromCents(source.amount, source.currency)
+  }
+
+  /**
+   * Zero in a currency
+   */
+  static zero<C extends Currency = 'BRL'>(currency: C = 'BRL' as C): Money<C> {
+    return Money.fromCents(0, currency)
+  }
+
+  /**
+   * Sum of several amounts in the same currency
+   */
+  static sum<C extends Currency>(amounts: Array<Money<C>>, currency?: C): Money<C> {
+    const initial = Money.zero(currency ?? amounts[0]?.currency ?? 'BRL' as C)
+    return amounts.reduce((total, money) => total.add(money), initial)
+  }
+
+  add(other: Money<C>): Money<C> {
+    this.assertSameCurrency(other)
+    return Money.fromCents(this.amount + other.amount, this.currency)
+  }
+
+  subtract(other: Money<C>): Money<C> {
+    this.assertSameCurrency(other)
+    return Money.fromCents(this.amount - other.amount, this.currency)
+  }
+
+  /**
+   * Multiply by a factor, e.g. a quantity or a fee rate, rounding half
+   * away from zero to the nearest cent
+   *
+   * The factor is used exactly as written in decimal (`0.0399` is 399 /
+   * 10000), so results don't carry binary floating point errors.
+   */
+  multiply(factor: number): Money<C> {
+    const [numerator, denominator] = toFraction(factor)
+    return Money.fromCents(divideRounded(BigInt(this.amount) * numerator, denominator), this.currency)
+  }
+
+  /**
+   * Split into parts proportional to `ratios`, without losing a cent: the
+   * parts always add up to the original amount, and leftover cents go to
+   * the first parts
+   *
+   * @example
+   * ```ts
+   * Money.fromCents(1000).allocate([70, 30])  // 700 + 300
+   * Money.fromCents(1000).allocate([1, 1, 1]) // 334 + 333 + 333
+   * ```
+   */
+  allocate(ratios: number[]): Array<Money<C>> {
+    if (ratios.length === 0) {
+      throw new RangeError('allocate() needs at least one ratio')
+    }
+
+    const fractions = ratios.map(ratio => {
+      if (!Number.isFinite(ratio) || ratio < 0) {
+        throw new RangeError(`Invalid ratio: ${ratio}`)
+      }
+      return toFraction(ratio)
+    })
+
+    // Scale every ratio to an integer over a common denominator
+    const scale = fractions.reduce((max, [, denominator]) => (denominator > max ? denominator : max), 1n)
+    const weights = fractions.map(([numerator, denominator]) => numerator * (scale / denominator))
+    const total = weights.reduce((sum, weight) => sum + weight, 0n)
+
+    if (total === 0n) {
+      throw new RangeError('allocate() needs at least one non-zero ratio')
+    }
+
+    const amount = BigInt(this.amount)
+    const parts = weights.map(weight => (amount * weight) / total)
+    let remainder = amount - parts.reduce((sum, part) => sum + part, 0n)
+    const step = remainder < 0n ? -1n : 1n
+
+    for (let i = 0; remainder !== 0n; i = (i + 1) % parts.length) {
+      if (weights[i] === 0n) continue
+      parts[i] += step
+      remainder -= step
+    }
+
+    return parts.map(part => Money.fromCents(Number(part), this.currency))
+  }
+
+  /**
+   * Split into `count` equal parts, e.g. installments; the first parts
+   * carry the leftover cents
+   *
+   * @example
+   * ```ts
+   * Money.fromCents(10000).split(3) // 3334 + 3333 + 3333
+   * ```
+   */
+  split(count: number): Array<Money<C>> {
+    if (!Number.isInteger(count) || count < 1) {
+      throw new RangeError(`Invalid number of parts: ${count}`)
+    }
+
+    return this.allocate(Array.from({ length: count }, () => 1))
+  }
+
+  negate(): Money<C> {
+    return Money.fromCents(-this.amount, this.currency)
+  }
+
+  abs(): Money<C> {
+    return Money.fromCents(Math.abs(this.amount), this.currency)
+  }
+
+  /** -1, 0 or 1 */
+  compare(other: Money<C>): -1 | 0 | 1 {
+    this.assertSameCurrency(other)
+    return this.amount < other.amount ? -1 : this.amount > other.amount ? 1 : 0
+  }
+
+  equals(other: Money<C>): boolean {
+    return this.currency === other.currency && this.amount === other.amount
+  }
+
+  greaterThan(other: Money<C>): boolean {
+    return this.compare(other) > 0
+  }
+
+  lessThan(other: Money<C>): boolean {
+    return this.compare(other) < 0
+  }
+
+  isZero(): boolean {
+    return this.amount === 0
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0
+  }
+
+  /**
+   * The amount as a decimal string with a dot, e.g. `'1234.56'`
+   */
+  toDecimal(): string {
+    const digits = String(Math.abs(this.amount)).padStart(3, '0')
+    return `${this.amount < 0 ? '-' : ''}${digits.slice(0, -2)}.${digits.slice(-2)}`
+  }
+
+  /**
+   * Format for display, e.g. `'R$ 1.234,56'` (see `formatMoney`)
+   */
+  format(options?: MoneyFormatOptions): string {
+    return formatMoney(this.amount, this.currency, options)
+  }
+
+  toString(): string {
+    return this.format()
+  }
+
+  /** Serializes like the API: `{ amount, currency }` */
+  toJSON(): { amount: number; currency: C } {
+    return { amount: this.amount, currency: this.currency }
+  }
+
+  private assertSameCurrency(other: Money<Currency>): void {
+    if (other.currency !== this.currency) {
+      throw new TypeError(`Cannot combine ${this.currency} and ${other.currency} amounts`)
+    }
+  }
+}
+
+function symbolFor(currency: Currency): string {
+  assertCurrency(currency)
+  return CURRENCY_SYMBOLS[currency]
+}
+
+function assertCents(amount: number): void {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Amounts must be integer cents, received ${amount}`)
+  }
+}
+
+function assertCurrency(currency: string): asserts currency is Currency {
+  if (!(currency in CURRENCY_SYMBOLS)) {
+    throw new RangeError(`Unsupported currency: ${currency}`)
+  }
+}
+
+/**
+ * A finite number as an exact fraction of its shortest decimal form,
+ * e.g. `0.0399` → `[399n, 10000n]`
+ */
+function toFraction(value: number): [bigint, bigint] {
+  if (!Number.isFinite(value)) {
+    throw new RangeError(`Invalid factor: ${value}`)
+  }
+
+  const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e')
+  const [units, fraction = ''] = mantissa.split('.')
+  const scale = fraction.length - Number(exponent)
+  const digits = BigInt(`${units}${fraction}`)
+
+  return scale >= 0 ? [digits, 10n ** BigInt(scale)] : [digits * 10n ** BigInt(-scale), 1n]
+}
+
+/** `numerator / denominator` rounded half away from zero */
+function divideRounded(numerator: bigint, denominator: bigint): number {
+  const quotient = numerator / denominator
+  const remainder = numerator % denominator
+  const abs = remainder < 0n ? -remainder : remainder
+
+  if (abs * 2n >= denominator) {
+    return Number(quotient + (numerator < 0n ? -1n : 1n))
+  }
+
+  return Number(quotient)
+}
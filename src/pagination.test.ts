@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest'
+import { Page, PagePromise } from './pagination.js'
+import { Vaultix } from './vaultix.js'
+import type { ListResponse, VaultixResponse } from './types.js'
+
+interface Item {
+  id: string
+}
+
+const items: Item[] = Array.from({ length: 7 }, (_, i) => ({ id: `item_${i + 1}` }))
+
+/** Serves `items` in pages of `limit`, after `starting_after` */
+function fetcher() {
+  return vi.fn(async (params: Record<string, any>): Promise<VaultixResponse<ListResponse<Item>>> => {
+    const limit = params.limit ?? 3
+    const start = params.starting_after ? items.findIndex(item => item.id === params.starting_after) + 1 : 0
+    const data = items.slice(start, start + limit)
+
+    return Object.assign(
+      { object: 'list' as const, data, has_more: start + limit < items.length },
+      { lastResponse: { status: 200, headers: {}, elapsedMs: 0, attempts: 1 } }
+    )
+  })
+}
+
+describe('PagePromise', () => {
+  it('resolves to the first page', async () => {
+    const page = await new PagePromise(fetcher(), { limit: 3 })
+
+    expect(page).toBeInstanceOf(Page)
+    expect(page.data.map(item => item.id)).toEqual(['item_1', 'item_2', 'item_3'])
+    expect(page.has_more).toBe(true)
+    expect(page.lastResponse.status).toBe(200)
+  })
+
+  it('iterates every item across pages with for await', async () => {
+    const fetchPage = fetcher()
+    const ids: string[] = []
+
+    for await (const item of new PagePromise(fetchPage, { limit: 3 })) {
+      ids.push(item.id)
+    }
+
+    expect(ids).toEqual(items.map(item => item.id))
+    expect(fetchPage).toHaveBeenCalledTimes(3)
+    expect(fetchPage.mock.calls.map(([params]) => params.starting_after)).toEqual([undefined, 'item_3', 'item_6'])
+  })
+
+  it('stops fetching when iteration breaks early', async () => {
+    const fetchPage = fetcher()
+
+    for await (const item of new PagePromise(fetchPage, { limit: 3 })) {
+      if (item.id === 'item_2') break
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('collects items with toArray, up to an optional limit', async () => {
+    expect(await new PagePromise(fetcher(), { limit: 3 }).toArray()).toHaveLength(7)
+    expect((await new PagePromise(fetcher(), { limit: 3 }).toArray({ limit: 4 })).map(item => item.id))
+      .toEqual(['item_1', 'item_2', 'item_3', 'item_4'])
+    expect(await new PagePromise(fetcher(), { limit: 3 }).toArray({ limit: 0 })).toEqual([])
+  })
+
+  it('walks pages and drops ending_before when moving forward', async () => {
+    const fetchPage = fetcher()
+    const sizes: number[] = []
+
+    for await (const page of new PagePromise(fetchPage, { limit: 3, ending_before: 'item_9' }).pages()) {
+      sizes.push(page.data.length)
+    }
+
+    expect(sizes).toEqual([3, 3, 1])
+    expect(fetchPage.mock.calls[1][0]).toEqual({ limit: 3, starting_after: 'item_3' })
+  })
+
+  it('returns null from nextPage on the last page', async () => {
+    const page = await new PagePromise(fetcher(), { limit: 10 })
+
+    expect(page.hasNextPage()).toBe(false)
+    expect(await page.nextPage()).toBeNull()
+  })
+
+  it('serializes a page as a plain list', async () => {
+    const page = await new PagePromise(fetcher(), { limit: 2 })
+
+    expect(JSON.parse(JSON.stringify(page))).toEqual({
+      object: 'list',
+      data: [{ id: 'item_1' }, { id: 'item_2' }],
+      has_more: true,
+    })
+  })
+})
+
+describe('list methods', () => {
+  it('fetch the next page with starting_after', async () => {
+    const urls: string[] = []
+    const vaultix = new Vaultix({
+      secretKey: 'sk_test_123',
+      fetch: async url => {
+        urls.push(url)
+        const after = new URL(url).searchParams.get('starting_after')
+        const data = after ? [{ id: 'cus_3' }] : [{ id: 'cus_1' }, { id: 'cus_2' }]
+        return Response.json({ object: 'list', data, has_more: !after })
+      },
+    })
+
+    const customers = await vaultix.customers.list({ limit: 2 }).toArray()
+
+    expect(customers.map(customer => customer.id)).toEqual(['cus_1', 'cus_2', 'cus_3'])
+    expect(new URL(urls[1]).searchParams.get('starting_after')).toBe('cus_2')
+    expect(new URL(urls[1]).searchParams.get('limit')).toBe('2')
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * Vaultix Pagination
+ *
+ * Cursor-based auto-pagination for list endpoints
+ */
+
+import type { ListResponse, ResponseMetadata, VaultixResponse } from './types.js'
+
+type PageFetcher<T> = (params: Record<string, any>) => Promise<VaultixResponse<ListResponse<T>>>
+
+export interface AutoPaginationOptions {
+  /** Maximum number of items to collect across all pages */
+  limit?: number
+}
+
+/**
+ * A single page of results
+ *
+ * Iterating a page with `for await` walks every item of the result set,
+ * fetching the following pages on demand.
+ */
+export class Page<T extends { id: string }> implements ListResponse<T>, AsyncIterable<T> {
+  readonly object = 'list' as const
+  readonly data: T[]
+  readonly has_more: boolean
+  readonly total_count?: number
+  /** HTTP metadata of the request that fetched this page */
+  readonly lastResponse: ResponseMetadata
+
+  constructor(
+    response: VaultixResponse<ListResponse<T>>,
+    private readonly params: Record<string, any>,
+    private readonly fetchPage: PageFetcher<T>
+  ) {
+    this.data = response.data ?? []
+    this.has_more = Boolean(response.has_more)
+    this.total_count = response.total_count
+    this.lastResponse = response.lastResponse
+  }
+
+  /**
+   * Whether there are more results after this page
+   */
+  hasNextPage(): boolean {
+    return this.has_more && this.data.length > 0
+  }
+
+  /**
+   * Fetch the page following this one, or `null` if this is the last page
+   */
+  async nextPage(): Promise<Page<T> | null> {
+    if (!this.hasNextPage()) return null
+
+    const { ending_before: _, ...rest } = this.params
+    const params = { ...rest, starting_after: this.data[this.data.length - 1].id }
+    const response = await this.fetchPage(params)
+
+    return new Page(response, params, this.fetchPage)
+  }
+
+  /**
+   * Iterate over this page and every following page
+   *
+   * @example
+   * ```ts
+   * const first = await vaultix.charges.list({ limit: 100 })
+   * for await (const page of first.pages()) {
+   *   console.log(page.data.length)
+   * }
+   * ```
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    let page: Page<T> | null = this
+
+    while (page) {
+      yield page
+      page = await page.nextPage()
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    for await (const page of this.pages()) {
+      yield* page.data
+    }
+  }
+
+  /**
+   * Collect items from this and the following pages into an array
+   *
+   * @example
+   * ```ts
+   * const first = await vaultix.customers.list()
+   * const customers = await first.toArray({ limit: 500 })
+   * ```
+   */
+  async toArray(options: AutoPaginationOptions = {}): Promise<T[]> {
+    const items: T[] = []
+
+    if (options.limit !== undefined && options.limit <= 0) return items
+
+    for await (const item of this) {
+      items.push(item)
+      if (options.limit !== undefined && items.length >= options.limit) break
+    }
+
+    return items
+  }
+
+  toJSON(): ListResponse<T> {
+    return {
+      object: this.object,
+      data: this.data,
+      has_more: this.has_more,
+      total_count: this.total_count,
+    }
+  }
+}
+
+/**
+ * The value returned by every `list` method
+ *
+ * Awaiting it resolves to the first `Page`; iterating it with `for await`
+ * walks every item across all pages.
+ *
+ * @example
+ * ```ts
+ * // First page only
+ * const page = await vaultix.charges.list({ limit: 20 })
+ *
+ * // Every paid charge, fetching pages as needed
+ * for await (const charge of vaultix.charges.list({ status: 'paid' })) {
+ *   console.log(charge.id)
+ * }
+ * ```
+ */
+export class PagePromise<T extends { id: string }> implements PromiseLike<Page<T>>, AsyncIterable<T> {
+  private readonly firstPage: Promise<Page<T>>
+
+  constructor(fetchPage: PageFetcher<T>, params: Record<string, any> = {}) {
+    this.firstPage = fetchPage(params).then(response => new Page(response, params, fetchPage))
+  }
+
+  then<TResult1 = Page<T>, TResult2 = never>(
+    onfulfilled?: ((value: Page<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.firstPage.then(onfulfilled, onrejected)
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<Page<T> | TResult> {
+    return this.firstPage.catch(onrejected)
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<Page<T>> {
+    return this.firstPage.finally(onfinally)
+  }
+
+  /**
+   * Iterate over every page, starting with the first one
+   */
+  async *pages(): AsyncGenerator<Page<T>, void, undefined> {
+    const page = await this.firstPage
+    yield* page.pages()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const page = await this.firstPage
+    yield* page
+  }
+
+  /**
+   * Collect items across all pages into an array
+   *
+   * @example
+   * ```ts
+   * const charges = await vaultix.charges.list({ status: 'paid' }).toArray({ limit: 1000 })
+   * ```
+   */
+  async toArray(options?: AutoPaginationOptions): Promise<T[]> {
+    const page = await this.firstPage
+    return page.toArray(options)
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest'
+import { VaultixInvalidRequestError } from './errors.js'
+import { chargeCreateParamsSchema, paramSchemaFor, payoutCreateParamsSchema } from './param-schemas.js'
+import { validate } from './schema.js'
+import { Vaultix } from './vaultix.js'
+import type { FetchFunction } from './types.js'
+
+function createVaultix(validateParams?: boolean) {
+  const fetch = vi.fn<Parameters<FetchFunction>, ReturnType<FetchFunction>>(async () => Response.json({ object: 'list', data: [], has_more: false }))
+  const vaultix = new Vaultix({ secretKey: 'sk_test_123', logLevel: 'silent', validateParams, fetch })
+
+  return { vaultix, fetch }
+}
+
+describe('param schemas', () => {
+  it('require a card token for credit card charges', () => {
+    expect(validate(chargeCreateParamsSchema, { amount: 5000, payment_method: 'credit_card' })).toEqual([
+      { path: 'card[token]', message: 'is required for credit_card charges', missing: true },
+    ])
+    expect(validate(chargeCreateParamsSchema, { amount: 5000, payment_method: 'pix' })).toEqual([])
+  })
+
+  it('require a PIX key or full bank details for payouts', () => {
+    const payout = (destination: Record<string, string>) => validate(payoutCreateParamsSchema, { amount: 1000, destination })
+
+    expect(payout({ pix_key: 'maria@email.com' })).toEqual([])
+    expect(payout({ bank_code: '001', branch: '1234', account: '12345-6' })).toEqual([])
+    expect(payout({})[0]).toMatchObject({ path: 'destination', message: 'requires either pix_key or bank_code, branch and account' })
+    expect(payout({ bank_code: '001' })[0]).toMatchObject({ path: 'destination[branch]', message: 'is required for bank account payouts' })
+  })
+
+  it('are found by method and path', () => {
+    expect(paramSchemaFor('POST', '/v1/charges')).toBe(chargeCreateParamsSchema)
+    expect(paramSchemaFor('POST', '/v1/payouts?expand=destination')).toBe(payoutCreateParamsSchema)
+    expect(paramSchemaFor('GET', '/v1/balance')).toBeUndefined()
+  })
+})
+
+describe('validateParams', () => {
+  it('is off by default, so params reach the API unchanged', async () => {
+    const { vaultix, fetch } = createVaultix()
+
+    await vaultix.charges.list({ limit: 500 })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(new URL(fetch.mock.calls[0][0]).searchParams.get('limit')).toBe('500')
+  })
+
+  it.each([
+    ['a missing card token', (vaultix: Vaultix) => vaultix.charges.create({ amount: 5000, payment_method: 'credit_card' }), 'parameter_missing', 'card[token]', 'Missing required param: card[token]'],
+    ['an amount below the minimum', (vaultix: Vaultix) => vaultix.charges.create({ amount: 99, payment_method: 'pix' }), 'parameter_invalid', 'amount', 'Invalid param amount: must be at least 100, received 99'],
+    ['a list limit above 100', (vaultix: Vaultix) => vaultix.charges.list({ limit: 500 }), 'parameter_invalid', 'limit', 'Invalid param limit: must be at most 100, received 500'],
+    ['an incomplete payout destination', (vaultix: Vaultix) => vaultix.payouts.create({ amount: 1000, destination: { bank_code: '001' } }), 'parameter_missing', 'destination[branch]', 'Missing required param: destination[branch]'],
+  ])('rejects %s without a request', async (_, call, code, param, message) => {
+    const { vaultix, fetch } = createVaultix(true)
+
+    const error = await call(vaultix).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixInvalidRequestError)
+    expect(error).toMatchObject({ code, param, message, attempts: 0 })
+    expect(fetch).not.toHaveBeenCalled()
+  })
+
+  it('sends valid params', async () => {
+    const { vaultix, fetch } = createVaultix(true)
+
+    await vaultix.charges.list({ limit: 100, status: 'paid' })
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,320 @@
+/**
+ * Vaultix Param Schemas
+ *
+ * Runtime counterparts of the `*CreateParams`, `*UpdateParams` and
+ * `*ListParams` types, checked before a request is sent
+ */
+
+import { s } from './schema.js'
+import type { Schema } from './schema.js'
+import type { HttpMethod } from './types.js'
+
+type Shape = Record<string, Schema>
+
+const currency = s.optional(s.literal('BRL', 'USD', 'EUR'))
+const paymentMethod = s.literal('pix', 'credit_card', 'boleto')
+const metadata = s.optional(s.record(s.unknown()))
+const optionalString = s.optional(s.string())
+const optionalBoolean = s.optional(s.boolean())
+const optionalNumber = s.optional(s.number({ min: 0 }))
+const requiredString = s.string({ nonEmpty: true })
+const date = s.string({ pattern: /^\d{4}-\d{2}-\d{2}/, format: 'an ISO 8601 date' })
+const optionalDate = s.optional(date)
+
+/** Every field of a shape made optional, as in `Partial<T>` */
+function partial(shape: Shape): Shape {
+  return Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, s.optional(schema)]))
+}
+
+/** `ListParams` plus the endpoint's own filters */
+function listParams(filters: Shape = {}): Schema {
+  return s.object({
+    limit: s.optional(s.integer({ min: 1, max: 100 })),
+    starting_after: optionalString,
+    ending_before: optionalString,
+    ...filters,
+  })
+}
+
+// ============================================
+// TYPES.TS
+// ============================================
+
+export const chargeCreateParamsSchema = s.refine(
+  s.object({
+    amount: s.integer({ min: 100 }),
+    currency,
+    payment_method: paymentMethod,
+    customer: s.optional(s.object({
+      id: optionalString,
+      name: optionalString,
+      email: optionalString,
+      document: optionalString,
+      phone: optionalString,
+    })),
+    description: optionalString,
+    metadata,
+    card: s.optional(s.object({
+      token: requiredString,
+      installments: s.optional(s.integer({ min: 1, max: 12 })),
+      capture: optionalBoolean,
+    })),
+    boleto: s.optional(s.object({
+      due_date: optionalDate,
+      instructions: optionalString,
+    })),
+  }),
+  params => {
+    if (params.payment_method === 'credit_card' && !params.card) {
+      return { path: 'card[token]', message: 'is required for credit_card charges', missing: true }
+    }
+  }
+)
+
+export const chargeListParamsSchema = listParams({
+  status: s.optional(s.literal('pending', 'authorized', 'paid', 'failed', 'canceled', 'refunded', 'expired')),
+  payment_method: s.optional(paymentMethod),
+})
+
+const customerShape: Shape = {
+  name: requiredString,
+  email: s.string({ pattern: /^[^\s@]+@[^\s@]+$/, format: 'an email address' }),
+  document: optionalString,
+  phone: optionalString,
+  address: s.optional(s.object({
+    line1: optionalString,
+    line2: optionalString,
+    city: optionalString,
+    state: optionalString,
+    postal_code: optionalString,
+    country: optionalString,
+  })),
+  metadata,
+}
+
+export const customerCreateParamsSchema = s.object(customerShape)
+
+export const customerUpdateParamsSchema = s.object(partial(customerShape))
+
+export const tokenCreateParamsSchema = s.object({
+  card: s.object({
+    number: requiredString,
+    exp_month: s.integer({ min: 1, max: 12 }),
+    exp_year: s.integer(),
+    cvc: s.string({ pattern: /^\d{3,4}$/, format: '3 or 4 digits' }),
+    name: optionalString,
+  }),
+})
+
+export const refundCreateParamsSchema = s.object({
+  charge: requiredString,
+  amount: s.optional(s.integer({ min: 1 })),
+  reason: s.optional(s.literal('requested_by_customer', 'duplicate', 'fraudulent')),
+})
+
+export const refundListParamsSchema = listParams({
+  charge: optionalString,
+})
+
+export const balanceTransactionListParamsSchema = listParams({
+  type: s.optional(s.literal('charge', 'refund', 'payout', 'adjustment')),
+})
+
+export const paymentLinkCreateParamsSchema = s.object({
+  amount: s.integer({ min: 1 }),
+  currency,
+  description: optionalString,
+  payment_methods: s.optional(s.array(paymentMethod)),
+  success_url: optionalString,
+  cancel_url: optionalString,
+  expires_at: optionalDate,
+  max_uses: s.optional(s.integer({ min: 1 })),
+  customer_email: optionalString,
+  collect_customer_info: optionalBoolean,
+  metadata,
+})
+
+export const paymentLinkListParamsSchema = listParams({
+  status: s.optional(s.literal('active', 'inactive', 'expired')),
+})
+
+export const payoutCreateParamsSchema = s.object({
+  amount: s.integer({ min: 1 }),
+  currency,
+  destination: s.refine(
+    s.object({
+      pix_key: optionalString,
+      bank_code: optionalString,
+      branch: optionalString,
+      account: optionalString,
+      account_type: s.optional(s.literal('checking', 'savings')),
+      holder_name: optionalString,
+      holder_document: optionalString,
+    }),
+    (destination, path) => {
+      if (destination.pix_key) return
+
+      const missing = ['bank_code', 'branch', 'account'].filter(key => !destination[key])
+      if (missing.length === 0) return
+
+      return {
+        path: missing.length === 3 ? path : `${path}[${missing[0]}]`,
+        message: missing.length === 3
+          ? 'requires either pix_key or bank_code, branch and account'
+          : 'is required for bank account payouts',
+        missing: true,
+      }
+    }
+  ),
+  description: optionalString,
+  metadata,
+})
+
+export const payoutListParamsSchema = listParams({
+  status: s.optional(s.literal('pending', 'in_transit', 'paid', 'failed', 'canceled')),
+})
+
+export const sandboxChargeFailParamsSchema = s.object({
+  failure_code: optionalString,
+  failure_message: optionalString,
+})
+
+export const sandboxWebhookTestParamsSchema = s.object({
+  event_type: optionalString,
+  payload: metadata,
+})
+
+// ============================================
+// PRODUCTS
+// ============================================
+
+const productStatus = s.literal('active', 'draft', 'archived')
+
+const productShape: Shape = {
+  name: requiredString,
+  description: optionalString,
+  short_description: optionalString,
+  sku: optionalString,
+  barcode: optionalString,
+  price: s.integer({ min: 0 }),
+  compare_price: s.optional(s.integer({ min: 0 })),
+  cost_price: s.optional(s.integer({ min: 0 })),
+  stock_quantity: s.optional(s.integer({ min: 0 })),
+  track_inventory: optionalBoolean,
+  status: s.optional(productStatus),
+  visibility: s.optional(s.literal('visible', 'hidden')),
+  is_featured: optionalBoolean,
+  is_digital: optionalBoolean,
+  featured_image: optionalString,
+  images: s.optional(s.array(s.string())),
+  category_id: optionalString,
+  tags: s.optional(s.array(s.string())),
+  attributes: metadata,
+  weight: optionalNumber,
+  weight_unit: optionalString,
+  length: optionalNumber,
+  width: optionalNumber,
+  height: optionalNumber,
+  dimension_unit: optionalString,
+  meta_title: optionalString,
+  meta_description: optionalString,
+  meta_keywords: s.optional(s.array(s.string())),
+  metadata,
+}
+
+export const productCreateParamsSchema = s.object(productShape)
+
+export const productUpdateParamsSchema = s.object(partial(productShape))
+
+export const productListParamsSchema = listParams({
+  status: s.optional(productStatus),
+  category_id: optionalString,
+  is_active: optionalBoolean,
+  is_featured: optionalBoolean,
+  search: optionalString,
+})
+
+// ============================================
+// ORDERS
+// ============================================
+
+export const orderListParamsSchema = listParams({
+  status: s.optional(s.literal('pending', 'processing', 'completed', 'canceled', 'refunded')),
+  payment_status: s.optional(s.literal('pending', 'paid', 'failed', 'refunded')),
+  fulfillment_status: s.optional(s.literal('unfulfilled', 'partial', 'fulfilled', 'shipped', 'delivered')),
+  customer_id: optionalString,
+  created_gte: optionalDate,
+  created_lte: optionalDate,
+  expand: s.optional(s.union(s.string(), s.array(s.string()))),
+})
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+export const transactionListParamsSchema = listParams({
+  type: s.optional(s.literal('charge', 'refund', 'payout')),
+  status: optionalString,
+  payment_method: optionalString,
+  source: s.optional(s.literal('charge', 'refund', 'payout')),
+  created_gte: optionalDate,
+  created_lte: optionalDate,
+  min_amount: s.optional(s.integer({ min: 0 })),
+  max_amount: s.optional(s.integer({ min: 0 })),
+})
+
+export const transactionSummaryParamsSchema = s.object({
+  period: s.optional(s.literal('24h', '7d', '30d', '90d')),
+})
+
+// ============================================
+// ENDPOINTS
+// ============================================
+
+const ID = '[^/]+'
+
+/** Params schema of every endpoint that takes params, matched on method and path */
+const ENDPOINTS: Array<[HttpMethod, RegExp, Schema]> = [
+  ['GET', /^\/v1\/balance\/transactions$/, balanceTransactionListParamsSchema],
+
+  ['POST', /^\/v1\/charges$/, chargeCreateParamsSchema],
+  ['GET', /^\/v1\/charges$/, chargeListParamsSchema],
+  ['POST', new RegExp(`^/v1/charges/${ID}/capture$`), s.object({ amount: s.optional(s.integer({ min: 1 })) })],
+
+  ['POST', /^\/v1\/customers$/, customerCreateParamsSchema],
+  ['GET', /^\/v1\/customers$/, listParams()],
+  ['PUT', new RegExp(`^/v1/customers/${ID}$`), customerUpdateParamsSchema],
+
+  ['POST', /^\/v1\/tokens$/, tokenCreateParamsSchema],
+
+  ['POST', /^\/v1\/refunds$/, refundCreateParamsSchema],
+  ['GET', /^\/v1\/refunds$/, refundListParamsSchema],
+
+  ['POST', /^\/v1\/payment-links$/, paymentLinkCreateParamsSchema],
+  ['GET', /^\/v1\/payment-links$/, paymentLinkListParamsSchema],
+  ['GET', new RegExp(`^/v1/payment-links/${ID}/payments$`), listParams()],
+
+  ['POST', /^\/v1\/payouts$/, payoutCreateParamsSchema],
+  ['GET', /^\/v1\/payouts$/, payoutListParamsSchema],
+
+  ['POST', /^\/v1\/products$/, productCreateParamsSchema],
+  ['GET', /^\/v1\/products$/, productListParamsSchema],
+  ['PUT', new RegExp(`^/v1/products/${ID}$`), productUpdateParamsSchema],
+
+  ['GET', /^\/v1\/orders$/, orderListParamsSchema],
+  ['GET', new RegExp(`^/v1/orders/${ID}/items$`), listParams()],
+
+  ['GET', /^\/v1\/transactions$/, transactionListParamsSchema],
+  ['GET', /^\/v1\/transactions\/summary$/, transactionSummaryParamsSchema],
+
+  ['POST', new RegExp(`^/v1/sandbox/charges/${ID}/fail$`), sandboxChargeFailParamsSchema],
+  ['POST', /^\/v1\/sandbox\/webhooks\/test$/, sandboxWebhookTestParamsSchema],
+]
+
+/**
+ * Find the schema of an endpoint's params, if the SDK declares one
+ */
+export function paramSchemaFor(method: HttpMethod, path: string): Schema | undefined {
+  const pathname = path.split('?')[0]
+  return ENDPOINTS.find(([m, pattern]) => m === method && pattern.test(pathname))?.[2]
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { VaultixPixCodeError } from './errors.js'
+import { createDynamicPixCode, createPixCode, isValidPixCode, parsePixCode, pixCrc16 } from './pix.js'
+
+/** Static code from the Banco Central BR Code manual */
+const MANUAL_EXAMPLE =
+  '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR' +
+  '5913Fulano de Tal6008BRASILIA62070503***63041D3D'
+
+describe('pixCrc16', () => {
+  it('computes CRC16-CCITT with initial value 0xFFFF', () => {
+    expect(pixCrc16('123456789')).toBe('29B1')
+    expect(pixCrc16('')).toBe('FFFF')
+  })
+})
+
+describe('parsePixCode', () => {
+  it('decodes the manual example', () => {
+    expect(parsePixCode(MANUAL_EXAMPLE)).toMatchObject({
+      type: 'static',
+      gui: 'br.gov.bcb.pix',
+      key: '123e4567-e12b-12d1-a456-426655440000',
+      amount: undefined,
+      currency: '986',
+      merchantCategoryCode: '0000',
+      countryCode: 'BR',
+      merchantName: 'Fulano de Tal',
+      merchantCity: 'BRASILIA',
+      txid: '***',
+      crc: '1D3D',
+    })
+  })
+
+  it.each([
+    ['a wrong checksum', MANUAL_EXAMPLE.slice(0, -4) + '1D3E', /checksum: expected 1D3D, found 1D3E/],
+    ['no CRC field', 'hello world', /missing CRC field/],
+    ['a truncated field', withCrc('000201265800'), /malformed field at position 6/],
+    ['another GUI', withCrc('000201' + '2630' + '0014br.gov.bcb.xyz' + '0108key@test' + '52040000' + '5303986' + '5802BR' + '5901A' + '6001B'), /no merchant account with GUI/],
+    ['a missing merchant city', withCrc('000201' + '2618' + '0014br.gov.bcb.pix' + '52040000' + '5303986' + '5802BR' + '5901A'), /missing merchant city \(field 60\)/],
+  ])('rejects %s', (_, code, message) => {
+    expect(() => parsePixCode(code)).toThrow(VaultixPixCodeError)
+    expect(() => parsePixCode(code)).toThrow(message)
+    expect(isValidPixCode(code)).toBe(false)
+  })
+
+  it('accepts lowercase checksums and surrounding whitespace', () => {
+    expect(isValidPixCode(`  ${MANUAL_EXAMPLE.slice(0, -4)}1d3d\n`)).toBe(true)
+  })
+})
+
+describe('createPixCode', () => {
+  it('builds static codes that parse back', () => {
+    const code = createPixCode({
+      key: 'pix@minhaloja.com.br',
+      merchantName: 'Minha Loja',
+      merchantCity: 'São Paulo',
+      amount: 1990,
+      txid: 'PEDIDO123',
+      description: 'Pedido 123',
+      postalCode: '01310-100',
+    })
+
+    expect(code.startsWith('000201010211')).toBe(true)
+    expect(parsePixCode(code)).toMatchObject({
+      type: 'static',
+      key: 'pix@minhaloja.com.br',
+      description: 'Pedido 123',
+      amount: 1990,
+      merchantName: 'Minha Loja',
+      merchantCity: 'Sao Paulo',
+      postalCode: '01310100',
+      txid: 'PEDIDO123',
+      fields: expect.objectContaining({ '54': '19.90' }),
+    })
+  })
+
+  it('builds dynamic codes pointing at a payload URL', () => {
+    const code = createDynamicPixCode({
+      url: 'https://pix.example.com/v2/cobv/abc',
+      amount: 5000,
+      merchantName: 'Minha Loja',
+      merchantCity: 'Recife',
+    })
+
+    expect(parsePixCode(code)).toMatchObject({ type: 'dynamic', url: 'pix.example.com/v2/cobv/abc', amount: 5000 })
+  })
+
+  it.each([
+    [{ key: '' }, 'A PIX key is required'],
+    [{ merchantName: 'A much too long merchant name' }, 'merchantName must have 1 to 25 characters'],
+    [{ merchantCity: '' }, 'merchantCity must have 1 to 15 characters'],
+    [{ txid: 'pedido-123' }, 'txid must have 1 to 25 letters or digits'],
+    [{ amount: 19.9 }, 'amount must be a positive integer in cents, received 19.9'],
+    [{ description: 'x'.repeat(100) }, 'Field 02 is longer than 99 characters'],
+  ])('rejects %o', (overrides, message) => {
+    const params = { key: 'pix@minhaloja.com.br', merchantName: 'Minha Loja', merchantCity: 'Recife', ...overrides }
+
+    expect(() => createPixCode(params)).toThrow(VaultixPixCodeError)
+    expect(() => createPixCode(params)).toThrow(message)
+  })
+})
+
+function withCrc(payload: string): string {
+  return `${payload}6304${pixCrc16(`${payload}6304`)}`
+}
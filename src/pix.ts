@@ -0,0 +1,313 @@
+/**
+ * Vaultix PIX
+ *
+ * Decode and build PIX BR Codes: the EMV QR payload behind the PIX
+ * "copia e cola" string and QR code
+ */
+
+import { VaultixPixCodeError } from './errors.js'
+import { Money } from './money.js'
+
+const PIX_GUI = 'br.gov.bcb.pix'
+
+/** Merchant account templates may use any ID from 26 to 51 */
+const MERCHANT_ACCOUNT_IDS = /^(2[6-9]|[34]\d|5[01])$/
+
+export interface PixCode {
+  /**
+   * - `static`: reusable, e.g. printed on signage (point of initiation `11`)
+   * - `dynamic`: single use, generated per charge (point of initiation `12`)
+   */
+  type: 'static' | 'dynamic'
+  /** Always `br.gov.bcb.pix` */
+  gui: string
+  /** PIX key of the receiver (static codes) */
+  key?: string
+  /** Message shown to the payer (static codes) */
+  description?: string
+  /** Location of the charge payload, without scheme (dynamic codes) */
+  url?: string
+  /** Amount in cents; absent when the payer chooses it */
+  amount?: number
+  /** ISO 4217 numeric code, `986` for BRL */
+  currency: string
+  merchantCategoryCode: string
+  countryCode: string
+  merchantName: string
+  merchantCity: string
+  postalCode?: string
+  /** Transaction ID; `***` when none was set */
+  txid?: string
+  /** CRC16 checksum, as four uppercase hex digits */
+  crc: string
+  /** Every top-level field by ID, e.g. `fields['54']` for the raw amount */
+  fields: Record<string, string>
+}
+
+export interface PixCodeCreateParams {
+  /** PIX key: CPF/CNPJ, email, phone (`+5511...`) or random key */
+  key: string
+  /** Amount in cents; omit to let the payer choose it */
+  amount?: number
+  /** Receiver name, up to 25 characters */
+  merchantName: string
+  /** Receiver city, up to 15 characters */
+  merchantCity: string
+  /** Transaction ID, up to 25 letters and digits (default `***`) */
+  txid?: string
+  /** Message shown to the payer */
+  description?: string
+  postalCode?: string
+  /** Merchant category code (default `0000`) */
+  merchantCategoryCode?: string
+}
+
+/**
+ * Decode a BR Code and verify its checksum
+ *
+ * Throws a `VaultixPixCodeError` if the code is malformed, has a wrong
+ * checksum or is not a PIX code.
+ *
+ * @example
+ * ```ts
+ * const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+ * const code = parsePixCode(charge.pix!.qr_code)
+ *
+ * assert.equal(code.amount, charge.amount)
+ * code.type         // 'dynamic'
+ * code.merchantName // 'MINHA LOJA'
+ * ```
+ */
+export function parsePixCode(code: string): PixCode {
+  const payload = code.trim()
+  const expected = payload.slice(-4).toUpperCase()
+
+  if (!/^[\dA-F]{4}$/.test(expected) || payload.slice(-8, -4) !== '6304') {
+    throw new VaultixPixCodeError('Not a BR Code: missing CRC field (6304) at the end', payload)
+  }
+
+  const actual = pixCrc16(payload.slice(0, -4))
+
+  if (actual !== expected) {
+    throw new VaultixPixCodeError(`Invalid BR Code checksum: expected ${actual}, found ${expected}`, payload)
+  }
+
+  const fields = readFields(payload, payload)
+  const accountId = Object.keys(fields).find(id => {
+    if (!MERCHANT_ACCOUNT_IDS.test(id)) return false
+    return readFields(fields[id], payload)['00']?.toLowerCase() === PIX_GUI
+  })
+
+  if (fields['00'] !== '01') {
+    throw new VaultixPixCodeError(`Unsupported payload format indicator: ${fields['00'] ?? '(missing)'}`, payload)
+  }
+
+  if (!accountId) {
+    throw new VaultixPixCodeError(`Not a PIX code: no merchant account with GUI ${PIX_GUI}`, payload)
+  }
+
+  for (const [id, name] of [['52', 'merchant category code'], ['53', 'currency'], ['58', 'country code'], ['59', 'merchant name'], ['60', 'merchant city']]) {
+    if (fields[id] === undefined) {
+      throw new VaultixPixCodeError(`Invalid BR Code: missing ${name} (field ${id})`, payload)
+    }
+  }
+
+  const account = readFields(fields[accountId], payload)
+  const additional = fields['62'] !== undefined ? readFields(fields['62'], payload) : {}
+
+  return {
+    type: fields['01'] === '12' || account['25'] !== undefined ? 'dynamic' : 'static',
+    gui: account['00'],
+    key: account['01'],
+    description: account['02'],
+    url: account['25'],
+    amount: fields['54'] !== undefined ? parseAmount(fields['54'], payload) : undefined,
+    currency: fields['53'],
+    merchantCategoryCode: fields['52'],
+    countryCode: fields['58'],
+    merchantName: fields['59'],
+    merchantCity: fields['60'],
+    postalCode: fields['61'],
+    txid: additional['05'],
+    crc: expected,
+    fields,
+  }
+}
+
+/**
+ * Whether a string is a well-formed PIX BR Code with a valid checksum
+ */
+export function isValidPixCode(code: string): boolean {
+  try {
+    parsePixCode(code)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Build a static BR Code for a PIX key
+ *
+ * Accents are stripped from the name, city and description, as the
+ * specification requires ASCII text.
+ *
+ * @example
+ * ```ts
+ * const code = createPixCode({
+ *   key: 'pix@minhaloja.com.br',
+ *   merchantName: 'Minha Loja',
+ *   merchantCity: 'São Paulo',
+ *   amount: 1990, // R$ 19,90; omit to let the payer choose
+ * })
+ *
+ * // Paste into any banking app, or render as a QR code for signage
+ * ```
+ */
+export function createPixCode(params: PixCodeCreateParams): string {
+  if (!params.key) {
+    throw new VaultixPixCodeError('A PIX key is required')
+  }
+
+  return encodePixCode({
+    type: 'static',
+    account: field('00', PIX_GUI) + field('01', params.key) +
+      (params.description ? field('02', ascii(params.description)) : ''),
+    amount: params.amount,
+    merchantName: params.merchantName,
+    merchantCity: params.merchantCity,
+    merchantCategoryCode: params.merchantCategoryCode,
+    postalCode: params.postalCode,
+    txid: params.txid,
+  })
+}
+
+/**
+ * Build a dynamic BR Code pointing at a charge payload URL (`url` without
+ * scheme), as PIX providers do for each charge
+ */
+export function createDynamicPixCode(
+  params: Omit<PixCodeCreateParams, 'key' | 'description'> & { url: string }
+): string {
+  if (!params.url) {
+    throw new VaultixPixCodeError('A payload URL is required')
+  }
+
+  return encodePixCode({
+    type: 'dynamic',
+    account: field('00', PIX_GUI) + field('25', params.url.replace(/^https?:\/\//, '')),
+    amount: params.amount,
+    merchantName: params.merchantName,
+    merchantCity: params.merchantCity,
+    merchantCategoryCode: params.merchantCategoryCode,
+    postalCode: params.postalCode,
+    txid: params.txid,
+  })
+}
+
+/**
+ * CRC16-CCITT (polynomial 0x1021, initial value 0xFFFF) over the UTF-8
+ * bytes of a payload, as four uppercase hex digits
+ */
+export function pixCrc16(payload: string): string {
+  let crc = 0xffff
+
+  for (const byte of Buffer.from(payload, 'utf8')) {
+    crc ^= byte << 8
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff
+    }
+  }
+
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+function encodePixCode(options: {
+  type: 'static' | 'dynamic'
+  account: string
+  amount?: number
+  merchantName: string
+  merchantCity: string
+  merchantCategoryCode?: string
+  postalCode?: string
+  txid?: string
+}): string {
+  const merchantName = ascii(options.merchantName ?? '')
+  const merchantCity = ascii(options.merchantCity ?? '')
+  const txid = options.txid ?? '***'
+
+  if (!merchantName || merchantName.length > 25) {
+    throw new VaultixPixCodeError('merchantName must have 1 to 25 characters')
+  }
+
+  if (!merchantCity || merchantCity.length > 15) {
+    throw new VaultixPixCodeError('merchantCity must have 1 to 15 characters')
+  }
+
+  if (txid !== '***' && !/^[a-zA-Z\d]{1,25}$/.test(txid)) {
+    throw new VaultixPixCodeError('txid must have 1 to 25 letters or digits')
+  }
+
+  if (options.amount !== undefined && (!Number.isInteger(options.amount) || options.amount <= 0)) {
+    throw new VaultixPixCodeError(`amount must be a positive integer in cents, received ${options.amount}`)
+  }
+
+  const payload = [
+    field('00', '01'),
+    field('01', options.type === 'dynamic' ? '12' : '11'),
+    field('26', options.account),
+    field('52', options.merchantCategoryCode ?? '0000'),
+    field('53', '986'),
+    options.amount !== undefined ? field('54', Money.fromCents(options.amount).toDecimal()) : '',
+    field('58', 'BR'),
+    field('59', merchantName),
+    field('60', merchantCity),
+    options.postalCode ? field('61', options.postalCode.replace(/\D/g, '')) : '',
+    field('62', field('05', txid)),
+    '6304',
+  ].join('')
+
+  return payload + pixCrc16(payload)
+}
+
+function field(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new VaultixPixCodeError(`Field ${id} is longer than 99 characters`)
+  }
+
+  return `${id}${String(value.length).padStart(2, '0')}${value}`
+}
+
+/**
+ * Read a sequence of ID-length-value fields
+ */
+function readFields(data: string, code: string): Record<string, string> {
+  const fields: Record<string, string> = {}
+  let offset = 0
+
+  while (offset < data.length) {
+    const id = data.slice(offset, offset + 2)
+    const length = Number(data.slice(offset + 2, offset + 4))
+
+    if (!/^\d{2}$/.test(id) || !/^\d{2}$/.test(data.slice(offset + 2, offset + 4)) || offset + 4 + length > data.length) {
+      throw new VaultixPixCodeError(`Invalid BR Code: malformed field at position ${offset}`, code)
+    }
+
+    fields[id] = data.slice(offset + 4, offset + 4 + length)
+    offset += 4 + length
+  }
+
+  return fields
+}
+
+function parseAmount(value: string, code: string): number {
+  if (!/^\d+(\.\d{1,2})?$/.test(value)) {
+    throw new VaultixPixCodeError(`Invalid BR Code amount: ${value}`, code)
+  }
+
+  return Money.fromDecimal(value).amount
+}
+
+function ascii(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '').trim()
+}
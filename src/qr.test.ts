@@ -0,0 +1,197 @@
+import { inflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { VaultixAPIError } from './errors.js'
+import { QrCode, renderQrCode, renderQrPng, renderQrSvg, renderQrTerminal } from './qr.js'
+import { createMockVaultix } from './testing/mock-server.js'
+import { Vaultix } from './vaultix.js'
+import type { QrErrorCorrectionLevel } from './qr.js'
+
+/** Format information by level and mask, from the specification (ISO/IEC 18004 table C.1) */
+const FORMAT_INFO: Record<QrErrorCorrectionLevel, string[]> = {
+  L: ['111011111000100', '111001011110011', '111110110101010', '111100010011101', '110011000101111', '110001100011000', '110110001000001', '110100101110110'],
+  M: ['101010000010010', '101000100100101', '101111001111100', '101101101001011', '100010111111001', '100000011001110', '100111110010111', '100101010100000'],
+  Q: ['011010101011111', '011000001101000', '011111100110001', '011101000000110', '010010010110100', '010000110000011', '010111011011010', '010101111101101'],
+  H: ['001011010001001', '001001110111110', '001110011100111', '001100111010000', '000011101100010', '000001001010101', '000110100001100', '000100000111011'],
+}
+
+/** The 15 format bits next to the top-left finder pattern, most significant first */
+function readFormatInfo(qr: QrCode): string {
+  const cells = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8],
+    [8, 8], [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ]
+  return cells.map(([x, y]) => (qr.isDark(x, y) ? '1' : '0')).join('')
+}
+
+/** The same bits, from the copy split between the other two finder patterns */
+function readFormatInfoCopy(qr: QrCode): string {
+  const bits: string[] = []
+  for (let i = 14; i >= 8; i--) bits.push(qr.isDark(8, qr.size - 15 + i) ? '1' : '0')
+  for (let i = 7; i >= 0; i--) bits.push(qr.isDark(qr.size - 1 - i, 8) ? '1' : '0')
+  return bits.join('')
+}
+
+function isFinderPattern(qr: QrCode, left: number, top: number): boolean {
+  for (let dy = 0; dy < 7; dy++) {
+    for (let dx = 0; dx < 7; dx++) {
+      const ring = Math.max(Math.abs(dx - 3), Math.abs(dy - 3))
+      if (qr.isDark(left + dx, top + dy) !== (ring !== 2)) return false
+    }
+  }
+  return true
+}
+
+const pixCode = '00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D'
+
+describe('QrCode', () => {
+  it.each([
+    ['a'.repeat(14), 'M', 1],
+    ['a'.repeat(15), 'M', 2],
+    ['a'.repeat(17), 'L', 1],
+    ['a'.repeat(7), 'H', 1],
+    ['a'.repeat(8), 'H', 2],
+    ['a'.repeat(2953), 'L', 40],
+  ] as const)('fits %# in the smallest version', (text, level, version) => {
+    const qr = QrCode.encode(text, { errorCorrectionLevel: level })
+
+    expect(qr.version).toBe(version)
+    expect(qr.size).toBe(17 + 4 * version)
+  })
+
+  it('counts UTF-8 bytes, not characters', () => {
+    expect(QrCode.encode('ã'.repeat(7)).version).toBe(1)
+    expect(QrCode.encode('ã'.repeat(8)).version).toBe(2)
+  })
+
+  it('rejects data that does not fit and unknown levels', () => {
+    expect(() => QrCode.encode('a'.repeat(2954), { errorCorrectionLevel: 'L' })).toThrow(RangeError)
+    expect(() => QrCode.encode('a', { errorCorrectionLevel: 'X' as QrErrorCorrectionLevel })).toThrow('Invalid error correction level: X')
+  })
+
+  it('draws the finder, timing and alignment patterns', () => {
+    const qr = QrCode.encode(pixCode)
+    const last = qr.size - 7
+
+    expect([isFinderPattern(qr, 0, 0), isFinderPattern(qr, last, 0), isFinderPattern(qr, 0, last)]).toEqual([true, true, true])
+    expect(isFinderPattern(qr, last, last)).toBe(false)
+
+    for (let i = 8; i < qr.size - 8; i++) {
+      expect(qr.isDark(i, 6)).toBe(i % 2 === 0)
+      expect(qr.isDark(6, i)).toBe(i % 2 === 0)
+    }
+
+    // Bottom-right alignment pattern: dark center and border, light ring
+    const center = qr.size - 7
+    expect(qr.isDark(center, center)).toBe(true)
+    expect(qr.isDark(center + 1, center)).toBe(false)
+    expect(qr.isDark(center + 2, center)).toBe(true)
+    expect(qr.isDark(8, qr.size - 8)).toBe(true) // always-dark module
+  })
+
+  it.each(['L', 'M', 'Q', 'H'] as const)('writes both copies of the format information at level %s', level => {
+    const qr = QrCode.encode(pixCode, { errorCorrectionLevel: level })
+
+    expect(readFormatInfo(qr)).toBe(FORMAT_INFO[level][qr.mask])
+    expect(readFormatInfoCopy(qr)).toBe(FORMAT_INFO[level][qr.mask])
+  })
+
+  it('writes the version information from version 7', () => {
+    const qr = QrCode.encode('a'.repeat(110), { errorCorrectionLevel: 'M' })
+    let bits = ''
+    for (let i = 17; i >= 0; i--) bits += qr.isDark(qr.size - 11 + (i % 3), Math.floor(i / 3)) ? '1' : '0'
+
+    expect(qr.version).toBe(7)
+    expect(bits).toBe('000111110010010100')
+  })
+
+  it('treats modules outside the symbol as light', () => {
+    const qr = QrCode.encode('a')
+    expect([qr.isDark(-1, 0), qr.isDark(0, qr.size)]).toEqual([false, false])
+  })
+})
+
+describe('renderers', () => {
+  it('renders SVG with a quiet zone', () => {
+    const qr = QrCode.encode(pixCode)
+    const total = qr.size + 8
+    const svg = renderQrSvg(pixCode, { size: 256, color: '#123456', background: 'transparent' })
+
+    expect(svg).toMatch(new RegExp(`^<svg [^>]*viewBox="0 0 ${total} ${total}" width="256" height="256"`))
+    expect(svg).toContain('<rect width="' + total + '" height="' + total + '" fill="transparent"/>')
+    expect(svg).toContain('fill="#123456" d="M4 4h7v1h-7z')
+  })
+
+  it('escapes colors in SVG attributes', () => {
+    expect(renderQrSvg('a', { color: '"><script>' })).not.toContain('<script>')
+  })
+
+  it('renders a 1-bit PNG at a whole number of pixels per module', () => {
+    const qr = QrCode.encode(pixCode)
+    const total = qr.size + 8
+    const png = renderQrPng(pixCode, { size: 300 })
+    const scale = Math.floor(300 / total)
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+    expect(png.toString('ascii', 12, 16)).toBe('IHDR')
+    expect(png.readUInt32BE(16)).toBe(total * scale)
+    expect(png.readUInt32BE(20)).toBe(total * scale)
+    expect([png[24], png[25]]).toEqual([1, 3])
+
+    // The first dark pixel is the corner of the top-left finder pattern
+    const idat = png.indexOf('IDAT')
+    const raw = inflateSync(png.subarray(idat + 4, idat + 4 + png.readUInt32BE(idat - 4)))
+    const rowBytes = Math.ceil((total * scale) / 8) + 1
+    const pixel = (px: number, py: number) => (raw[py * rowBytes + 1 + (px >>> 3)] >>> (7 - (px & 7))) & 1
+
+    expect(pixel(4 * scale - 1, 4 * scale)).toBe(0)
+    expect(pixel(4 * scale, 4 * scale)).toBe(1)
+  })
+
+  it('rejects PNG colors that are not hex', () => {
+    expect(() => renderQrPng('a', { color: 'red' })).toThrow()
+  })
+
+  it('renders half blocks and ASCII for terminals', () => {
+    const qr = QrCode.encode(pixCode)
+    const total = qr.size + 4
+    const blocks = renderQrTerminal(pixCode).split('\n')
+    const ascii = renderQrTerminal(pixCode, { style: 'ascii', margin: 0 }).split('\n')
+
+    expect(blocks).toHaveLength(Math.ceil(total / 2))
+    expect(blocks.every(line => [...line].length === total)).toBe(true)
+    expect(blocks[0]).toBe('█'.repeat(total))
+    expect(ascii).toHaveLength(qr.size)
+    expect(ascii[0].startsWith('##############  ')).toBe(true)
+    expect(renderQrTerminal(pixCode, { invert: true }).split('\n')[0]).toBe(' '.repeat(total))
+  })
+
+  it('dispatches on the format', () => {
+    expect(renderQrCode('a', 'svg')).toBe(renderQrSvg('a'))
+    expect(Buffer.isBuffer(renderQrCode('a', 'png'))).toBe(true)
+    expect(() => renderQrCode('a', 'gif' as 'svg')).toThrow('Unsupported QR image format: gif')
+  })
+})
+
+describe('charges.createWithQrCode', () => {
+  it('creates a PIX charge and renders its code', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const { charge, qrCode } = await vaultix.charges.createWithQrCode({ amount: 5000 }, { format: 'png', size: 200 })
+
+    expect(charge.payment_method).toBe('pix')
+    expect(qrCode).toEqual(renderQrPng(charge.pix.qr_code, { size: 200 }))
+  })
+
+  it('throws a VaultixAPIError when the charge has no PIX code', async () => {
+    const vaultix = new Vaultix({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      fetch: async () => Response.json({ id: 'ch_1', object: 'charge', payment_method: 'pix', status: 'pending' }, { headers: { 'x-request-id': 'req_1' } }),
+    })
+
+    const error = await vaultix.charges.createWithQrCode({ amount: 5000 }).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixAPIError)
+    expect(error).toMatchObject({ code: 'invalid_response', message: 'Charge ch_1 has no PIX code to render', requestId: 'req_1' })
+  })
+})
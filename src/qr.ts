@@ -0,0 +1,644 @@
+/**
+ * Vaultix QR
+ *
+ * Dependency-free QR code encoder with SVG, PNG and terminal renderers,
+ * for showing PIX codes offline
+ */
+
+import { deflateSync } from 'node:zlib'
+
+export type QrErrorCorrectionLevel = 'L' | 'M' | 'Q' | 'H'
+
+export type QrImageFormat = 'svg' | 'png' | 'terminal'
+
+/** Rendered image: a `Buffer` for PNG, a string otherwise */
+export type QrImage<F extends QrImageFormat> = F extends 'png' ? Buffer : string
+
+export interface QrCodeOptions {
+  /**
+   * Share of the code that can be damaged and still scan: `L` 7%, `M` 15%,
+   * `Q` 25%, `H` 30% (default `M`). Higher levels make denser codes.
+   */
+  errorCorrectionLevel?: QrErrorCorrectionLevel
+}
+
+export interface QrRenderOptions extends QrCodeOptions {
+  /** Quiet zone around the code, in modules (default 4, the minimum most scanners need) */
+  margin?: number
+  /**
+   * Width and height of the image in pixels (default 8 pixels per module).
+   * PNG images are rounded down to a whole number of pixels per module.
+   * Ignored by the terminal renderer.
+   */
+  size?: number
+  /** Color of dark modules (default `#000000`; PNG only accepts hex colors) */
+  color?: string
+  /** Color of light modules and the margin (default `#ffffff`) */
+  background?: string
+}
+
+export interface QrTerminalOptions extends QrCodeOptions {
+  /** Quiet zone around the code, in modules (default 2) */
+  margin?: number
+  /**
+   * - `blocks`: half-block characters, two modules per line (default)
+   * - `ascii`: `##` for dark modules, one module per line
+   */
+  style?: 'blocks' | 'ascii'
+  /** Swap dark and light, for terminals with a light background (blocks only) */
+  invert?: boolean
+}
+
+/** Error correction codewords per block, by level and version (index 0 unused) */
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+}
+
+/** Error correction blocks, by level and version (index 0 unused) */
+const ECC_BLOCKS: Record<QrErrorCorrectionLevel, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+}
+
+/** Two-bit level indicator stored in the format information */
+const FORMAT_BITS: Record<QrErrorCorrectionLevel, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+/**
+ * A QR code symbol, encoded in byte mode with the smallest version that
+ * fits the data and the best-scoring mask
+ *
+ * @example
+ * ```ts
+ * const qr = QrCode.encode(charge.pix!.qr_code, { errorCorrectionLevel: 'Q' })
+ *
+ * for (let y = 0; y < qr.size; y++) {
+ *   for (let x = 0; x < qr.size; x++) {
+ *     if (qr.isDark(x, y)) drawSquare(x, y)
+ *   }
+ * }
+ * ```
+ */
+export class QrCode {
+  /** Width and height in modules */
+  readonly size: number
+  /** Mask pattern applied to the data, 0 to 7 */
+  readonly mask: number
+  private readonly modules: boolean[][]
+  private readonly reserved: boolean[][]
+
+  private constructor(
+    /** 1 to 40 */
+    readonly version: number,
+    readonly errorCorrectionLevel: QrErrorCorrectionLevel,
+    codewords: number[]
+  ) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => Array<boolean>(this.size).fill(false))
+
+    this.drawFunctionPatterns()
+    this.drawCodewords(codewords)
+
+    let lowest = Infinity
+
+    for (let candidate = 0; candidate < MASKS.length; candidate++) {
+      this.applyMask(candidate)
+      this.drawFormatBits(candidate)
+      const penalty = this.penalty()
+      if (penalty < lowest) {
+        lowest = penalty
+        this.mask = candidate
+      }
+      this.applyMask(candidate)
+    }
+
+    this.applyMask(this.mask)
+    this.drawFormatBits(this.mask)
+  }
+
+  /**
+   * Encode text (as UTF-8) into a QR code
+   *
+   * Throws a `RangeError` if the text does not fit in a version 40 code at
+   * the requested error correction level.
+   */
+  static encode(text: string, options: QrCodeOptions = {}): QrCode {
+    const level = options.errorCorrectionLevel ?? 'M'
+    const data = Buffer.from(text, 'utf8')
+
+    if (!(level in ECC_BLOCKS)) {
+      throw new RangeError(`Invalid error correction level: ${level}`)
+    }
+
+    for (let version = 1; version <= 40; version++) {
+      const countBits = version <= 9 ? 8 : 16
+      const capacity = dataCodewords(version, level) * 8
+      const used = 4 + countBits + data.length * 8
+
+      if (data.length < 2 ** countBits && used <= capacity) {
+        const bits: number[] = []
+        pushBits(bits, 0b0100, 4)
+        pushBits(bits, data.length, countBits)
+        for (const byte of data) pushBits(bits, byte, 8)
+
+        // Terminator, then pad to a byte boundary and fill with alternating pad bytes
+        pushBits(bits, 0, Math.min(4, capacity - bits.length))
+        pushBits(bits, 0, (8 - (bits.length % 8)) % 8)
+        for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) pushBits(bits, pad, 8)
+
+        const codewords: number[] = []
+        for (let i = 0; i < bits.length; i += 8) {
+          codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+        }
+
+        return new QrCode(version, level, addErrorCorrection(codewords, version, level))
+      }
+    }
+
+    throw new RangeError(`Data too long for a QR code (${data.length} bytes at level ${level})`)
+  }
+
+  /** Whether the module at column `x`, row `y` is dark; out of range is light */
+  isDark(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.size && y < this.size && this.modules[y][x]
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark
+    this.reserved[y][x] = true
+  }
+
+  private drawFunctionPatterns(): void {
+    const size = this.size
+
+    for (let i = 0; i < size; i++) {
+      this.set(6, i, i % 2 === 0)
+      this.set(i, 6, i % 2 === 0)
+    }
+
+    for (const [cx, cy] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx
+          const y = cy + dy
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          if (x >= 0 && y >= 0 && x < size && y < size) this.set(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+
+    const positions = alignmentPositions(this.version)
+    const last = positions.length - 1
+
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+      // Skip the three corners taken by finder patterns
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          this.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    }))
+
+    // Reserve the format areas now; the real bits are drawn once the mask is known
+    this.drawFormatBits(0)
+
+    if (this.version >= 7) {
+      let remainder = this.version
+      for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+      const bits = (this.version << 12) | remainder
+
+      for (let i = 0; i < 18; i++) {
+        const dark = ((bits >>> i) & 1) === 1
+        const a = size - 11 + (i % 3)
+        const b = Math.floor(i / 3)
+        this.set(a, b, dark)
+        this.set(b, a, dark)
+      }
+    }
+  }
+
+  private drawFormatBits(mask: number): void {
+    const data = (FORMAT_BITS[this.errorCorrectionLevel] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) === 1
+    const size = this.size
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i))
+    this.set(8, 7, bit(6))
+    this.set(8, 8, bit(7))
+    this.set(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.set(size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.set(8, size - 15 + i, bit(i))
+    this.set(8, size - 8, true)
+  }
+
+  /**
+   * Place the codewords in the zigzag order: two-module columns from the
+   * right, alternating upwards and downwards, skipping the timing column
+   */
+  private drawCodewords(codewords: number[]): void {
+    let i = 0
+
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+
+          if (!this.reserved[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  /** XOR the data modules with a mask; applying it twice undoes it */
+  private applyMask(mask: number): void {
+    const invert = MASKS[mask]
+
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && invert(x, y)) this.modules[y][x] = !this.modules[y][x]
+      }
+    }
+  }
+
+  /**
+   * Penalty score from the specification's four rules; the mask with the
+   * lowest score is the easiest to scan
+   */
+  private penalty(): number {
+    const size = this.size
+    let penalty = 0
+    let dark = 0
+
+    const lines: boolean[][] = []
+    for (let i = 0; i < size; i++) {
+      lines.push(this.modules[i])
+      lines.push(this.modules.map(row => row[i]))
+    }
+
+    for (const line of lines) {
+      // Rule 1: runs of five or more modules of the same color
+      let run = 1
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++
+        } else {
+          if (run >= 5) penalty += run - 2
+          run = 1
+        }
+      }
+
+      // Rule 3: finder-like 1:1:3:1:1 patterns next to four light modules
+      for (let i = 0; i + 7 <= size; i++) {
+        if (!FINDER_LIKE.every((value, k) => line[i + k] === value)) continue
+
+        const lightBefore = [1, 2, 3, 4].every(k => !line[i - k])
+        const lightAfter = [7, 8, 9, 10].every(k => !line[i + k])
+        if (lightBefore || lightAfter) penalty += 40
+      }
+    }
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const color = this.modules[y][x]
+        if (color) dark++
+
+        // Rule 2: 2×2 blocks of the same color
+        if (x < size - 1 && y < size - 1 &&
+          color === this.modules[y][x + 1] && color === this.modules[y + 1][x] && color === this.modules[y + 1][x + 1]) {
+          penalty += 3
+        }
+      }
+    }
+
+    // Rule 4: imbalance between dark and light modules, in steps of 5%
+    const total = size * size
+    penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+    return penalty
+  }
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true]
+
+/**
+ * Render text as an SVG image
+ *
+ * @example
+ * ```ts
+ * const svg = renderQrSvg(charge.pix!.qr_code, { size: 256 })
+ * html += `<img alt="PIX QR code" src="data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}">`
+ * ```
+ */
+export function renderQrSvg(text: string, options: QrRenderOptions = {}): string {
+  const qr = QrCode.encode(text, options)
+  const margin = options.margin ?? 4
+  const total = qr.size + margin * 2
+  const size = options.size ?? total * 8
+  const path: string[] = []
+
+  for (let y = 0; y < qr.size; y++) {
+    for (let x = 0; x < qr.size; x++) {
+      if (!qr.isDark(x, y)) continue
+
+      let run = 1
+      while (qr.isDark(x + run, y)) run++
+      path.push(`M${x + margin} ${y + margin}h${run}v1h-${run}z`)
+      x += run - 1
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${total} ${total}" width="${size}" height="${size}" shape-rendering="crispEdges">`,
+    `<rect width="${total}" height="${total}" fill="${escapeAttribute(options.background ?? '#ffffff')}"/>`,
+    `<path fill="${escapeAttribute(options.color ?? '#000000')}" d="${path.join('')}"/>`,
+    '</svg>',
+  ].join('')
+}
+
+/**
+ * Render text as a PNG image
+ *
+ * @example
+ * ```ts
+ * const png = renderQrPng(charge.pix!.qr_code, { size: 300 })
+ * await writeFile('pix.png', png)
+ * // or attach to an email: { filename: 'pix.png', content: png, cid: 'pix' }
+ * ```
+ */
+export function renderQrPng(text: string, options: QrRenderOptions = {}): Buffer {
+  const qr = QrCode.encode(text, options)
+  const margin = options.margin ?? 4
+  const total = qr.size + margin * 2
+  const scale = options.size !== undefined ? Math.max(1, Math.floor(options.size / total)) : 8
+  const width = total * scale
+  const rowBytes = Math.ceil(width / 8)
+
+  // One filter byte (0, none) per row, then 1-bit palette indexes: 0 light, 1 dark
+  const raw = Buffer.alloc((rowBytes + 1) * width)
+
+  for (let py = 0; py < width; py++) {
+    const offset = py * (rowBytes + 1) + 1
+    const y = Math.floor(py / scale) - margin
+
+    for (let px = 0; px < width; px++) {
+      if (qr.isDark(Math.floor(px / scale) - margin, y)) {
+        raw[offset + (px >>> 3)] |= 0x80 >>> (px & 7)
+      }
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(width, 4)
+  header[8] = 1 // bit depth
+  header[9] = 3 // indexed color
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('PLTE', Buffer.concat([parseHexColor(options.background ?? '#ffffff'), parseHexColor(options.color ?? '#000000')])),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ])
+}
+
+/**
+ * Render text for a terminal
+ *
+ * @example
+ * ```ts
+ * console.log(renderQrTerminal(charge.pix!.qr_code))
+ * ```
+ */
+export function renderQrTerminal(text: string, options: QrTerminalOptions = {}): string {
+  const qr = QrCode.encode(text, options)
+  const margin = options.margin ?? 2
+  const start = -margin
+  const end = qr.size + margin
+  const lines: string[] = []
+
+  if (options.style === 'ascii') {
+    for (let y = start; y < end; y++) {
+      let line = ''
+      for (let x = start; x < end; x++) line += qr.isDark(x, y) ? '##' : '  '
+      lines.push(line)
+    }
+
+    return lines.join('\n')
+  }
+
+  // Terminals draw light text on a dark background, so glyphs paint the light modules
+  const lit = (x: number, y: number) => y < end && qr.isDark(x, y) === !!options.invert
+
+  for (let y = start; y < end; y += 2) {
+    let line = ''
+    for (let x = start; x < end; x++) {
+      const top = lit(x, y)
+      const bottom = lit(x, y + 1)
+      line += top && bottom ? '█' : top ? '▀' : bottom ? '▄' : ' '
+    }
+    lines.push(line)
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Render text in any supported format
+ */
+export function renderQrCode<F extends QrImageFormat>(
+  text: string,
+  format: F,
+  options: QrRenderOptions & QrTerminalOptions = {}
+): QrImage<F> {
+  switch (format) {
+    case 'svg':
+      return renderQrSvg(text, options) as QrImage<F>
+    case 'png':
+      return renderQrPng(text, options) as QrImage<F>
+    case 'terminal':
+      return renderQrTerminal(text, options) as QrImage<F>
+    default:
+      throw new RangeError(`Unsupported QR image format: ${format}`)
+  }
+}
+
+function pushBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+}
+
+/** Modules available for data and error correction, in bits */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2
+    result -= (25 * alignments - 10) * alignments - 55
+    if (version >= 7) result -= 36
+  }
+
+  return result
+}
+
+function dataCodewords(version: number, level: QrErrorCorrectionLevel): number {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[level][version] * ECC_BLOCKS[level][version]
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+
+  const count = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2
+  const positions = [6]
+
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+
+  return positions
+}
+
+/**
+ * Split data into blocks, append Reed-Solomon error correction to each and
+ * interleave them
+ */
+function addErrorCorrection(data: number[], version: number, level: QrErrorCorrectionLevel): number[] {
+  const blockCount = ECC_BLOCKS[level][version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[level][version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlocks = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1))
+    offset += block.length
+    const ecc = reedSolomonRemainder(block, divisor)
+    if (i < shortBlocks) block.push(0)
+    blocks.push([...block, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where long blocks have one more data codeword
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i])
+    })
+  }
+
+  return result
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < degree) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = Array<number>(divisor.length).fill(0)
+
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+
+  return result
+}
+
+/** Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+
+  return z
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(data.length + 12)
+  chunk.writeUInt32BE(data.length, 0)
+  chunk.write(type, 4, 'ascii')
+  data.copy(chunk, 8)
+  chunk.writeUInt32BE(crc32(chunk.subarray(4, data.length + 8)), data.length + 8)
+  return chunk
+}
+
+let crcTable: Uint32Array | undefined
+
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function parseHexColor(color: string): Buffer {
+  const match = /^#?([\da-f]{3}|[\da-f]{6})$/i.exec(color)
+
+  if (!match) {
+    throw new RangeError(`PNG colors must be hex, e.g. #1a1a1a; received ${color}`)
+  }
+
+  const hex = match[1].length === 3 ? [...match[1]].map(char => char + char).join('') : match[1]
+  return Buffer.from(hex, 'hex')
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+}
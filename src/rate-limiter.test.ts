@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VaultixClient } from './client.js'
+import { RateLimiter } from './rate-limiter.js'
+
+/** Acquire a slot and track whether it was granted yet */
+function track(limiter: RateLimiter, signal?: AbortSignal) {
+  const slot = { granted: false, release: undefined as (() => void) | undefined, error: undefined as unknown }
+
+  limiter.acquire(signal).then(
+    release => {
+      slot.granted = true
+      slot.release = release
+    },
+    error => {
+      slot.error = error
+    }
+  )
+
+  return slot
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('allows a burst, then spaces requests at the configured rate', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, burst: 2 })
+    const slots = [track(limiter), track(limiter), track(limiter)]
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect(slots.map(slot => slot.granted)).toEqual([true, true, false])
+    expect(limiter.stats.queued).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(slots[2].granted).toBe(true)
+  })
+
+  it('limits concurrency until a slot is released', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 })
+    const first = track(limiter)
+    const second = track(limiter)
+
+    await vi.advanceTimersByTimeAsync(0)
+    expect([first.granted, second.granted]).toEqual([true, false])
+    expect(limiter.stats.active).toBe(1)
+
+    first.release!()
+    first.release!() // releasing twice frees one slot only
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(second.granted).toBe(true)
+    expect(limiter.stats.active).toBe(1)
+  })
+
+  it('drops a queued request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 })
+    const controller = new AbortController()
+    const reason = new Error('aborted')
+
+    track(limiter)
+    const queued = track(limiter, controller.signal)
+
+    controller.abort(reason)
+    await vi.advanceTimersByTimeAsync(0)
+
+    expect(queued.error).toBe(reason)
+    expect(limiter.stats.queued).toBe(0)
+  })
+
+  it('pauses after a 429 for the Retry-After delay', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100 })
+    limiter.update(429, { 'retry-after': '2' })
+
+    expect(limiter.stats.pausedUntil).toEqual(new Date('2026-01-01T00:00:02Z'))
+
+    const slot = track(limiter)
+    await vi.advanceTimersByTimeAsync(1_999)
+    expect(slot.granted).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(1)
+    expect(slot.granted).toBe(true)
+  })
+
+  it('pauses until x-ratelimit-reset when no requests remain', () => {
+    const limiter = new RateLimiter({})
+
+    limiter.update(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '5' })
+    expect(limiter.stats.pausedUntil).toEqual(new Date('2026-01-01T00:00:05Z'))
+
+    const epoch = Date.parse('2026-01-01T00:00:30Z') / 1000
+    limiter.update(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(epoch) })
+    expect(limiter.stats.pausedUntil).toEqual(new Date('2026-01-01T00:00:30Z'))
+  })
+
+  it('ignores rate limit headers when adaptive is false', () => {
+    const limiter = new RateLimiter({ adaptive: false })
+    limiter.update(429, { 'retry-after': '10' })
+
+    expect(limiter.stats.pausedUntil).toBeUndefined()
+  })
+})
+
+describe('client rate limiting', () => {
+  it('never runs more than maxConcurrency requests at once', async () => {
+    let inFlight = 0
+    let peak = 0
+
+    const client = new VaultixClient({
+      secretKey: 'sk_test_123',
+      logLevel: 'silent',
+      rateLimit: { maxConcurrency: 2 },
+      fetch: async () => {
+        peak = Math.max(peak, ++inFlight)
+        await new Promise(resolve => setTimeout(resolve, 5))
+        inFlight--
+        return Response.json({ object: 'balance' })
+      },
+    })
+
+    await Promise.all(Array.from({ length: 6 }, () => client.get('/v1/balance')))
+
+    expect(peak).toBe(2)
+    expect(client.rateLimiterStats).toMatchObject({ queued: 0, active: 0 })
+  })
+})
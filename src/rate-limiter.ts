@@ -0,0 +1,160 @@
+/**
+ * Vaultix Rate Limiter
+ *
+ * Client-side token bucket and concurrency queue shared by every request
+ * made through one client
+ */
+
+import type { RateLimitOptions, RateLimiterStats } from './types.js'
+
+interface Waiter {
+  resolve: (release: () => void) => void
+  reject: (reason: unknown) => void
+}
+
+export class RateLimiter {
+  private readonly requestsPerSecond: number
+  private readonly burst: number
+  private readonly maxConcurrency: number
+  private readonly adaptive: boolean
+
+  private tokens: number
+  private lastRefill = Date.now()
+  private active = 0
+  private pausedUntil = 0
+  private timer?: ReturnType<typeof setTimeout>
+  private readonly queue: Waiter[] = []
+
+  constructor(options: RateLimitOptions) {
+    this.requestsPerSecond = options.requestsPerSecond ?? Infinity
+    this.burst = options.burst ?? (Number.isFinite(this.requestsPerSecond) ? Math.max(1, this.requestsPerSecond) : Infinity)
+    this.maxConcurrency = options.maxConcurrency ?? Infinity
+    this.adaptive = options.adaptive ?? true
+    this.tokens = this.burst
+  }
+
+  /**
+   * Wait for a free slot; resolves with a function that releases it
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject }
+
+      if (signal) {
+        const onAbort = () => {
+          const index = this.queue.indexOf(waiter)
+          if (index !== -1) {
+            this.queue.splice(index, 1)
+            reject(signal.reason)
+          }
+        }
+
+        signal.addEventListener('abort', onAbort, { once: true })
+        waiter.resolve = release => {
+          signal.removeEventListener('abort', onAbort)
+          resolve(release)
+        }
+      }
+
+      this.queue.push(waiter)
+      this.pump()
+    })
+  }
+
+  /**
+   * Adapt to the rate-limit headers of a response
+   *
+   * Pauses the queue when the server reports the limit is exhausted
+   * (`x-ratelimit-remaining: 0`) or answers 429 with `Retry-After`.
+   */
+  update(status: number, headers: Record<string, string>): void {
+    if (!this.adaptive) return
+
+    let pauseMs = 0
+
+    if (headers['x-ratelimit-remaining'] === '0') {
+      pauseMs = this.parseReset(headers['x-ratelimit-reset'])
+    }
+
+    if (status === 429) {
+      const retryAfter = Number(headers['retry-after'])
+      pauseMs = Math.max(pauseMs, Number.isFinite(retryAfter) ? retryAfter * 1000 : 1000)
+    }
+
+    if (pauseMs > 0) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs)
+    }
+  }
+
+  get stats(): RateLimiterStats {
+    this.refill()
+
+    return {
+      queued: this.queue.length,
+      active: this.active,
+      availableTokens: Number.isFinite(this.tokens) ? Math.floor(this.tokens) : Infinity,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : undefined,
+    }
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.active < this.maxConcurrency) {
+      const now = Date.now()
+
+      if (this.pausedUntil > now) {
+        this.schedule(this.pausedUntil - now)
+        return
+      }
+
+      this.refill()
+
+      if (this.tokens < 1) {
+        this.schedule(Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000))
+        return
+      }
+
+      this.tokens -= 1
+      this.active += 1
+
+      const waiter = this.queue.shift()!
+      let released = false
+
+      waiter.resolve(() => {
+        if (released) return
+        released = true
+        this.active -= 1
+        this.pump()
+      })
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+
+    if (Number.isFinite(this.requestsPerSecond)) {
+      const elapsed = (now - this.lastRefill) / 1000
+      this.tokens = Math.min(this.burst, this.tokens + elapsed * this.requestsPerSecond)
+    }
+
+    this.lastRefill = now
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) return
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.pump()
+    }, Math.max(delay, 1))
+  }
+
+  /**
+   * `x-ratelimit-reset` may be a Unix timestamp or a number of seconds
+   */
+  private parseReset(value?: string): number {
+    const reset = Number(value)
+    if (!Number.isFinite(reset) || reset <= 0) return 1000
+
+    return reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { REDACTED, redactBody, redactHeaders } from './redact.js'
+
+describe('redactHeaders', () => {
+  it('hides credentials whatever their case', () => {
+    expect(redactHeaders({
+      Authorization: 'Bearer sk_live_123',
+      cookie: 'session=abc',
+      'Set-Cookie': 'session=abc',
+      'Content-Type': 'application/json',
+    })).toEqual({
+      Authorization: REDACTED,
+      cookie: REDACTED,
+      'Set-Cookie': REDACTED,
+      'Content-Type': 'application/json',
+    })
+  })
+})
+
+describe('redactBody', () => {
+  it('masks card numbers and hides CVCs', () => {
+    expect(redactBody({
+      card: { number: '4242 4242 4242 4242', exp_month: 12, exp_year: 2030, cvc: '123' },
+    })).toEqual({
+      card: { number: '************4242', exp_month: 12, exp_year: 2030, cvc: REDACTED },
+    })
+  })
+
+  it('hides documents and bank details at any depth', () => {
+    expect(redactBody({
+      amount: 5000,
+      customer: { name: 'Maria', document: '12345678909' },
+      destination: { pix_key: 'maria@email.com', bank_code: '001', branch: '1234', account: '12345-6', holder_document: '12345678909' },
+    })).toEqual({
+      amount: 5000,
+      customer: { name: 'Maria', document: REDACTED },
+      destination: { pix_key: REDACTED, bank_code: REDACTED, branch: REDACTED, account: REDACTED, holder_document: REDACTED },
+    })
+  })
+
+  it('redacts objects inside arrays', () => {
+    expect(redactBody({ data: [{ id: 'cus_1', document: '12345678909' }] }))
+      .toEqual({ data: [{ id: 'cus_1', document: REDACTED }] })
+  })
+
+  it('only masks number fields of a card', () => {
+    expect(redactBody({ address: { number: '123' }, card: { number: '42' } }))
+      .toEqual({ address: { number: '123' }, card: { number: REDACTED } })
+  })
+
+  it('keeps empty sensitive fields and scalars as they are', () => {
+    expect(redactBody({ document: null, cvc: undefined })).toEqual({ document: null, cvc: undefined })
+    expect(redactBody('text')).toBe('text')
+    expect(redactBody(undefined)).toBeUndefined()
+  })
+
+  it('does not modify its input', () => {
+    const body = { card: { number: '4242424242424242', cvc: '123' } }
+    redactBody(body)
+
+    expect(body.card).toEqual({ number: '4242424242424242', cvc: '123' })
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Vaultix Redaction
+ *
+ * Strip secrets, card data and personal documents before anything is
+ * written to logs or fixtures
+ */
+
+export const REDACTED = '[REDACTED]'
+
+/** Headers whose values are never logged */
+const SENSITIVE_HEADERS = new Set(['authorization', 'cookie', 'set-cookie'])
+
+/** Body fields whose values are never logged, wherever they appear */
+const SENSITIVE_FIELDS = new Set([
+  'cvc',
+  'document',
+  'holder_document',
+  'pix_key',
+  'bank_code',
+  'branch',
+  'account',
+])
+
+/**
+ * Redact sensitive headers
+ */
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {}
+
+  for (const [key, value] of Object.entries(headers)) {
+    result[key] = SENSITIVE_HEADERS.has(key.toLowerCase()) ? REDACTED : value
+  }
+
+  return result
+}
+
+/**
+ * Deep-copy a request or response body with sensitive fields redacted
+ *
+ * Card numbers keep only their last four digits.
+ */
+export function redactBody(value: unknown, parentKey?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => redactBody(item, parentKey))
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+
+  for (const [key, field] of Object.entries(value)) {
+    if (SENSITIVE_FIELDS.has(key) && field !== undefined && field !== null) {
+      result[key] = REDACTED
+    } else if (key === 'number' && parentKey === 'card' && typeof field === 'string') {
+      result[key] = maskCardNumber(field)
+    } else {
+      result[key] = redactBody(field, key)
+    }
+  }
+
+  return result
+}
+
+function maskCardNumber(number: string): string {
+  const digits = number.replace(/\D/g, '')
+  return digits.length > 4 ? `${'*'.repeat(digits.length - 4)}${digits.slice(-4)}` : REDACTED
+}
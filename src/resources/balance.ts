@@ -5,11 +5,13 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import type { PagePromise } from '../pagination.js'
 import type {
   Balance,
   BalanceTransaction,
   BalanceTransactionListParams,
-  ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class BalanceResource {
@@ -22,12 +24,12 @@ export class BalanceResource {
    * ```ts
    * const balance = await vaultix.balance.retrieve()
    *
-   * console.log('Available:', balance.available[0].amount / 100)
-   * console.log('Pending:', balance.pending[0].amount / 100)
+   * console.log('Available:', Money.from(balance.available[0]).format()) // 'R$ 1.234,56'
+   * console.log('Pending:', Money.from(balance.pending[0]).format())
    * ```
    */
-  async retrieve(): Promise<Balance> {
-    return this.client.get<Balance>('/v1/balance')
+  async retrieve(options?: RequestOptions): Promise<VaultixResponse<Balance>> {
+    return this.client.get<Balance>('/v1/balance', undefined, options)
   }
 
   /**
@@ -41,11 +43,11 @@ export class BalanceResource {
    * })
    *
    * for (const tx of transactions.data) {
-   *   console.log(tx.type, tx.amount / 100)
+   *   console.log(tx.type, formatMoney(tx.amount))
    * }
    * ```
    */
-  async listTransactions(params?: BalanceTransactionListParams): Promise<ListResponse<BalanceTransaction>> {
-    return this.client.get<ListResponse<BalanceTransaction>>('/v1/balance/transactions', params)
+  listTransactions(params?: BalanceTransactionListParams, options?: RequestOptions): PagePromise<BalanceTransaction> {
+    return this.client.getList<BalanceTransaction>('/v1/balance/transactions', params, options)
   }
 }
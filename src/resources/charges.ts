@@ -5,11 +5,17 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import { checkDocumentParam } from '../documents.js'
+import { VaultixAPIError } from '../errors.js'
+import type { PagePromise } from '../pagination.js'
+import { renderQrCode } from '../qr.js'
+import type { QrImage, QrImageFormat, QrRenderOptions, QrTerminalOptions } from '../qr.js'
 import type {
   Charge,
   ChargeCreateParams,
   ChargeListParams,
-  ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class Charges {
@@ -32,8 +38,54 @@ export class Charges {
    * console.log(charge.pix?.qr_code)
    * ```
    */
-  async create(params: ChargeCreateParams): Promise<Charge> {
-    return this.client.post<Charge>('/v1/charges', params)
+  async create(params: ChargeCreateParams, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    if (this.client.validateDocuments) {
+      params = checkDocumentParam(params, ['customer', 'document'])
+    }
+
+    return this.client.post<Charge>('/v1/charges', params, options)
+  }
+
+  /**
+   * Create a PIX charge and render its QR code locally, without fetching
+   * `pix.qr_code_url`
+   *
+   * Throws a `VaultixAPIError` with code `invalid_response` if the created
+   * charge has no PIX code.
+   *
+   * @example
+   * ```ts
+   * const { charge, qrCode } = await vaultix.charges.createWithQrCode(
+   *   { amount: 5000 },
+   *   { format: 'png', size: 300 },
+   * )
+   *
+   * await sendReceipt(customer.email, { attachments: [{ filename: 'pix.png', content: qrCode }] })
+   * ```
+   */
+  async createWithQrCode<F extends QrImageFormat = 'svg'>(
+    params: Omit<ChargeCreateParams, 'payment_method'> & { payment_method?: 'pix' },
+    qrCode: QrRenderOptions & QrTerminalOptions & { format?: F } = {},
+    options?: RequestOptions
+  ): Promise<{ charge: VaultixResponse<Charge>; qrCode: QrImage<F> }> {
+    const charge = await this.create({ ...params, payment_method: 'pix' }, options)
+
+    if (!charge.pix?.qr_code) {
+      throw new VaultixAPIError({
+        type: 'api_error',
+        code: 'invalid_response',
+        message: `Charge ${charge.id} has no PIX code to render`,
+      }, charge.lastResponse?.status, {
+        requestId: charge.lastResponse?.requestId,
+        headers: charge.lastResponse?.headers,
+        attempts: charge.lastResponse?.attempts,
+      })
+    }
+
+    return {
+      charge,
+      qrCode: renderQrCode(charge.pix.qr_code, qrCode.format ?? 'svg' as F, qrCode),
+    }
   }
 
   /**
@@ -45,8 +97,8 @@ export class Charges {
    * console.log(charge.status) // 'pending' | 'paid' | ...
    * ```
    */
-  async retrieve(id: string): Promise<Charge> {
-    return this.client.get<Charge>(`/v1/charges/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.get<Charge>(`/v1/charges/${id}`, undefined, options)
   }
 
   /**
@@ -62,10 +114,15 @@ export class Charges {
    * for (const charge of charges.data) {
    *   console.log(charge.id, charge.amount)
    * }
+   *
+   * // Or walk every page automatically
+   * for await (const charge of vaultix.charges.list({ status: 'paid' })) {
+   *   console.log(charge.id, charge.amount)
+   * }
    * ```
    */
-  async list(params?: ChargeListParams): Promise<ListResponse<Charge>> {
-    return this.client.get<ListResponse<Charge>>('/v1/charges', params)
+  list(params?: ChargeListParams, options?: RequestOptions): PagePromise<Charge> {
+    return this.client.getList<Charge>('/v1/charges', params, options)
   }
 
   /**
@@ -78,8 +135,8 @@ export class Charges {
    * const charge = await vaultix.charges.capture('ch_abc123', { amount: 2500 })
    * ```
    */
-  async capture(id: string, params?: { amount?: number }): Promise<Charge> {
-    return this.client.post<Charge>(`/v1/charges/${id}/capture`, params)
+  async capture(id: string, params?: { amount?: number }, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.post<Charge>(`/v1/charges/${id}/capture`, params, options)
   }
 
   /**
@@ -91,7 +148,7 @@ export class Charges {
    * console.log(charge.status) // 'canceled'
    * ```
    */
-  async cancel(id: string): Promise<Charge> {
-    return this.client.post<Charge>(`/v1/charges/${id}/cancel`)
+  async cancel(id: string, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.post<Charge>(`/v1/charges/${id}/cancel`, undefined, options)
   }
 }
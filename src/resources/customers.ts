@@ -5,12 +5,15 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import { checkDocumentParam } from '../documents.js'
+import type { PagePromise } from '../pagination.js'
 import type {
   Customer,
   CustomerCreateParams,
   CustomerUpdateParams,
   ListParams,
-  ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class Customers {
@@ -24,19 +27,23 @@ export class Customers {
    * const customer = await vaultix.customers.create({
    *   name: 'Maria Santos',
    *   email: 'maria@email.com',
-   *   document: '12345678900',
+   *   document: '12345678909',
    * })
    * ```
    */
-  async create(params: CustomerCreateParams): Promise<Customer> {
-    return this.client.post<Customer>('/v1/customers', params)
+  async create(params: CustomerCreateParams, options?: RequestOptions): Promise<VaultixResponse<Customer>> {
+    if (this.client.validateDocuments) {
+      params = checkDocumentParam(params, ['document'])
+    }
+
+    return this.client.post<Customer>('/v1/customers', params, options)
   }
 
   /**
    * Retrieve a customer by ID
    */
-  async retrieve(id: string): Promise<Customer> {
-    return this.client.get<Customer>(`/v1/customers/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Customer>> {
+    return this.client.get<Customer>(`/v1/customers/${id}`, undefined, options)
   }
 
   /**
@@ -49,21 +56,25 @@ export class Customers {
    * })
    * ```
    */
-  async update(id: string, params: CustomerUpdateParams): Promise<Customer> {
-    return this.client.put<Customer>(`/v1/customers/${id}`, params)
+  async update(id: string, params: CustomerUpdateParams, options?: RequestOptions): Promise<VaultixResponse<Customer>> {
+    if (this.client.validateDocuments) {
+      params = checkDocumentParam(params, ['document'])
+    }
+
+    return this.client.put<Customer>(`/v1/customers/${id}`, params, options)
   }
 
   /**
    * Delete a customer
    */
-  async delete(id: string): Promise<{ id: string; deleted: boolean }> {
-    return this.client.delete<{ id: string; deleted: boolean }>(`/v1/customers/${id}`)
+  async delete(id: string, options?: RequestOptions): Promise<VaultixResponse<{ id: string; deleted: boolean }>> {
+    return this.client.delete<{ id: string; deleted: boolean }>(`/v1/customers/${id}`, options)
   }
 
   /**
    * List all customers
    */
-  async list(params?: ListParams): Promise<ListResponse<Customer>> {
-    return this.client.get<ListResponse<Customer>>('/v1/customers', params)
+  list(params?: ListParams, options?: RequestOptions): PagePromise<Customer> {
+    return this.client.getList<Customer>('/v1/customers', params, options)
   }
 }
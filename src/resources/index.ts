@@ -9,3 +9,4 @@ export { Sandbox } from './sandbox.js'
 export { Products } from './products.js'
 export { Orders } from './orders.js'
 export { Transactions } from './transactions.js'
+export { Webhooks } from './webhooks.js'
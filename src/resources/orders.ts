@@ -5,7 +5,8 @@
  */
 
 import type { VaultixClient } from '../client.js'
-import type { ListResponse } from '../types.js'
+import type { PagePromise } from '../pagination.js'
+import type { ListResponse, RequestOptions, VaultixResponse } from '../types.js'
 
 export interface OrderItem {
   id: string
@@ -94,8 +95,8 @@ export class Orders {
    * console.log(orderWithItems.items)
    * ```
    */
-  async retrieve(id: string, params?: { expand?: 'items' }): Promise<Order> {
-    return this.client.get<Order>(`/v1/orders/${id}`, params)
+  async retrieve(id: string, params?: { expand?: 'items' }, options?: RequestOptions): Promise<VaultixResponse<Order>> {
+    return this.client.get<Order>(`/v1/orders/${id}`, params, options)
   }
 
   /**
@@ -114,8 +115,8 @@ export class Orders {
    * }
    * ```
    */
-  async list(params?: OrderListParams): Promise<ListResponse<Order>> {
-    return this.client.get<ListResponse<Order>>('/v1/orders', params)
+  list(params?: OrderListParams, options?: RequestOptions): PagePromise<Order> {
+    return this.client.getList<Order>('/v1/orders', params, options)
   }
 
   /**
@@ -129,7 +130,7 @@ export class Orders {
    * }
    * ```
    */
-  async listItems(orderId: string): Promise<ListResponse<OrderItem>> {
-    return this.client.get<ListResponse<OrderItem>>(`/v1/orders/${orderId}/items`)
+  async listItems(orderId: string, options?: RequestOptions): Promise<VaultixResponse<ListResponse<OrderItem>>> {
+    return this.client.get<ListResponse<OrderItem>>(`/v1/orders/${orderId}/items`, undefined, options)
   }
 }
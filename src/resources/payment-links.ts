@@ -5,12 +5,15 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import type { PagePromise } from '../pagination.js'
 import type {
   PaymentLink,
   PaymentLinkCreateParams,
   PaymentLinkListParams,
   ListResponse,
   Charge,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class PaymentLinks {
@@ -31,22 +34,22 @@ export class PaymentLinks {
    * console.log(link.url) // Share this URL with your customer
    * ```
    */
-  async create(params: PaymentLinkCreateParams): Promise<PaymentLink> {
-    return this.client.post<PaymentLink>('/v1/payment-links', params)
+  async create(params: PaymentLinkCreateParams, options?: RequestOptions): Promise<VaultixResponse<PaymentLink>> {
+    return this.client.post<PaymentLink>('/v1/payment-links', params, options)
   }
 
   /**
    * Retrieve a payment link by ID
    */
-  async retrieve(id: string): Promise<PaymentLink> {
-    return this.client.get<PaymentLink>(`/v1/payment-links/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<PaymentLink>> {
+    return this.client.get<PaymentLink>(`/v1/payment-links/${id}`, undefined, options)
   }
 
   /**
    * List all payment links
    */
-  async list(params?: PaymentLinkListParams): Promise<ListResponse<PaymentLink>> {
-    return this.client.get<ListResponse<PaymentLink>>('/v1/payment-links', params)
+  list(params?: PaymentLinkListParams, options?: RequestOptions): PagePromise<PaymentLink> {
+    return this.client.getList<PaymentLink>('/v1/payment-links', params, options)
   }
 
   /**
@@ -58,8 +61,8 @@ export class PaymentLinks {
    * console.log(link.status) // 'inactive'
    * ```
    */
-  async deactivate(id: string): Promise<PaymentLink> {
-    return this.client.post<PaymentLink>(`/v1/payment-links/${id}/deactivate`)
+  async deactivate(id: string, options?: RequestOptions): Promise<VaultixResponse<PaymentLink>> {
+    return this.client.post<PaymentLink>(`/v1/payment-links/${id}/deactivate`, undefined, options)
   }
 
   /**
@@ -74,7 +77,7 @@ export class PaymentLinks {
    * }
    * ```
    */
-  async listPayments(id: string, params?: { limit?: number }): Promise<ListResponse<Charge>> {
-    return this.client.get<ListResponse<Charge>>(`/v1/payment-links/${id}/payments`, params)
+  async listPayments(id: string, params?: { limit?: number }, options?: RequestOptions): Promise<VaultixResponse<ListResponse<Charge>>> {
+    return this.client.get<ListResponse<Charge>>(`/v1/payment-links/${id}/payments`, params, options)
   }
 }
@@ -5,11 +5,14 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import { checkDocumentParam } from '../documents.js'
+import type { PagePromise } from '../pagination.js'
 import type {
   Payout,
   PayoutCreateParams,
   PayoutListParams,
-  ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class Payouts {
@@ -38,20 +41,30 @@ export class Payouts {
    *     account: '12345-6',
    *     account_type: 'checking',
    *     holder_name: 'João Silva',
-   *     holder_document: '12345678900',
+   *     holder_document: '12345678909',
    *   },
    * })
+   *
+   * // With your own idempotency key (e.g. your withdrawal ID)
+   * const payout = await vaultix.payouts.create(
+   *   { amount: 50000, destination: { pix_key: 'email@example.com' } },
+   *   { idempotencyKey: 'withdrawal_8812' },
+   * )
    * ```
    */
-  async create(params: PayoutCreateParams): Promise<Payout> {
-    return this.client.post<Payout>('/v1/payouts', params)
+  async create(params: PayoutCreateParams, options?: RequestOptions): Promise<VaultixResponse<Payout>> {
+    if (this.client.validateDocuments) {
+      params = checkDocumentParam(params, ['destination', 'holder_document'])
+    }
+
+    return this.client.post<Payout>('/v1/payouts', params, options)
   }
 
   /**
    * Retrieve a payout by ID
    */
-  async retrieve(id: string): Promise<Payout> {
-    return this.client.get<Payout>(`/v1/payouts/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Payout>> {
+    return this.client.get<Payout>(`/v1/payouts/${id}`, undefined, options)
   }
 
   /**
@@ -65,8 +78,8 @@ export class Payouts {
    * })
    * ```
    */
-  async list(params?: PayoutListParams): Promise<ListResponse<Payout>> {
-    return this.client.get<ListResponse<Payout>>('/v1/payouts', params)
+  list(params?: PayoutListParams, options?: RequestOptions): PagePromise<Payout> {
+    return this.client.getList<Payout>('/v1/payouts', params, options)
   }
 
   /**
@@ -80,7 +93,7 @@ export class Payouts {
    * console.log(payout.status) // 'canceled'
    * ```
    */
-  async cancel(id: string): Promise<Payout> {
-    return this.client.post<Payout>(`/v1/payouts/${id}/cancel`)
+  async cancel(id: string, options?: RequestOptions): Promise<VaultixResponse<Payout>> {
+    return this.client.post<Payout>(`/v1/payouts/${id}/cancel`, undefined, options)
   }
 }
@@ -5,7 +5,8 @@
  */
 
 import type { VaultixClient } from '../client.js'
-import type { ListResponse } from '../types.js'
+import type { PagePromise } from '../pagination.js'
+import type { RequestOptions, VaultixResponse } from '../types.js'
 
 export interface Product {
   id: string
@@ -122,8 +123,8 @@ export class Products {
    * })
    * ```
    */
-  async create(params: ProductCreateParams): Promise<Product> {
-    return this.client.post<Product>('/v1/products', params)
+  async create(params: ProductCreateParams, options?: RequestOptions): Promise<VaultixResponse<Product>> {
+    return this.client.post<Product>('/v1/products', params, options)
   }
 
   /**
@@ -135,8 +136,8 @@ export class Products {
    * console.log(product.name, product.price)
    * ```
    */
-  async retrieve(id: string): Promise<Product> {
-    return this.client.get<Product>(`/v1/products/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Product>> {
+    return this.client.get<Product>(`/v1/products/${id}`, undefined, options)
   }
 
   /**
@@ -154,8 +155,8 @@ export class Products {
    * }
    * ```
    */
-  async list(params?: ProductListParams): Promise<ListResponse<Product>> {
-    return this.client.get<ListResponse<Product>>('/v1/products', params)
+  list(params?: ProductListParams, options?: RequestOptions): PagePromise<Product> {
+    return this.client.getList<Product>('/v1/products', params, options)
   }
 
   /**
@@ -169,8 +170,8 @@ export class Products {
    * })
    * ```
    */
-  async update(id: string, params: ProductUpdateParams): Promise<Product> {
-    return this.client.put<Product>(`/v1/products/${id}`, params)
+  async update(id: string, params: ProductUpdateParams, options?: RequestOptions): Promise<VaultixResponse<Product>> {
+    return this.client.put<Product>(`/v1/products/${id}`, params, options)
   }
 
   /**
@@ -182,7 +183,7 @@ export class Products {
    * console.log(result.deleted) // true
    * ```
    */
-  async delete(id: string): Promise<{ id: string; object: 'product'; deleted: boolean }> {
-    return this.client.delete<{ id: string; object: 'product'; deleted: boolean }>(`/v1/products/${id}`)
+  async delete(id: string, options?: RequestOptions): Promise<VaultixResponse<{ id: string; object: 'product'; deleted: boolean }>> {
+    return this.client.delete<{ id: string; object: 'product'; deleted: boolean }>(`/v1/products/${id}`, options)
   }
 }
@@ -5,11 +5,13 @@
  */
 
 import type { VaultixClient } from '../client.js'
+import type { PagePromise } from '../pagination.js'
 import type {
   Refund,
   RefundCreateParams,
   RefundListParams,
-  ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class Refunds {
@@ -32,15 +34,15 @@ export class Refunds {
    * })
    * ```
    */
-  async create(params: RefundCreateParams): Promise<Refund> {
-    return this.client.post<Refund>('/v1/refunds', params)
+  async create(params: RefundCreateParams, options?: RequestOptions): Promise<VaultixResponse<Refund>> {
+    return this.client.post<Refund>('/v1/refunds', params, options)
   }
 
   /**
    * Retrieve a refund by ID
    */
-  async retrieve(id: string): Promise<Refund> {
-    return this.client.get<Refund>(`/v1/refunds/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Refund>> {
+    return this.client.get<Refund>(`/v1/refunds/${id}`, undefined, options)
   }
 
   /**
@@ -54,7 +56,7 @@ export class Refunds {
    * })
    * ```
    */
-  async list(params?: RefundListParams): Promise<ListResponse<Refund>> {
-    return this.client.get<ListResponse<Refund>>('/v1/refunds', params)
+  list(params?: RefundListParams, options?: RequestOptions): PagePromise<Refund> {
+    return this.client.getList<Refund>('/v1/refunds', params, options)
   }
 }
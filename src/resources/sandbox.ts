@@ -14,6 +14,8 @@ import type {
   SandboxChargeFailParams,
   SandboxWebhookTestParams,
   ListResponse,
+  RequestOptions,
+  VaultixResponse,
 } from '../types.js'
 
 export class Sandbox {
@@ -35,8 +37,8 @@ export class Sandbox {
    * console.log(paidCharge.status) // 'paid'
    * ```
    */
-  async payCharge(chargeId: string): Promise<Charge> {
-    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/pay`)
+  async payCharge(chargeId: string, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/pay`, undefined, options)
   }
 
   /**
@@ -50,8 +52,8 @@ export class Sandbox {
    * })
    * ```
    */
-  async failCharge(chargeId: string, params?: SandboxChargeFailParams): Promise<Charge> {
-    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/fail`, params)
+  async failCharge(chargeId: string, params?: SandboxChargeFailParams, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/fail`, params, options)
   }
 
   /**
@@ -63,8 +65,8 @@ export class Sandbox {
    * console.log(expiredCharge.status) // 'expired'
    * ```
    */
-  async expireCharge(chargeId: string): Promise<Charge> {
-    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/expire`)
+  async expireCharge(chargeId: string, options?: RequestOptions): Promise<VaultixResponse<Charge>> {
+    return this.client.post<Charge>(`/v1/sandbox/charges/${chargeId}/expire`, undefined, options)
   }
 
   /**
@@ -77,8 +79,8 @@ export class Sandbox {
    * console.log(succeededRefund.status) // 'succeeded'
    * ```
    */
-  async succeedRefund(refundId: string): Promise<Refund> {
-    return this.client.post<Refund>(`/v1/sandbox/refunds/${refundId}/succeed`)
+  async succeedRefund(refundId: string, options?: RequestOptions): Promise<VaultixResponse<Refund>> {
+    return this.client.post<Refund>(`/v1/sandbox/refunds/${refundId}/succeed`, undefined, options)
   }
 
   /**
@@ -100,7 +102,7 @@ export class Sandbox {
    * console.log(result.success) // true if webhook was delivered
    * ```
    */
-  async testWebhook(params?: SandboxWebhookTestParams): Promise<{
+  async testWebhook(params?: SandboxWebhookTestParams, options?: RequestOptions): Promise<VaultixResponse<{
     success: boolean
     status_code?: number
     error?: string
@@ -108,8 +110,8 @@ export class Sandbox {
     event_type: string
     webhook_url: string
     message: string
-  }> {
-    return this.client.post('/v1/sandbox/webhooks/test', params)
+  }>> {
+    return this.client.post('/v1/sandbox/webhooks/test', params, options)
   }
 
   /**
@@ -124,10 +126,10 @@ export class Sandbox {
    * }
    * ```
    */
-  async listTestCards(): Promise<ListResponse<TestCard> & {
+  async listTestCards(options?: RequestOptions): Promise<VaultixResponse<ListResponse<TestCard> & {
     cvc: string
     expiry: string
-  }> {
-    return this.client.get('/v1/sandbox/test-cards')
+  }>> {
+    return this.client.get('/v1/sandbox/test-cards', undefined, options)
   }
 }
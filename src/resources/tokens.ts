@@ -4,8 +4,9 @@
  * Tokenize credit card data for secure payments
  */
 
+import { checkCardParams } from '../cards.js'
 import type { VaultixClient } from '../client.js'
-import type { Token, TokenCreateParams } from '../types.js'
+import type { Token, TokenCreateParams, RequestOptions, VaultixResponse } from '../types.js'
 
 export class Tokens {
   constructor(private readonly client: VaultixClient) {}
@@ -36,8 +37,12 @@ export class Tokens {
    * })
    * ```
    */
-  async create(params: TokenCreateParams): Promise<Token> {
-    return this.client.post<Token>('/v1/tokens', params)
+  async create(params: TokenCreateParams, options?: RequestOptions): Promise<VaultixResponse<Token>> {
+    if (this.client.validateCards) {
+      params = checkCardParams(params)
+    }
+
+    return this.client.post<Token>('/v1/tokens', params, options)
   }
 
   /**
@@ -45,7 +50,7 @@ export class Tokens {
    *
    * Note: Tokens can only be used once and expire after 15 minutes.
    */
-  async retrieve(id: string): Promise<Token> {
-    return this.client.get<Token>(`/v1/tokens/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Token>> {
+    return this.client.get<Token>(`/v1/tokens/${id}`, undefined, options)
   }
 }
@@ -5,7 +5,8 @@
  */
 
 import type { VaultixClient } from '../client.js'
-import type { ListResponse } from '../types.js'
+import type { PagePromise } from '../pagination.js'
+import type { RequestOptions, VaultixResponse } from '../types.js'
 
 export interface Transaction {
   id: string
@@ -82,8 +83,8 @@ export class Transactions {
    * console.log(tx.type, tx.amount, tx.status)
    * ```
    */
-  async retrieve(id: string): Promise<Transaction> {
-    return this.client.get<Transaction>(`/v1/transactions/${id}`)
+  async retrieve(id: string, options?: RequestOptions): Promise<VaultixResponse<Transaction>> {
+    return this.client.get<Transaction>(`/v1/transactions/${id}`, undefined, options)
   }
 
   /**
@@ -102,8 +103,8 @@ export class Transactions {
    * }
    * ```
    */
-  async list(params?: TransactionListParams): Promise<ListResponse<Transaction>> {
-    return this.client.get<ListResponse<Transaction>>('/v1/transactions', params)
+  list(params?: TransactionListParams, options?: RequestOptions): PagePromise<Transaction> {
+    return this.client.getList<Transaction>('/v1/transactions', params, options)
   }
 
   /**
@@ -117,7 +118,7 @@ export class Transactions {
    * console.log('Net:', summary.net_amount)
    * ```
    */
-  async summary(period: '24h' | '7d' | '30d' | '90d' = '30d'): Promise<TransactionSummary> {
-    return this.client.get<TransactionSummary>('/v1/transactions/summary', { period })
+  async summary(period: '24h' | '7d' | '30d' | '90d' = '30d', options?: RequestOptions): Promise<VaultixResponse<TransactionSummary>> {
+    return this.client.get<TransactionSummary>('/v1/transactions/summary', { period }, options)
   }
 }
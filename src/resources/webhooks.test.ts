@@ -0,0 +1,98 @@
+import { createHmac } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VaultixSignatureVerificationError } from '../errors.js'
+import { Webhooks } from './webhooks.js'
+
+const secret = 'whsec_test'
+const payload = JSON.stringify({
+  id: 'evt_1',
+  object: 'event',
+  type: 'charge.paid',
+  data: { object: { id: 'ch_1', amount: 5000 } },
+  created: '2026-01-01T00:00:00.000Z',
+  livemode: false,
+})
+
+function sign(body: string, key = secret): string {
+  return `sha256=${createHmac('sha256', key).update(body).digest('hex')}`
+}
+
+describe('Webhooks', () => {
+  const webhooks = new Webhooks()
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T00:01:00Z') })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accepts the sha256= signature of the raw body', () => {
+    const event = webhooks.constructEvent(payload, sign(payload), secret)
+
+    expect(event.type).toBe('charge.paid')
+    expect(event.data.object).toMatchObject({ id: 'ch_1', amount: 5000 })
+  })
+
+  it('accepts a Buffer body and an array header', () => {
+    expect(webhooks.constructEvent(Buffer.from(payload), [sign(payload)], secret).id).toBe('evt_1')
+  })
+
+  it('rejects a signature made with another secret', () => {
+    expect(() => webhooks.verifySignature(payload, sign(payload, 'whsec_other'), secret))
+      .toThrow('Webhook signature does not match the payload')
+  })
+
+  it('rejects a re-serialized body', () => {
+    const reserialized = JSON.stringify(JSON.parse(payload), null, 2)
+    expect(() => webhooks.verifySignature(reserialized, sign(payload), secret)).toThrow(VaultixSignatureVerificationError)
+  })
+
+  it('rejects missing and malformed headers', () => {
+    expect(() => webhooks.verifySignature(payload, undefined, secret)).toThrow('Missing x-vaultix-signature header')
+    expect(() => webhooks.verifySignature(payload, 'md5=abc', secret)).toThrow('Unable to parse x-vaultix-signature header')
+    expect(() => webhooks.verifySignature(payload, 'sha256=abc', secret)).toThrow('does not match')
+  })
+
+  it('exposes the header and payload on the error', () => {
+    const error = (() => {
+      try {
+        webhooks.verifySignature(payload, 'sha256=00', secret)
+      } catch (error) {
+        return error as VaultixSignatureVerificationError
+      }
+    })()
+
+    expect(error?.header).toBe('sha256=00')
+    expect(error?.payload).toBe(payload)
+  })
+
+  it('rejects events whose signed created time is outside the tolerance', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:10:00Z'))
+
+    expect(() => webhooks.constructEvent(payload, sign(payload), secret)).toThrow('outside the tolerance window')
+    expect(webhooks.constructEvent(payload, sign(payload), secret, 900).id).toBe('evt_1')
+    expect(webhooks.constructEvent(payload, sign(payload), secret, 0).id).toBe('evt_1')
+
+    vi.setSystemTime(new Date('2025-12-31T23:50:00Z'))
+    expect(() => webhooks.constructEvent(payload, sign(payload), secret)).toThrow('outside the tolerance window')
+  })
+
+  it('ignores an unsigned t= element in the header', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:10:00Z'))
+    const now = Math.floor(Date.now() / 1000)
+
+    expect(() => webhooks.constructEvent(payload, `t=${now},${sign(payload)}`, secret)).toThrow('outside the tolerance window')
+  })
+
+  it('rejects events without a valid created time', () => {
+    const body = JSON.stringify({ ...JSON.parse(payload), created: undefined })
+
+    expect(() => webhooks.constructEvent(body, sign(body), secret)).toThrow('no valid created time')
+  })
+
+  it('throws on a payload that is not JSON', () => {
+    expect(() => webhooks.constructEvent('not json', sign('not json'), secret)).toThrow('not valid JSON')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Webhooks Resource
+ *
+ * Verify webhook signatures and parse typed events
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { VaultixSignatureVerificationError } from '../errors.js'
+import type { VaultixEvent } from '../types.js'
+
+/** Default tolerance between an event's `created` time and now, in seconds */
+const DEFAULT_TOLERANCE = 300
+
+export class Webhooks {
+  /**
+   * Verify the `x-vaultix-signature` header and parse the event
+   *
+   * The header has the form `sha256=<hex signature>`, where the signature is
+   * the HMAC-SHA256 of the raw body using your endpoint secret. Always pass
+   * the raw request body: re-serialized JSON will not match the signature.
+   *
+   * Once the signature checks out, the signed `created` time of the event
+   * must be within `tolerance` seconds of now, so a captured delivery cannot
+   * be replayed later (pass `0` to skip this check).
+   *
+   * @example
+   * ```ts
+   * app.post('/webhooks', express.raw({ type: 'application/json' }), (req, res) => {
+   *   let event
+   *   try {
+   *     event = vaultix.webhooks.constructEvent(
+   *       req.body,
+   *       req.headers['x-vaultix-signature'],
+   *       'whsec_...',
+   *     )
+   *   } catch (error) {
+   *     return res.status(400).send('Invalid signature')
+   *   }
+   *
+   *   switch (event.type) {
+   *     case 'charge.paid':
+   *       console.log(event.data.object.amount) // typed as Charge
+   *       break
+   *   }
+   *
+   *   res.status(200).send('OK')
+   * })
+   * ```
+   */
+  constructEvent(
+    rawBody: string | Buffer,
+    signatureHeader: string | string[] | undefined,
+    secret: string,
+    tolerance = DEFAULT_TOLERANCE
+  ): VaultixEvent {
+    const payload = typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8')
+
+    this.verifySignature(payload, signatureHeader, secret)
+
+    let event: VaultixEvent
+    try {
+      event = JSON.parse(payload) as VaultixEvent
+    } catch {
+      throw new VaultixSignatureVerificationError('Webhook payload is not valid JSON', undefined, payload)
+    }
+
+    if (tolerance > 0) {
+      const header = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader
+      const created = Date.parse(event?.created)
+
+      if (Number.isNaN(created)) {
+        throw new VaultixSignatureVerificationError('Webhook event has no valid created time', header, payload)
+      }
+
+      if (Math.abs(Date.now() - created) > tolerance * 1000) {
+        throw new VaultixSignatureVerificationError('Webhook event is outside the tolerance window', header, payload)
+      }
+    }
+
+    return event
+  }
+
+  /**
+   * Verify a webhook signature without parsing the payload
+   *
+   * Signatures are compared in constant time. This only proves the payload
+   * came from Vaultix; use `constructEvent` to also reject stale events.
+   *
+   * Throws a `VaultixSignatureVerificationError` if the signature does not
+   * match.
+   */
+  verifySignature(
+    payload: string,
+    signatureHeader: string | string[] | undefined,
+    secret: string
+  ): true {
+    const header = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader
+
+    if (!header) {
+      throw new VaultixSignatureVerificationError('Missing x-vaultix-signature header', header, payload)
+    }
+
+    if (!secret) {
+      throw new VaultixSignatureVerificationError('Webhook secret is required', header, payload)
+    }
+
+    const signatures = this.parseHeader(header)
+
+    if (signatures.length === 0) {
+      throw new VaultixSignatureVerificationError('Unable to parse x-vaultix-signature header', header, payload)
+    }
+
+    const expected = Buffer.from(this.computeSignature(payload, secret), 'hex')
+    const matches = signatures.some(signature => {
+      const received = Buffer.from(signature, 'hex')
+      return received.length === expected.length && timingSafeEqual(received, expected)
+    })
+
+    if (!matches) {
+      throw new VaultixSignatureVerificationError('Webhook signature does not match the payload', header, payload)
+    }
+
+    return true
+  }
+
+  /**
+   * Compute the hex signature Vaultix sends for a payload, without the
+   * `sha256=` prefix
+   */
+  computeSignature(payload: string, secret: string): string {
+    return createHmac('sha256', secret)
+      .update(payload)
+      .digest('hex')
+  }
+
+  private parseHeader(header: string): string[] {
+    const signatures: string[] = []
+
+    for (const part of header.split(',')) {
+      const [key, value] = part.trim().split('=', 2)
+
+      if (key === 'sha256' && /^[\da-f]+$/i.test(value ?? '')) {
+        signatures.push(value)
+      }
+    }
+
+    return signatures
+  }
+}
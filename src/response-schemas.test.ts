@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+import { VaultixResponseValidationError } from './errors.js'
+import { chargeSchema, responseSchemaFor } from './response-schemas.js'
+import { createMockVaultix } from './testing/mock-server.js'
+import { Vaultix } from './vaultix.js'
+import type { VaultixConfig } from './types.js'
+
+/** A client whose every response is `body` */
+function answering(body: unknown, config: Partial<VaultixConfig> = {}) {
+  return new Vaultix({
+    secretKey: 'sk_test_123',
+    logLevel: 'silent',
+    ...config,
+    fetch: async () => Response.json(body, { headers: { 'x-request-id': 'req_1' } }),
+  })
+}
+
+const brokenCharge = { id: 'ch_1', object: 'charge', amount: '50.00', currency: 'BRL', payment_method: 'pix', status: 'pending', created: '2026-01-01', livemode: false }
+
+describe('responseSchemaFor', () => {
+  it('finds the schema of an endpoint, ignoring the query string', () => {
+    expect(responseSchemaFor('GET', '/v1/charges/ch_123')).toBe(chargeSchema)
+    expect(responseSchemaFor('POST', '/v1/charges')).toBe(chargeSchema)
+    expect(responseSchemaFor('GET', '/v1/charges?limit=10')?.description).toBe('object')
+    expect(responseSchemaFor('DELETE', '/v1/charges/ch_123')).toBeUndefined()
+  })
+})
+
+describe('validateResponses', () => {
+  it('is off by default', async () => {
+    await expect(answering(brokenCharge).charges.retrieve('ch_1')).resolves.toMatchObject({ amount: '50.00' })
+  })
+
+  it('throws on mismatches in strict mode', async () => {
+    const error = await answering(brokenCharge, { validateResponses: 'strict' }).charges.retrieve('ch_1').catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixResponseValidationError)
+    expect(error).toMatchObject({
+      code: 'invalid_response',
+      endpoint: 'GET /v1/charges/ch_1',
+      requestId: 'req_1',
+      issues: [{ path: 'amount', message: 'expected integer, received string "50.00"' }],
+    })
+  })
+
+  it('reports mismatches and returns the response in lenient mode', async () => {
+    const onValidationError = vi.fn()
+    const vaultix = answering(brokenCharge, { validateResponses: 'lenient', onValidationError })
+
+    await expect(vaultix.charges.retrieve('ch_1')).resolves.toMatchObject({ id: 'ch_1' })
+    expect(onValidationError.mock.calls[0][0]).toBeInstanceOf(VaultixResponseValidationError)
+  })
+
+  it('logs a warning in lenient mode without onValidationError', async () => {
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+
+    await answering(brokenCharge, { validateResponses: 'lenient', logger, logLevel: 'warn' }).charges.retrieve('ch_1')
+
+    expect(logger.warn).toHaveBeenCalledWith('Vaultix response does not match the SDK types', expect.objectContaining({ path: '/v1/charges/ch_1' }))
+  })
+
+  it('accepts extra fields the SDK does not know about', async () => {
+    const vaultix = answering({ ...brokenCharge, amount: 5000, new_field: { nested: true } }, { validateResponses: 'strict' })
+
+    await expect(vaultix.charges.retrieve('ch_1')).resolves.toMatchObject({ new_field: { nested: true } })
+  })
+
+  it('accepts every response of the mock server', async () => {
+    const { vaultix, server } = createMockVaultix({ config: { validateResponses: 'strict' } })
+
+    const customer = await vaultix.customers.create({ name: 'Maria', email: 'maria@email.com' })
+    const token = await vaultix.tokens.create({ card: { number: '4242424242424242', exp_month: 12, exp_year: 2099, cvc: '123' } })
+    const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'credit_card', card: { token: token.id }, customer: { id: customer.id } })
+    await vaultix.charges.create({ amount: 5000, payment_method: 'boleto' })
+    await vaultix.refunds.create({ charge: charge.id, amount: 1000 })
+    await vaultix.charges.list().toArray()
+    await vaultix.balance.retrieve()
+    await vaultix.payouts.create({ amount: 1000, destination: { pix_key: 'maria@email.com', holder_name: 'Maria' } })
+    server.seedOrder()
+    await vaultix.orders.list().toArray()
+    await vaultix.transactions.summary('7d')
+    await vaultix.sandbox.listTestCards()
+  })
+})
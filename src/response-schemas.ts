@@ -0,0 +1,440 @@
+/**
+ * Vaultix Response Schemas
+ *
+ * Runtime counterparts of the response types in `types.ts` and the
+ * resource modules, and the endpoint each one applies to
+ */
+
+import { s } from './schema.js'
+import type { Schema } from './schema.js'
+import type { HttpMethod } from './types.js'
+
+const currency = s.literal('BRL', 'USD', 'EUR')
+const paymentMethod = s.literal('pix', 'credit_card', 'boleto')
+const metadata = s.optional(s.record(s.unknown()))
+const optionalString = s.optional(s.string())
+const optionalInteger = s.optional(s.integer())
+
+export function listOf(item: Schema): Schema {
+  return s.object({
+    object: s.literal('list'),
+    data: s.array(item),
+    has_more: s.boolean(),
+    total_count: optionalInteger,
+  })
+}
+
+// ============================================
+// TYPES.TS
+// ============================================
+
+export const chargeSchema = s.object({
+  id: s.string(),
+  object: s.literal('charge'),
+  amount: s.integer(),
+  currency,
+  payment_method: paymentMethod,
+  status: s.literal('pending', 'authorized', 'paid', 'failed', 'canceled', 'refunded', 'expired'),
+  description: optionalString,
+  metadata,
+  created: s.string(),
+  livemode: s.boolean(),
+  pix: s.optional(s.object({
+    qr_code: s.string(),
+    qr_code_url: optionalString,
+    expires_at: s.string(),
+  })),
+  card: s.optional(s.object({
+    brand: s.string(),
+    last4: s.string(),
+    exp_month: optionalInteger,
+    exp_year: optionalInteger,
+  })),
+  boleto: s.optional(s.object({
+    barcode: s.string(),
+    barcode_url: optionalString,
+    pdf_url: optionalString,
+    due_date: s.string(),
+  })),
+})
+
+const address = s.optional(s.object({
+  line1: optionalString,
+  line2: optionalString,
+  city: optionalString,
+  state: optionalString,
+  postal_code: optionalString,
+  country: optionalString,
+}))
+
+export const customerSchema = s.object({
+  id: s.string(),
+  object: s.literal('customer'),
+  name: s.string(),
+  email: s.string(),
+  document: optionalString,
+  phone: optionalString,
+  address,
+  metadata,
+  created: s.string(),
+  livemode: s.boolean(),
+})
+
+export const tokenSchema = s.object({
+  id: s.string(),
+  object: s.literal('token'),
+  card: s.object({
+    brand: s.string(),
+    last4: s.string(),
+    exp_month: s.integer(),
+    exp_year: s.integer(),
+    name: optionalString,
+  }),
+  created: s.string(),
+  livemode: s.boolean(),
+  used: s.boolean(),
+})
+
+export const refundSchema = s.object({
+  id: s.string(),
+  object: s.literal('refund'),
+  amount: s.integer(),
+  charge: s.string(),
+  status: s.literal('pending', 'succeeded', 'failed'),
+  reason: optionalString,
+  created: s.string(),
+  livemode: s.boolean(),
+})
+
+const balanceAmount = s.object({
+  amount: s.integer(),
+  currency,
+})
+
+export const balanceSchema = s.object({
+  object: s.literal('balance'),
+  available: s.array(balanceAmount),
+  pending: s.array(balanceAmount),
+  livemode: s.boolean(),
+})
+
+export const balanceTransactionSchema = s.object({
+  id: s.string(),
+  object: s.literal('balance_transaction'),
+  amount: s.integer(),
+  type: s.literal('charge', 'refund', 'payout', 'adjustment'),
+  source: s.string(),
+  description: optionalString,
+  created: s.string(),
+  status: s.literal('available', 'pending'),
+})
+
+export const paymentLinkSchema = s.object({
+  id: s.string(),
+  object: s.literal('payment_link'),
+  url: s.string(),
+  short_code: s.string(),
+  amount: s.integer(),
+  currency,
+  description: optionalString,
+  payment_methods: s.array(paymentMethod),
+  success_url: optionalString,
+  cancel_url: optionalString,
+  expires_at: optionalString,
+  max_uses: optionalInteger,
+  current_uses: s.integer(),
+  metadata,
+  status: s.literal('active', 'inactive', 'expired'),
+  created: s.string(),
+  livemode: s.boolean(),
+})
+
+export const payoutSchema = s.object({
+  id: s.string(),
+  object: s.literal('payout'),
+  amount: s.integer(),
+  currency,
+  destination: s.object({
+    type: s.literal('pix', 'bank_account'),
+    pix_key: optionalString,
+    bank_code: optionalString,
+    branch: optionalString,
+    account: optionalString,
+    holder_name: optionalString,
+  }),
+  description: optionalString,
+  metadata,
+  status: s.literal('pending', 'in_transit', 'paid', 'failed', 'canceled'),
+  estimated_arrival: optionalString,
+  arrival_date: optionalString,
+  failure_code: optionalString,
+  failure_message: optionalString,
+  created: s.string(),
+  livemode: s.boolean(),
+})
+
+export const testCardSchema = s.object({
+  number: s.string(),
+  brand: s.string(),
+  behavior: s.string(),
+  description: s.string(),
+})
+
+export const webhookTestResultSchema = s.object({
+  success: s.boolean(),
+  status_code: optionalInteger,
+  error: optionalString,
+  event_id: s.string(),
+  event_type: s.string(),
+  webhook_url: s.string(),
+  message: s.string(),
+})
+
+function deletedSchema(object: string): Schema {
+  return s.object({
+    id: s.string(),
+    object: s.optional(s.literal(object)),
+    deleted: s.boolean(),
+  })
+}
+
+// ============================================
+// ORDERS
+// ============================================
+
+export const orderItemSchema = s.object({
+  id: s.string(),
+  object: s.literal('order_item'),
+  product_id: s.string(),
+  variant_id: optionalString,
+  name: s.string(),
+  sku: optionalString,
+  quantity: s.integer(),
+  unit_price: s.integer(),
+  subtotal: s.integer(),
+  discount: optionalInteger,
+  tax: optionalInteger,
+  total: s.integer(),
+  metadata,
+})
+
+export const orderSchema = s.object({
+  id: s.string(),
+  object: s.literal('order'),
+  order_number: s.string(),
+  status: s.literal('pending', 'processing', 'completed', 'canceled', 'refunded'),
+  payment_status: s.literal('pending', 'paid', 'failed', 'refunded'),
+  fulfillment_status: s.literal('unfulfilled', 'partial', 'fulfilled', 'shipped', 'delivered'),
+  customer_id: optionalString,
+  seller_id: optionalString,
+  billing_address: s.record(s.unknown()),
+  shipping_address: s.record(s.unknown()),
+  amounts: s.object({
+    subtotal: s.integer(),
+    discount: optionalInteger,
+    shipping: optionalInteger,
+    tax: optionalInteger,
+    total: s.integer(),
+  }),
+  currency: s.string(),
+  payment: s.object({
+    method: optionalString,
+    details: metadata,
+    transaction_id: optionalString,
+  }),
+  shipping: s.object({
+    method: optionalString,
+    carrier: optionalString,
+    tracking_number: optionalString,
+    estimated_delivery: optionalString,
+    delivered_at: optionalString,
+  }),
+  items: s.optional(s.array(orderItemSchema)),
+  notes: s.optional(s.object({
+    customer: optionalString,
+    internal: optionalString,
+  })),
+  metadata,
+  created_at: s.string(),
+  updated_at: optionalString,
+  livemode: s.boolean(),
+})
+
+// ============================================
+// PRODUCTS
+// ============================================
+
+export const productSchema = s.object({
+  id: s.string(),
+  object: s.literal('product'),
+  name: s.string(),
+  description: optionalString,
+  short_description: optionalString,
+  slug: s.string(),
+  sku: optionalString,
+  barcode: optionalString,
+  price: s.integer(),
+  compare_price: optionalInteger,
+  cost_price: optionalInteger,
+  currency: s.string(),
+  stock_quantity: s.integer(),
+  stock_status: s.literal('in_stock', 'out_of_stock', 'low_stock'),
+  track_inventory: s.boolean(),
+  status: s.literal('active', 'draft', 'archived', 'deleted'),
+  visibility: s.literal('visible', 'hidden'),
+  is_active: s.boolean(),
+  is_featured: s.boolean(),
+  is_digital: s.boolean(),
+  featured_image: optionalString,
+  images: s.optional(s.array(s.string())),
+  gallery_urls: s.optional(s.array(s.string())),
+  has_variants: s.boolean(),
+  variant_options: metadata,
+  category_id: optionalString,
+  tags: s.optional(s.array(s.string())),
+  attributes: metadata,
+  weight: s.optional(s.number()),
+  weight_unit: optionalString,
+  dimensions: s.optional(s.object({
+    length: s.optional(s.number()),
+    width: s.optional(s.number()),
+    height: s.optional(s.number()),
+    unit: optionalString,
+  })),
+  meta: s.optional(s.object({
+    title: optionalString,
+    description: optionalString,
+    keywords: s.optional(s.array(s.string())),
+  })),
+  stats: s.optional(s.object({
+    view_count: optionalInteger,
+    sale_count: optionalInteger,
+    rating_average: s.optional(s.number()),
+    rating_count: optionalInteger,
+  })),
+  metadata,
+  created_at: s.string(),
+  updated_at: optionalString,
+  published_at: optionalString,
+  livemode: s.boolean(),
+})
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+export const transactionSchema = s.object({
+  id: s.string(),
+  object: s.literal('transaction'),
+  type: s.literal('charge', 'refund', 'payout', 'credit', 'debit', 'adjustment'),
+  status: s.string(),
+  amount: s.integer(),
+  currency: s.string(),
+  fee_amount: optionalInteger,
+  net_amount: optionalInteger,
+  converted_amount: optionalInteger,
+  conversion_rate: s.optional(s.number()),
+  payment_method: optionalString,
+  source: s.string(),
+  source_id: optionalString,
+  description: optionalString,
+  customer_id: optionalString,
+  wallet_id: optionalString,
+  destination: metadata,
+  metadata,
+  created_at: s.string(),
+  updated_at: optionalString,
+  livemode: s.boolean(),
+})
+
+const totals = s.object({
+  total_amount: s.integer(),
+  total_count: s.integer(),
+})
+
+export const transactionSummarySchema = s.object({
+  object: s.literal('transaction_summary'),
+  period: s.string(),
+  currency: s.string(),
+  charges: s.object({
+    total_amount: s.integer(),
+    total_count: s.integer(),
+    paid_amount: s.integer(),
+    paid_count: s.integer(),
+    pending_amount: s.integer(),
+    pending_count: s.integer(),
+    failed_count: s.integer(),
+    total_fees: s.integer(),
+  }),
+  refunds: totals,
+  payouts: totals,
+  net_amount: s.integer(),
+})
+
+// ============================================
+// ENDPOINTS
+// ============================================
+
+const ID = '[^/]+'
+
+/** Response schema of every endpoint, matched on method and path */
+const ENDPOINTS: Array<[HttpMethod, RegExp, Schema]> = [
+  ['GET', /^\/v1\/balance$/, balanceSchema],
+  ['GET', /^\/v1\/balance\/transactions$/, listOf(balanceTransactionSchema)],
+
+  ['POST', /^\/v1\/charges$/, chargeSchema],
+  ['GET', /^\/v1\/charges$/, listOf(chargeSchema)],
+  ['GET', new RegExp(`^/v1/charges/${ID}$`), chargeSchema],
+  ['POST', new RegExp(`^/v1/charges/${ID}/(capture|cancel)$`), chargeSchema],
+
+  ['POST', /^\/v1\/customers$/, customerSchema],
+  ['GET', /^\/v1\/customers$/, listOf(customerSchema)],
+  ['GET', new RegExp(`^/v1/customers/${ID}$`), customerSchema],
+  ['PUT', new RegExp(`^/v1/customers/${ID}$`), customerSchema],
+  ['DELETE', new RegExp(`^/v1/customers/${ID}$`), deletedSchema('customer')],
+
+  ['POST', /^\/v1\/tokens$/, tokenSchema],
+  ['GET', new RegExp(`^/v1/tokens/${ID}$`), tokenSchema],
+
+  ['POST', /^\/v1\/refunds$/, refundSchema],
+  ['GET', /^\/v1\/refunds$/, listOf(refundSchema)],
+  ['GET', new RegExp(`^/v1/refunds/${ID}$`), refundSchema],
+
+  ['POST', /^\/v1\/payment-links$/, paymentLinkSchema],
+  ['GET', /^\/v1\/payment-links$/, listOf(paymentLinkSchema)],
+  ['GET', new RegExp(`^/v1/payment-links/${ID}$`), paymentLinkSchema],
+  ['POST', new RegExp(`^/v1/payment-links/${ID}/deactivate$`), paymentLinkSchema],
+  ['GET', new RegExp(`^/v1/payment-links/${ID}/payments$`), listOf(chargeSchema)],
+
+  ['POST', /^\/v1\/payouts$/, payoutSchema],
+  ['GET', /^\/v1\/payouts$/, listOf(payoutSchema)],
+  ['GET', new RegExp(`^/v1/payouts/${ID}$`), payoutSchema],
+  ['POST', new RegExp(`^/v1/payouts/${ID}/cancel$`), payoutSchema],
+
+  ['POST', /^\/v1\/products$/, productSchema],
+  ['GET', /^\/v1\/products$/, listOf(productSchema)],
+  ['GET', new RegExp(`^/v1/products/${ID}$`), productSchema],
+  ['PUT', new RegExp(`^/v1/products/${ID}$`), productSchema],
+  ['DELETE', new RegExp(`^/v1/products/${ID}$`), deletedSchema('product')],
+
+  ['GET', /^\/v1\/orders$/, listOf(orderSchema)],
+  ['GET', new RegExp(`^/v1/orders/${ID}$`), orderSchema],
+  ['GET', new RegExp(`^/v1/orders/${ID}/items$`), listOf(orderItemSchema)],
+
+  ['GET', /^\/v1\/transactions$/, listOf(transactionSchema)],
+  ['GET', /^\/v1\/transactions\/summary$/, transactionSummarySchema],
+  ['GET', new RegExp(`^/v1/transactions/${ID}$`), transactionSchema],
+
+  ['POST', new RegExp(`^/v1/sandbox/charges/${ID}/(pay|fail|expire)$`), chargeSchema],
+  ['POST', new RegExp(`^/v1/sandbox/refunds/${ID}/succeed$`), refundSchema],
+  ['POST', /^\/v1\/sandbox\/webhooks\/test$/, webhookTestResultSchema],
+  ['GET', /^\/v1\/sandbox\/test-cards$/, listOf(testCardSchema)],
+]
+
+/**
+ * Find the schema of an endpoint's response, if the SDK declares one
+ */
+export function responseSchemaFor(method: HttpMethod, path: string): Schema | undefined {
+  const pathname = path.split('?')[0]
+  return ENDPOINTS.find(([m, pattern]) => m === method && pattern.test(pathname))?.[2]
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { s, validate } from './schema.js'
+
+describe('validate', () => {
+  const pix = s.object({
+    qr_code: s.string(),
+    expires_at: s.string(),
+    qr_code_url: s.optional(s.string()),
+  })
+
+  it('returns no issues for a valid value', () => {
+    expect(validate(pix, { qr_code: '000201', expires_at: '2026-01-01', extra: true })).toEqual([])
+  })
+
+  it('reports every missing or mistyped field with its path', () => {
+    expect(validate(pix, { qr_code: 42, qr_code_url: null })).toEqual([
+      { path: 'qr_code', message: 'expected string, received number 42' },
+      { path: 'expires_at', message: 'is required (expected string)', missing: true },
+    ])
+  })
+
+  it('uses bracket notation for nested paths', () => {
+    const charge = s.object({ items: s.array(s.object({ amount: s.integer({ min: 1 }) })) })
+
+    expect(validate(charge, { items: [{ amount: 1 }, { amount: 0 }, { amount: 1.5 }] })).toEqual([
+      { path: 'items[1][amount]', message: 'must be at least 1, received 0' },
+      { path: 'items[2][amount]', message: 'expected integer, received number 1.5' },
+    ])
+  })
+
+  it('checks strings, literals, records and unions', () => {
+    expect(validate(s.object({ name: s.string({ nonEmpty: true }) }), { name: ' ' }))
+      .toEqual([{ path: 'name', message: 'must not be empty', missing: true }])
+    expect(validate(s.string({ pattern: /^\d+$/, format: 'digits' }), 'a1')[0].message).toBe('must be digits, received string "a1"')
+    expect(validate(s.literal('pix', 'boleto'), 'card')[0].message).toBe('expected "pix" | "boleto", received string "card"')
+    expect(validate(s.record(s.string()), { a: 'x', b: 1 })).toEqual([{ path: 'b', message: 'expected string, received number 1' }])
+    expect(validate(s.union(s.string(), s.integer()), 1)).toEqual([])
+    expect(validate(s.union(s.string(), s.integer()), true)[0].message).toBe('expected string | integer, received boolean')
+  })
+
+  it('accepts anything for unknown fields', () => {
+    expect(validate(s.object({ payload: s.unknown() }), {})).toEqual([])
+  })
+})
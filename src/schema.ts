@@ -0,0 +1,213 @@
+/**
+ * Vaultix Schema
+ *
+ * Minimal runtime schemas used to check API payloads against the SDK's
+ * declared types
+ */
+
+export interface SchemaIssue {
+  /** Location of the offending value, in API param notation, e.g. `pix[qr_code]` */
+  path: string
+  message: string
+  /** Whether the value was absent rather than invalid */
+  missing?: boolean
+}
+
+export interface Schema {
+  /** Whether the value may be absent (undefined or null) */
+  readonly optional: boolean
+  /** Human-readable type, used in messages */
+  readonly description: string
+  check(value: unknown, path: string, issues: SchemaIssue[]): void
+}
+
+type Shape = Record<string, Schema>
+
+function define(description: string, check: Schema['check']): Schema {
+  return { optional: false, description, check }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`
+  if (typeof value === 'number') return `number ${value}`
+  return typeof value
+}
+
+function expect(issues: SchemaIssue[], path: string, description: string, value: unknown): void {
+  if (value === undefined) {
+    issues.push({ path: path || '(root)', message: `is required (expected ${description})`, missing: true })
+  } else {
+    issues.push({ path: path || '(root)', message: `expected ${description}, received ${describeValue(value)}` })
+  }
+}
+
+interface RangeOptions {
+  min?: number
+  max?: number
+}
+
+function checkRange(value: number, path: string, issues: SchemaIssue[], range: RangeOptions): void {
+  if (range.min !== undefined && value < range.min) {
+    issues.push({ path, message: `must be at least ${range.min}, received ${value}` })
+  } else if (range.max !== undefined && value > range.max) {
+    issues.push({ path, message: `must be at most ${range.max}, received ${value}` })
+  }
+}
+
+function child(path: string, key: string | number): string {
+  return path ? `${path}[${key}]` : String(key)
+}
+
+/**
+ * Schema builders
+ *
+ * Objects accept unknown extra fields, so additions to the API never fail
+ * validation; only missing or mistyped declared fields do.
+ *
+ * @example
+ * ```ts
+ * const pix = s.object({
+ *   qr_code: s.string(),
+ *   expires_at: s.string(),
+ *   qr_code_url: s.optional(s.string()),
+ * })
+ *
+ * validate(pix, { qr_code: 42 })
+ * // [{ path: 'qr_code', message: 'expected string, received number 42' },
+ * //  { path: 'expires_at', message: 'is required (expected string)' }]
+ * ```
+ */
+export const s = {
+  /** A string, optionally non-empty or matching a pattern (`format` describes it in messages) */
+  string(options: { nonEmpty?: boolean; pattern?: RegExp; format?: string } = {}): Schema {
+    return define('string', (value, path, issues) => {
+      if (typeof value !== 'string') return expect(issues, path, 'string', value)
+
+      if (options.nonEmpty && value.trim() === '') {
+        issues.push({ path, message: 'must not be empty', missing: true })
+      } else if (options.pattern && !options.pattern.test(value)) {
+        issues.push({ path, message: `must be ${options.format ?? `a string matching ${options.pattern}`}, received ${describeValue(value)}` })
+      }
+    })
+  },
+
+  number(range: RangeOptions = {}): Schema {
+    return define('number', (value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return expect(issues, path, 'number', value)
+      checkRange(value, path, issues, range)
+    })
+  },
+
+  /** An integer, e.g. an amount in cents */
+  integer(range: RangeOptions = {}): Schema {
+    return define('integer', (value, path, issues) => {
+      if (typeof value !== 'number' || !Number.isInteger(value)) return expect(issues, path, 'integer', value)
+      checkRange(value, path, issues, range)
+    })
+  },
+
+  boolean(): Schema {
+    return define('boolean', (value, path, issues) => {
+      if (typeof value !== 'boolean') expect(issues, path, 'boolean', value)
+    })
+  },
+
+  /** One of a fixed set of values */
+  literal(...values: Array<string | number | boolean>): Schema {
+    const description = values.map(value => JSON.stringify(value)).join(' | ')
+
+    return define(description, (value, path, issues) => {
+      if (!values.includes(value as string | number | boolean)) expect(issues, path, description, value)
+    })
+  },
+
+  array(item: Schema): Schema {
+    return define(`${item.description}[]`, (value, path, issues) => {
+      if (!Array.isArray(value)) return expect(issues, path, `array of ${item.description}`, value)
+      value.forEach((element, index) => checkField(item, element, child(path, index), issues))
+    })
+  },
+
+  object(shape: Shape): Schema {
+    return define('object', (value, path, issues) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return expect(issues, path, 'object', value)
+      }
+
+      for (const [key, field] of Object.entries(shape)) {
+        checkField(field, (value as Record<string, unknown>)[key], child(path, key), issues)
+      }
+    })
+  },
+
+  /** An object with arbitrary keys, e.g. `metadata` */
+  record(item: Schema): Schema {
+    return define(`Record<string, ${item.description}>`, (value, path, issues) => {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return expect(issues, path, 'object', value)
+      }
+
+      for (const [key, element] of Object.entries(value)) {
+        checkField(item, element, child(path, key), issues)
+      }
+    })
+  },
+
+  unknown(): Schema {
+    return { optional: true, description: 'unknown', check: () => {} }
+  },
+
+  /** Allow the value to be absent or null */
+  optional(schema: Schema): Schema {
+    return { ...schema, optional: true }
+  },
+
+  /**
+   * Add a rule that involves several fields of an object; it only runs
+   * once the value matches the base schema
+   */
+  refine(schema: Schema, rule: (value: Record<string, unknown>, path: string) => SchemaIssue | undefined): Schema {
+    return {
+      ...schema,
+      check(value, path, issues) {
+        const count = issues.length
+        schema.check(value, path, issues)
+        if (issues.length > count) return
+
+        const issue = rule(value as Record<string, unknown>, path)
+        if (issue) issues.push(issue)
+      },
+    }
+  },
+
+  /** Matches if any of the schemas matches */
+  union(...schemas: Schema[]): Schema {
+    const description = schemas.map(schema => schema.description).join(' | ')
+
+    return define(description, (value, path, issues) => {
+      const matches = schemas.some(schema => {
+        const nested: SchemaIssue[] = []
+        schema.check(value, path, nested)
+        return nested.length === 0
+      })
+
+      if (!matches) expect(issues, path, description, value)
+    })
+  },
+}
+
+function checkField(schema: Schema, value: unknown, path: string, issues: SchemaIssue[]): void {
+  if ((value === undefined || value === null) && schema.optional) return
+  schema.check(value, path, issues)
+}
+
+/**
+ * Check a value against a schema and return every mismatch (empty if valid)
+ */
+export function validate(schema: Schema, value: unknown, path = ''): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  checkField(schema, value, path, issues)
+  return issues
+}
@@ -0,0 +1,127 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { Vaultix } from '../vaultix.js'
+import { Cassette, VaultixCassetteError } from './cassette.js'
+import { createMockVaultix } from './mock-server.js'
+import type { CassetteFile } from './cassette.js'
+
+const card = { number: '4242424242424242', exp_month: 12, exp_year: 2099, cvc: '123' }
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'vaultix-cassette-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+/** A client whose requests fail unless the cassette answers them */
+function offlineVaultix(cassette: Cassette) {
+  return new Vaultix({
+    secretKey: 'sk_test_replay',
+    logLevel: 'silent',
+    maxRetries: 0,
+    middleware: [cassette.middleware],
+    fetch: async () => {
+      throw new Error('network disabled')
+    },
+  })
+}
+
+async function readCassette(path: string): Promise<CassetteFile> {
+  return JSON.parse(await readFile(path, 'utf8'))
+}
+
+describe('Cassette', () => {
+  it('records interactions, then replays them without the network', async () => {
+    const path = join(dir, 'nested', 'charges.json')
+
+    const recorder = new Cassette(path)
+    const { vaultix } = createMockVaultix({ config: { middleware: [recorder.middleware] } })
+    const created = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' }, { idempotencyKey: 'key_1' })
+    await vaultix.charges.retrieve(created.id)
+
+    expect(recorder.mode).toBe('record')
+    expect((await readCassette(path)).interactions.map(({ request }) => `${request.method} ${request.path}`))
+      .toEqual(['POST /v1/charges', `GET /v1/charges/${created.id}`])
+
+    const player = new Cassette(path)
+    const offline = offlineVaultix(player)
+
+    expect(player.mode).toBe('replay')
+    expect(await offline.charges.create({ amount: 5000, payment_method: 'pix' })).toMatchObject({ id: created.id, amount: 5000 })
+    expect((await offline.charges.retrieve(created.id)).status).toBe('pending')
+    expect(() => player.assertAllPlayed()).not.toThrow()
+  })
+
+  it('never writes secrets or card data', async () => {
+    const path = join(dir, 'tokens.json')
+    const cassette = new Cassette(path, { mode: 'record' })
+    const { vaultix } = createMockVaultix({ secretKey: 'sk_test_supersecret', config: { middleware: [cassette.middleware] } })
+
+    await vaultix.tokens.create({ card })
+
+    const text = await readFile(path, 'utf8')
+    expect(text).not.toContain('sk_test_supersecret')
+    expect(text).not.toContain('4242424242424242')
+    expect((await readCassette(path)).interactions[0].request.body.card).toMatchObject({
+      number: '************4242',
+      cvc: '[REDACTED]',
+    })
+  })
+
+  it('replays repeated requests in the order they were recorded', async () => {
+    const path = join(dir, 'polling.json')
+    const { vaultix, server } = createMockVaultix({ config: { middleware: [new Cassette(path).middleware] } })
+
+    const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+    await vaultix.charges.retrieve(charge.id)
+    server.store.charges.get(charge.id)!.status = 'paid'
+    await vaultix.charges.retrieve(charge.id)
+
+    const player = new Cassette(path, { mode: 'replay' })
+    const offline = offlineVaultix(player)
+    await offline.charges.create({ amount: 5000, payment_method: 'pix' })
+
+    expect((await offline.charges.retrieve(charge.id)).status).toBe('pending')
+    expect((await offline.charges.retrieve(charge.id)).status).toBe('paid')
+    await expect(offline.charges.retrieve(charge.id)).rejects.toThrow(VaultixCassetteError)
+
+    player.rewind()
+    await offline.charges.create({ amount: 5000, payment_method: 'pix' })
+    expect((await offline.charges.retrieve(charge.id)).status).toBe('pending')
+  })
+
+  it('reports unmatched requests and unplayed interactions', async () => {
+    const path = join(dir, 'balance.json')
+    const { vaultix } = createMockVaultix({ config: { middleware: [new Cassette(path).middleware] } })
+    await vaultix.balance.retrieve()
+
+    const player = new Cassette(path)
+    const offline = offlineVaultix(player)
+
+    await expect(offline.customers.retrieve('cus_1')).rejects.toThrow(/No interaction .* matches GET \/v1\/customers\/cus_1/)
+    expect(() => player.assertAllPlayed()).toThrow(/1 interaction\(s\) .* were never played:\n {2}GET \/v1\/balance/)
+  })
+
+  it('fails clearly when the cassette cannot be read', async () => {
+    const offline = offlineVaultix(new Cassette(join(dir, 'missing.json'), { mode: 'replay' }))
+
+    await expect(offline.balance.retrieve()).rejects.toThrow(/Cannot read cassette/)
+  })
+
+  it('keeps every interaction when concurrent requests are recorded', async () => {
+    const path = join(dir, 'concurrent.json')
+    const cassette = new Cassette(path, { mode: 'record' })
+    const { vaultix } = createMockVaultix({ config: { middleware: [cassette.middleware] } })
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => vaultix.customers.create({ name: `Customer ${i}`, email: `c${i}@email.com` })))
+
+    expect((await readCassette(path)).interactions).toHaveLength(10)
+    expect(await readdir(dir)).toEqual(['concurrent.json'])
+  })
+})
@@ -0,0 +1,262 @@
+/**
+ * Vaultix Cassettes
+ *
+ * Record real API traffic to a JSON file once, then replay it in tests
+ * without network access
+ */
+
+import { randomUUID } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { redactBody, redactHeaders, REDACTED } from '../redact.js'
+import type { Middleware, MiddlewareRequest, MiddlewareResponse } from '../middleware.js'
+import type { HttpMethod } from '../types.js'
+
+const CASSETTE_VERSION = 1
+
+/** API keys that may leak into bodies or headers, e.g. in error messages */
+const SECRET_KEY_PATTERN = /\b(sk|pk)_(test|live)_[A-Za-z0-9]+/g
+
+/** Response headers that change on every request and are not worth keeping */
+const VOLATILE_HEADERS = new Set(['date', 'connection', 'keep-alive', 'transfer-encoding'])
+
+/**
+ * - `record`: send every request and write the interactions to the cassette
+ * - `replay`: answer from the cassette and never touch the network
+ * - `auto`: replay if the cassette file exists, record otherwise
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto'
+
+export interface CassetteRequest {
+  method: HttpMethod
+  /** Path and query string, e.g. `/v1/charges?limit=10` */
+  path: string
+  body?: any
+}
+
+export interface CassetteInteraction {
+  request: CassetteRequest
+  response: MiddlewareResponse
+}
+
+export interface CassetteFile {
+  version: number
+  recordedAt: string
+  interactions: CassetteInteraction[]
+}
+
+export interface CassetteOptions {
+  /** Default `auto` */
+  mode?: CassetteMode
+  /**
+   * Decide whether a recorded interaction answers a request (default:
+   * same method, path, query and scrubbed body)
+   */
+  match?: (request: CassetteRequest, recorded: CassetteRequest) => boolean
+}
+
+/**
+ * The cassette has no interaction for a request, or was left with
+ * interactions that were never played
+ */
+export class VaultixCassetteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VaultixCassetteError'
+  }
+}
+
+/**
+ * A recorder/player for API interactions, plugged into the client as
+ * middleware
+ *
+ * Recorded requests and responses are scrubbed before they are written:
+ * API keys, authorization headers, card numbers (all but the last four
+ * digits), CVCs, documents and bank details never reach the file.
+ *
+ * Interactions are replayed in order: each request is answered by the
+ * first unplayed interaction that matches it, so repeated identical
+ * requests (e.g. polling a charge) get their recorded responses in turn.
+ *
+ * @example
+ * ```ts
+ * import { Cassette } from '@vaultix/sdk/testing'
+ *
+ * const cassette = new Cassette('test/cassettes/pix-charge.json', {
+ *   mode: process.env.CI ? 'replay' : 'auto',
+ * })
+ *
+ * const vaultix = new Vaultix({
+ *   secretKey: process.env.VAULTIX_SECRET_KEY ?? 'sk_test_replay',
+ *   middleware: [cassette.middleware],
+ * })
+ *
+ * const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+ * cassette.assertAllPlayed()
+ * ```
+ */
+export class Cassette {
+  readonly mode: Exclude<CassetteMode, 'auto'>
+
+  private readonly match: NonNullable<CassetteOptions['match']>
+  private interactions: CassetteInteraction[] = []
+  private readonly played = new Set<number>()
+  private loaded?: Promise<void>
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(
+    readonly path: string,
+    options: CassetteOptions = {}
+  ) {
+    const mode = options.mode ?? 'auto'
+    this.mode = mode === 'auto' ? (existsSync(path) ? 'replay' : 'record') : mode
+    this.match = options.match ?? defaultMatch
+  }
+
+  /**
+   * Middleware to register with `VaultixConfig.middleware` or `vaultix.use`
+   */
+  readonly middleware: Middleware = async (request, next) => {
+    await this.load()
+
+    const recorded = toCassetteRequest(request)
+
+    if (this.mode === 'replay') {
+      return this.replay(recorded)
+    }
+
+    const response = await next(request)
+
+    this.interactions.push({
+      request: recorded,
+      response: scrub({
+        status: response.status,
+        headers: withoutVolatileHeaders(redactHeaders(response.headers)),
+        body: redactBody(response.body),
+      }),
+    })
+    await this.save()
+
+    return response
+  }
+
+  /**
+   * Interactions recorded so far, or loaded from the cassette
+   */
+  get recorded(): readonly CassetteInteraction[] {
+    return this.interactions
+  }
+
+  /**
+   * Throw if some recorded interactions were never replayed, e.g. because
+   * the code under test stopped making a request
+   */
+  assertAllPlayed(): void {
+    if (this.mode !== 'replay') return
+
+    const unplayed = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ index }) => !this.played.has(index))
+
+    if (unplayed.length > 0) {
+      const list = unplayed.map(({ interaction }) => `  ${interaction.request.method} ${interaction.request.path}`).join('\n')
+      throw new VaultixCassetteError(`${unplayed.length} interaction(s) in ${this.path} were never played:\n${list}`)
+    }
+  }
+
+  /**
+   * Replay the cassette from the start
+   */
+  rewind(): void {
+    this.played.clear()
+  }
+
+  private replay(request: CassetteRequest): MiddlewareResponse {
+    const index = this.interactions.findIndex((interaction, i) =>
+      !this.played.has(i) && this.match(request, interaction.request)
+    )
+
+    if (index === -1) {
+      throw new VaultixCassetteError(
+        `No interaction in ${this.path} matches ${request.method} ${request.path}` +
+        (request.body !== undefined ? ` with body ${JSON.stringify(request.body)}` : '') +
+        '. Record the cassette again if the requests changed.'
+      )
+    }
+
+    this.played.add(index)
+    return structuredClone(this.interactions[index].response)
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.mode === 'replay' ? this.read() : Promise.resolve()
+    return this.loaded
+  }
+
+  private async read(): Promise<void> {
+    let file: CassetteFile
+
+    try {
+      file = JSON.parse(await readFile(this.path, 'utf8'))
+    } catch (error) {
+      throw new VaultixCassetteError(`Cannot read cassette ${this.path}: ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+      throw new VaultixCassetteError(`Unsupported cassette format in ${this.path}`)
+    }
+
+    this.interactions = file.interactions
+  }
+
+  /**
+   * Write the cassette atomically; writes are queued so concurrent requests
+   * never interleave, and each one writes every interaction recorded so far
+   */
+  private save(): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const file: CassetteFile = {
+        version: CASSETTE_VERSION,
+        recordedAt: new Date().toISOString(),
+        interactions: this.interactions,
+      }
+
+      const temp = `${this.path}.${randomUUID()}.tmp`
+      await mkdir(dirname(this.path), { recursive: true })
+      await writeFile(temp, JSON.stringify(file, null, 2) + '\n')
+      await rename(temp, this.path)
+    })
+
+    return this.writing
+  }
+}
+
+function toCassetteRequest(request: MiddlewareRequest): CassetteRequest {
+  const url = new URL(request.url)
+  const index = url.pathname.indexOf('/v1/')
+  const path = (index === -1 ? url.pathname : url.pathname.slice(index)) + url.search
+
+  return scrub({
+    method: request.method,
+    path,
+    body: request.body === undefined ? undefined : redactBody(request.body),
+  })
+}
+
+function defaultMatch(request: CassetteRequest, recorded: CassetteRequest): boolean {
+  return request.method === recorded.method &&
+    request.path === recorded.path &&
+    JSON.stringify(request.body) === JSON.stringify(recorded.body)
+}
+
+function withoutVolatileHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).filter(([key]) => !VOLATILE_HEADERS.has(key)))
+}
+
+/**
+ * Remove any API key that slipped past field-based redaction
+ */
+function scrub<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value).replace(SECRET_KEY_PATTERN, REDACTED))
+}
@@ -0,0 +1,34 @@
+/**
+ * Vaultix Testing
+ *
+ * In-memory fake of the Vaultix API, record/replay cassettes and signed
+ * test webhooks for offline tests
+ *
+ * @example
+ * ```ts
+ * import { createMockVaultix } from '@vaultix/sdk/testing'
+ *
+ * const { vaultix, server } = createMockVaultix()
+ * ```
+ */
+
+export { MockVaultixServer, createMockVaultix } from './mock-server.js'
+export { MockStore, MockError, paginate } from './mock-store.js'
+export { Cassette, VaultixCassetteError } from './cassette.js'
+export { generateTestWebhook, sendTestWebhook } from './webhooks.js'
+
+export type { MockVaultixOptions, MockRequestRecord } from './mock-server.js'
+export type { MockIdempotencyRecord } from './mock-store.js'
+export type {
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteInteraction,
+  CassetteFile,
+} from './cassette.js'
+export type {
+  TestWebhookOptions,
+  TestWebhook,
+  TestWebhookDelivery,
+  TestWebhookTarget,
+} from './webhooks.js'
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { VaultixAuthenticationError, VaultixCardError, VaultixInvalidRequestError } from '../errors.js'
+import { Vaultix } from '../vaultix.js'
+import { createMockVaultix, MockVaultixServer } from './mock-server.js'
+
+const card = { number: '4242424242424242', exp_month: 12, exp_year: 2099, cvc: '123' }
+
+describe('mock server', () => {
+  it('creates, retrieves and lists charges', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const first = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+    const second = await vaultix.charges.create({ amount: 7500, payment_method: 'boleto' })
+
+    expect(first).toMatchObject({ object: 'charge', amount: 5000, currency: 'BRL', status: 'pending' })
+    expect(first.pix.qr_code).toMatch(/^000201/)
+    expect(second.boleto.barcode).toMatch(/^\d{44}$/)
+    expect(await vaultix.charges.retrieve(first.id)).toMatchObject({ id: first.id, amount: 5000 })
+
+    const charges = await vaultix.charges.list()
+    expect(charges.data.map(charge => charge.id)).toEqual([second.id, first.id])
+  })
+
+  it('charges cards through tokens', async () => {
+    const { vaultix, server } = createMockVaultix()
+
+    const token = await vaultix.tokens.create({ card })
+    const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'credit_card', card: { token: token.id } })
+
+    expect(token.card).toMatchObject({ brand: 'visa', last4: '4242' })
+    expect(token).not.toHaveProperty('number')
+    expect(charge.status).toBe('paid')
+    expect(server.store.events.map(event => event.type)).toEqual(['charge.created', 'charge.paid'])
+    expect((await vaultix.balance.retrieve()).available[0].amount).toBe(5000)
+  })
+
+  it('declines test cards with card errors', async () => {
+    const { vaultix } = createMockVaultix()
+    const token = await vaultix.tokens.create({ card: { ...card, number: '4000000000000002' } })
+
+    const error = await vaultix.charges
+      .create({ amount: 5000, payment_method: 'credit_card', card: { token: token.id } })
+      .catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixCardError)
+    expect(error.code).toBe('card_declined')
+  })
+
+  it('rejects invalid card details when tokenizing', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const error = await vaultix.tokens.create({ card: { ...card, cvc: '1' } }).catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixCardError)
+    expect(error).toMatchObject({ code: 'invalid_cvc', param: 'card[cvc]' })
+  })
+
+  it('answers unknown objects with 404s', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const error = await vaultix.charges.retrieve('ch_nope').catch(error => error)
+
+    expect(error).toBeInstanceOf(VaultixInvalidRequestError)
+    expect(error).toMatchObject({ statusCode: 404, code: 'resource_missing', message: "No such charge: 'ch_nope'" })
+
+  })
+
+  it('answers unknown routes with 404s', async () => {
+    const server = new MockVaultixServer()
+
+    const response = await server.fetch('https://api.vaultix.test/v1/nope', {
+      headers: { Authorization: `Bearer ${server.secretKey}` },
+    })
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toMatchObject({ error: { code: 'route_not_found' } })
+  })
+
+  it('rejects other secret keys', async () => {
+    const server = new MockVaultixServer()
+    const vaultix = new Vaultix({ secretKey: 'sk_test_other', fetch: server.fetch })
+
+    await expect(vaultix.balance.retrieve()).rejects.toBeInstanceOf(VaultixAuthenticationError)
+  })
+
+  it('replays idempotent requests', async () => {
+    const { vaultix, server } = createMockVaultix()
+    const params = { amount: 5000, payment_method: 'pix' as const }
+
+    const first = await vaultix.charges.create(params, { idempotencyKey: 'key_1' })
+    const second = await vaultix.charges.create(params, { idempotencyKey: 'key_1' })
+
+    expect(second.id).toBe(first.id)
+    expect(second.lastResponse.headers['idempotent-replayed']).toBe('true')
+    expect(server.store.charges.size).toBe(1)
+  })
+
+  it('fails the next requests on demand', async () => {
+    const { vaultix, server } = createMockVaultix()
+    server.failNext(503, { times: 2 })
+
+    const balance = await vaultix.balance.retrieve()
+
+    expect(balance.lastResponse.attempts).toBe(3)
+    expect(server.requests).toHaveLength(3)
+  })
+
+  it('moves charges through the sandbox endpoints', async () => {
+    const { vaultix } = createMockVaultix()
+    const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+
+    expect((await vaultix.sandbox.payCharge(charge.id)).status).toBe('paid')
+    await expect(vaultix.sandbox.expireCharge(charge.id)).rejects.toMatchObject({ code: 'charge_not_pending' })
+  })
+
+  it('clears state on reset', async () => {
+    const { vaultix, server } = createMockVaultix()
+    await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+
+    server.reset()
+
+    expect(server.store.charges.size).toBe(0)
+    expect(server.requests).toHaveLength(0)
+  })
+})
+
+describe('mock HTTP server', () => {
+  const server = new MockVaultixServer()
+
+  afterEach(() => server.close())
+
+  it('serves the API over HTTP', async () => {
+    const baseUrl = await server.listen()
+    const vaultix = new Vaultix({ secretKey: server.secretKey, baseUrl })
+
+    const customer = await vaultix.customers.create({ name: 'Maria', email: 'maria@email.com' })
+
+    expect(customer.id).toMatch(/^cus_/)
+    expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/v1/customers' })
+  })
+})
@@ -0,0 +1,1344 @@
+/**
+ * Mock Vaultix Server
+ *
+ * In-memory implementation of the Vaultix API for offline tests. Use it
+ * through an injected `fetch` or as a local HTTP server via `baseUrl`.
+ */
+
+import { createServer } from 'node:http'
+import type { IncomingMessage, Server, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createBoletoBarcode } from '../boleto.js'
+import { detectCardBrand } from '../cards.js'
+import { createDynamicPixCode } from '../pix.js'
+import { Vaultix } from '../vaultix.js'
+import { MockError, MockStore, paginate } from './mock-store.js'
+import { generateTestWebhook, sendTestWebhook } from './webhooks.js'
+import type {
+  Charge,
+  Currency,
+  Customer,
+  FetchFunction,
+  HttpMethod,
+  PaymentLink,
+  PaymentMethod,
+  Payout,
+  Refund,
+  TestCard,
+  Token,
+  VaultixConfig,
+  VaultixError,
+} from '../types.js'
+import type { Order, OrderItem } from '../resources/orders.js'
+import type { Product } from '../resources/products.js'
+import type { Transaction, TransactionSummary } from '../resources/transactions.js'
+
+const CURRENCIES: Currency[] = ['BRL', 'USD', 'EUR']
+const PAYMENT_METHODS: PaymentMethod[] = ['pix', 'credit_card', 'boleto']
+const MIN_AMOUNT = 100
+
+const TEST_CARDS: TestCard[] = [
+  { number: '4242424242424242', brand: 'visa', behavior: 'success', description: 'Payment succeeds' },
+  { number: '4000000000000002', brand: 'visa', behavior: 'card_declined', description: 'Card is declined' },
+  { number: '4000000000009995', brand: 'visa', behavior: 'insufficient_funds', description: 'Insufficient funds' },
+  { number: '5555555555554444', brand: 'mastercard', behavior: 'success', description: 'Payment succeeds' },
+  { number: '378282246310005', brand: 'amex', behavior: 'success', description: 'Payment succeeds' },
+]
+
+const DECLINE_MESSAGES: Record<string, string> = {
+  card_declined: 'Your card was declined',
+  insufficient_funds: 'Your card has insufficient funds',
+}
+
+const SUMMARY_PERIODS: Record<string, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+}
+
+export interface MockVaultixOptions {
+  /** Secret key the server accepts (default `sk_test_mock`) */
+  secretKey?: string
+  /** Deliver `sandbox.testWebhook` calls to this endpoint, signed with `secret` */
+  webhook?: {
+    url: string
+    secret: string
+  }
+}
+
+export interface MockRequestRecord {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string>
+  body?: any
+}
+
+interface RouteContext {
+  params: Record<string, string>
+  query: URLSearchParams
+  body: any
+}
+
+interface Route {
+  method: HttpMethod
+  pattern: RegExp
+  keys: string[]
+  handler: (context: RouteContext) => unknown
+}
+
+interface InjectedFailure {
+  status: number
+  error: VaultixError
+  headers: Record<string, string>
+}
+
+export class MockVaultixServer {
+  /** Secret key accepted by the server */
+  readonly secretKey: string
+  /** Current state: charges, customers, balance, recorded events, ... */
+  readonly store = new MockStore()
+  /** Every request received, oldest first */
+  readonly requests: MockRequestRecord[] = []
+
+  private readonly routes: Route[] = []
+  private readonly failures: InjectedFailure[] = []
+  private readonly webhook?: MockVaultixOptions['webhook']
+  private server?: Server
+  private requestSequence = 0
+
+  constructor(options: MockVaultixOptions = {}) {
+    this.secretKey = options.secretKey ?? 'sk_test_mock'
+    this.webhook = options.webhook
+    this.registerRoutes()
+  }
+
+  /**
+   * A fetch function answering from this server, for `VaultixConfig.fetch`
+   */
+  readonly fetch: FetchFunction = (url, init) => this.handle(new Request(url, init))
+
+  /**
+   * Answer a Web `Request` as the Vaultix API would
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const index = url.pathname.indexOf('/v1/')
+    const path = index === -1 ? url.pathname : url.pathname.slice(index)
+    const method = request.method.toUpperCase() as HttpMethod
+    const text = await request.text()
+    const headers = Object.fromEntries(request.headers.entries())
+
+    let body: any
+    try {
+      body = text ? JSON.parse(text) : undefined
+    } catch {
+      return this.respond(400, { error: { type: 'invalid_request_error', code: 'invalid_json', message: 'Request body is not valid JSON' } })
+    }
+
+    this.requests.push({ method, path, query: Object.fromEntries(url.searchParams.entries()), headers, body })
+
+    if (headers['authorization'] !== `Bearer ${this.secretKey}`) {
+      return this.respond(401, {
+        error: { type: 'authentication_error', code: 'invalid_api_key', message: 'Invalid API key provided' },
+      })
+    }
+
+    const failure = this.failures.shift()
+    if (failure) {
+      return this.respond(failure.status, { error: failure.error }, failure.headers)
+    }
+
+    const idempotencyKey = headers['idempotency-key']
+    const fingerprint = `${method} ${path} ${text}`
+
+    if (method !== 'GET' && idempotencyKey) {
+      const record = this.store.idempotency.get(idempotencyKey)
+
+      if (record && record.fingerprint !== fingerprint) {
+        return this.respond(400, {
+          error: {
+            type: 'idempotency_error',
+            code: 'idempotency_key_reused',
+            message: 'Keys for idempotent requests can only be used with the same parameters they were first used with',
+          },
+        })
+      }
+
+      if (record) {
+        return this.respond(record.status, record.body, { 'idempotent-replayed': 'true' })
+      }
+    }
+
+    let status = 200
+    let result: unknown
+
+    try {
+      result = await this.dispatch(method, path, url.searchParams, body)
+    } catch (error) {
+      if (!(error instanceof MockError)) throw error
+      status = error.status
+      result = { error: error.error }
+    }
+
+    if (method !== 'GET' && idempotencyKey) {
+      this.store.idempotency.set(idempotencyKey, { fingerprint, status, body: result })
+    }
+
+    return this.respond(status, result)
+  }
+
+  /**
+   * Make the next request(s) fail with the given status, e.g. to exercise retries
+   */
+  failNext(status = 500, options: { times?: number; error?: Partial<VaultixError>; headers?: Record<string, string> } = {}): void {
+    for (let i = 0; i < (options.times ?? 1); i++) {
+      this.failures.push({
+        status,
+        headers: options.headers ?? {},
+        error: {
+          type: status === 429 ? 'rate_limit_error' : status < 500 ? 'invalid_request_error' : 'api_error',
+          code: status === 429 ? 'rate_limit' : 'mock_failure',
+          message: `Injected failure (${status})`,
+          ...options.error,
+        },
+      })
+    }
+  }
+
+  /**
+   * Add an order (the API has no endpoint to create orders)
+   */
+  seedOrder(order: Partial<Order> & { items?: Array<Partial<OrderItem>> } = {}): Order {
+    const id = order.id ?? this.store.id('ord')
+    const items: OrderItem[] = (order.items ?? []).map(item => {
+      const quantity = item.quantity ?? 1
+      const unitPrice = item.unit_price ?? 1000
+      return {
+        id: this.store.id('oi'),
+        object: 'order_item',
+        product_id: item.product_id ?? this.store.id('prod'),
+        name: item.name ?? 'Item',
+        quantity,
+        unit_price: unitPrice,
+        subtotal: quantity * unitPrice,
+        total: quantity * unitPrice,
+        ...item,
+      } as OrderItem
+    })
+    const subtotal = items.reduce((sum, item) => sum + item.total, 0)
+
+    const created: Order & { items: OrderItem[] } = {
+      object: 'order',
+      order_number: String(this.store.orders.size + 1).padStart(6, '0'),
+      status: 'pending',
+      payment_status: 'pending',
+      fulfillment_status: 'unfulfilled',
+      billing_address: {},
+      shipping_address: {},
+      amounts: { subtotal, total: subtotal },
+      currency: 'BRL',
+      payment: {},
+      shipping: {},
+      created_at: this.store.now(),
+      livemode: false,
+      ...order,
+      id,
+      items,
+    }
+
+    this.store.orders.set(id, created)
+    return this.withoutItems(created)
+  }
+
+  /**
+   * Start a local HTTP server and resolve with its base URL
+   */
+  listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handleNode(req, res).catch(error => {
+          res.statusCode = 500
+          res.end(JSON.stringify({ error: { type: 'api_error', code: 'mock_error', message: String(error) } }))
+        })
+      })
+
+      server.once('error', reject)
+      server.listen(port, host, () => {
+        this.server = server
+        const address = server.address() as AddressInfo
+        resolve(`http://${host}:${address.port}`)
+      })
+    })
+  }
+
+  /**
+   * Stop the HTTP server started by `listen`
+   */
+  close(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+
+    if (!server) return Promise.resolve()
+
+    return new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()))
+    })
+  }
+
+  /**
+   * Clear all state, recorded requests and injected failures
+   */
+  reset(): void {
+    this.store.reset()
+    this.requests.length = 0
+    this.failures.length = 0
+  }
+
+  private async handleNode(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+
+    const headers = new Headers()
+    for (const [key, value] of Object.entries(req.headers)) {
+      if (typeof value === 'string') headers.set(key, value)
+    }
+
+    const body = chunks.length > 0 ? Buffer.concat(chunks).toString('utf8') : undefined
+    const response = await this.handle(new Request(`http://${req.headers.host ?? 'localhost'}${req.url}`, {
+      method: req.method,
+      headers,
+      body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+    }))
+
+    res.statusCode = response.status
+    response.headers.forEach((value, key) => res.setHeader(key, value))
+    res.end(await response.text())
+  }
+
+  private respond(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+    this.requestSequence += 1
+
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: {
+        'content-type': 'application/json',
+        'x-request-id': `req_mock_${String(this.requestSequence).padStart(6, '0')}`,
+        ...headers,
+      },
+    })
+  }
+
+  private async dispatch(method: HttpMethod, path: string, query: URLSearchParams, body: any): Promise<unknown> {
+    for (const route of this.routes) {
+      if (route.method !== method) continue
+
+      const match = route.pattern.exec(path)
+      if (!match) continue
+
+      const params: Record<string, string> = {}
+      route.keys.forEach((key, i) => {
+        params[key] = decodeURIComponent(match[i + 1])
+      })
+
+      return route.handler({ params, query, body: body ?? {} })
+    }
+
+    throw new MockError(404, {
+      type: 'invalid_request_error',
+      code: 'route_not_found',
+      message: `Unrecognized request URL (${method}: ${path})`,
+    })
+  }
+
+  private route(method: HttpMethod, path: string, handler: (context: RouteContext) => unknown): void {
+    const keys: string[] = []
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key)
+      return '([^/]+)'
+    })}/?$`)
+
+    this.routes.push({ method, pattern, keys, handler })
+  }
+
+  private registerRoutes(): void {
+    // Charges
+    this.route('POST', '/v1/charges', ({ body }) => this.createCharge(body))
+    this.route('GET', '/v1/charges', ({ query }) => paginate(this.filter([...this.store.charges.values()], query, ['status', 'payment_method']), query))
+    this.route('GET', '/v1/charges/:id', ({ params }) => this.charge(params.id))
+    this.route('POST', '/v1/charges/:id/capture', ({ params, body }) => this.captureCharge(params.id, body))
+    this.route('POST', '/v1/charges/:id/cancel', ({ params }) => this.cancelCharge(params.id))
+
+    // Customers
+    this.route('POST', '/v1/customers', ({ body }) => this.createCustomer(body))
+    this.route('GET', '/v1/customers', ({ query }) => paginate(this.filter([...this.store.customers.values()], query, ['email']), query))
+    this.route('GET', '/v1/customers/:id', ({ params }) => this.customer(params.id))
+    this.route('PUT', '/v1/customers/:id', ({ params, body }) => this.updateCustomer(params.id, body))
+    this.route('DELETE', '/v1/customers/:id', ({ params }) => this.deleteCustomer(params.id))
+
+    // Tokens
+    this.route('POST', '/v1/tokens', ({ body }) => this.createToken(body))
+    this.route('GET', '/v1/tokens/:id', ({ params }) => this.publicToken(this.token(params.id)))
+
+    // Refunds
+    this.route('POST', '/v1/refunds', ({ body }) => this.createRefund(body))
+    this.route('GET', '/v1/refunds', ({ query }) => paginate(this.filter([...this.store.refunds.values()], query, ['charge']), query))
+    this.route('GET', '/v1/refunds/:id', ({ params }) => this.refund(params.id))
+
+    // Balance
+    this.route('GET', '/v1/balance', () => this.store.balance())
+    this.route('GET', '/v1/balance/transactions', ({ query }) => paginate(this.filter([...this.store.balanceTransactions.values()], query, ['type']), query))
+
+    // Payment links
+    this.route('POST', '/v1/payment-links', ({ body }) => this.createPaymentLink(body))
+    this.route('GET', '/v1/payment-links', ({ query }) => paginate(this.filter([...this.store.paymentLinks.values()], query, ['status']), query))
+    this.route('GET', '/v1/payment-links/:id', ({ params }) => this.paymentLink(params.id))
+    this.route('POST', '/v1/payment-links/:id/deactivate', ({ params }) => this.deactivatePaymentLink(params.id))
+    this.route('GET', '/v1/payment-links/:id/payments', ({ params, query }) => {
+      this.paymentLink(params.id)
+      const charges = [...this.store.charges.values()].filter(charge => charge.metadata?.payment_link === params.id)
+      return paginate(charges, query)
+    })
+
+    // Payouts
+    this.route('POST', '/v1/payouts', ({ body }) => this.createPayout(body))
+    this.route('GET', '/v1/payouts', ({ query }) => paginate(this.filter([...this.store.payouts.values()], query, ['status']), query))
+    this.route('GET', '/v1/payouts/:id', ({ params }) => this.payout(params.id))
+    this.route('POST', '/v1/payouts/:id/cancel', ({ params }) => this.cancelPayout(params.id))
+
+    // Products
+    this.route('POST', '/v1/products', ({ body }) => this.createProduct(body))
+    this.route('GET', '/v1/products', ({ query }) => this.listProducts(query))
+    this.route('GET', '/v1/products/:id', ({ params }) => this.product(params.id))
+    this.route('PUT', '/v1/products/:id', ({ params, body }) => this.updateProduct(params.id, body))
+    this.route('DELETE', '/v1/products/:id', ({ params }) => this.deleteProduct(params.id))
+
+    // Orders
+    this.route('GET', '/v1/orders', ({ query }) => this.listOrders(query))
+    this.route('GET', '/v1/orders/:id', ({ params, query }) => {
+      const order = this.order(params.id)
+      return query.get('expand') === 'items' ? order : this.withoutItems(order)
+    })
+    this.route('GET', '/v1/orders/:id/items', ({ params, query }) => paginate([...this.order(params.id).items].reverse(), query))
+
+    // Transactions
+    this.route('GET', '/v1/transactions', ({ query }) => this.listTransactions(query))
+    this.route('GET', '/v1/transactions/summary', ({ query }) => this.transactionSummary(query.get('period') ?? '30d'))
+    this.route('GET', '/v1/transactions/:id', ({ params }) => this.transaction(params.id))
+
+    // Sandbox
+    this.route('POST', '/v1/sandbox/charges/:id/pay', ({ params }) => this.payCharge(params.id))
+    this.route('POST', '/v1/sandbox/charges/:id/fail', ({ params }) => this.failCharge(params.id))
+    this.route('POST', '/v1/sandbox/charges/:id/expire', ({ params }) => this.expireCharge(params.id))
+    this.route('POST', '/v1/sandbox/refunds/:id/succeed', ({ params }) => this.succeedRefund(params.id))
+    this.route('POST', '/v1/sandbox/webhooks/test', ({ body }) => this.testWebhook(body))
+    this.route('GET', '/v1/sandbox/test-cards', () => ({
+      object: 'list',
+      data: TEST_CARDS,
+      has_more: false,
+      cvc: 'Any 3 digits (4 for Amex)',
+      expiry: 'Any future date',
+    }))
+  }
+
+  // ============================================
+  // CHARGES
+  // ============================================
+
+  private charge(id: string): Charge {
+    const charge = this.store.charges.get(id)
+    if (!charge) throw MockError.notFound('charge', id)
+    return charge
+  }
+
+  private createCharge(body: any): Charge {
+    const amount = this.requireAmount(body.amount)
+    const currency = this.currency(body.currency)
+
+    if (!body.payment_method) throw MockError.missing('payment_method')
+    if (!PAYMENT_METHODS.includes(body.payment_method)) {
+      throw MockError.invalid('payment_method', `payment_method must be one of ${PAYMENT_METHODS.join(', ')}`)
+    }
+
+    if (body.customer?.id && !this.store.customers.has(body.customer.id)) {
+      throw MockError.invalid('customer[id]', `No such customer: '${body.customer.id}'`)
+    }
+
+    const id = this.store.id('ch')
+    const charge: Charge = {
+      id,
+      object: 'charge',
+      amount,
+      currency,
+      payment_method: body.payment_method,
+      status: 'pending',
+      description: body.description,
+      metadata: body.metadata,
+      created: this.store.now(),
+      livemode: false,
+    }
+
+    if (body.payment_method === 'pix') {
+      charge.pix = {
+        qr_code: mockPixCode(id, amount),
+        qr_code_url: `https://mock.vaultix.global/pix/${id}.png`,
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      }
+    }
+
+    if (body.payment_method === 'boleto') {
+      const dueDate = body.boleto?.due_date ?? new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      charge.boleto = {
+        barcode: mockBoletoBarcode(amount, dueDate, this.store.charges.size + 1),
+        pdf_url: `https://mock.vaultix.global/boleto/${id}.pdf`,
+        due_date: dueDate,
+      }
+    }
+
+    if (body.payment_method === 'credit_card') {
+      const token = this.useToken(body.card)
+      const installments = body.card.installments ?? 1
+
+      if (!Number.isInteger(installments) || installments < 1 || installments > 12) {
+        throw MockError.invalid('card[installments]', 'installments must be an integer between 1 and 12')
+      }
+
+      charge.card = {
+        brand: token.card.brand,
+        last4: token.card.last4,
+        exp_month: token.card.exp_month,
+        exp_year: token.card.exp_year,
+      }
+
+      const behavior = TEST_CARDS.find(card => card.number === token.number)?.behavior ?? 'success'
+
+      if (behavior !== 'success') {
+        charge.status = 'failed'
+        this.store.charges.set(id, charge)
+
+        throw new MockError(402, {
+          type: 'card_error',
+          code: behavior,
+          message: DECLINE_MESSAGES[behavior] ?? 'Your card was declined',
+          param: 'card',
+        })
+      }
+
+      charge.status = body.card.capture === false ? 'authorized' : 'paid'
+    }
+
+    this.store.charges.set(id, charge)
+    this.store.emit('charge.created', charge)
+
+    if (charge.status === 'paid') {
+      this.settleCharge(charge)
+    }
+
+    return charge
+  }
+
+  private captureCharge(id: string, body: any): Charge {
+    const charge = this.charge(id)
+
+    if (charge.status !== 'authorized') {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'charge_not_capturable',
+        message: `Charge ${id} is ${charge.status} and cannot be captured`,
+      })
+    }
+
+    if (body.amount !== undefined) {
+      const amount = this.requireAmount(body.amount)
+      if (amount > charge.amount) {
+        throw MockError.invalid('amount', 'amount cannot exceed the authorized amount')
+      }
+      charge.amount = amount
+    }
+
+    charge.status = 'paid'
+    this.store.emit('charge.captured', charge)
+    this.settleCharge(charge)
+    return charge
+  }
+
+  private cancelCharge(id: string): Charge {
+    const charge = this.charge(id)
+
+    if (charge.status !== 'pending' && charge.status !== 'authorized') {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'charge_not_cancelable',
+        message: `Charge ${id} is ${charge.status} and cannot be canceled`,
+      })
+    }
+
+    charge.status = 'canceled'
+    this.store.emit('charge.canceled', charge)
+    return charge
+  }
+
+  private settleCharge(charge: Charge): void {
+    this.store.recordBalanceTransaction('charge', charge.amount, charge.currency, charge.id, charge.description)
+    this.store.emit('charge.paid', charge)
+
+    const linkId = charge.metadata?.payment_link
+    const link = typeof linkId === 'string' ? this.store.paymentLinks.get(linkId) : undefined
+    if (link) link.current_uses += 1
+  }
+
+  private refundedAmount(chargeId: string): number {
+    return [...this.store.refunds.values()]
+      .filter(refund => refund.charge === chargeId && refund.status !== 'failed')
+      .reduce((sum, refund) => sum + refund.amount, 0)
+  }
+
+  // ============================================
+  // CUSTOMERS
+  // ============================================
+
+  private customer(id: string): Customer {
+    const customer = this.store.customers.get(id)
+    if (!customer) throw MockError.notFound('customer', id)
+    return customer
+  }
+
+  private createCustomer(body: any): Customer {
+    if (!body.name) throw MockError.missing('name')
+    if (!body.email) throw MockError.missing('email')
+
+    const customer: Customer = {
+      id: this.store.id('cus'),
+      object: 'customer',
+      name: body.name,
+      email: body.email,
+      document: body.document,
+      phone: body.phone,
+      address: body.address,
+      metadata: body.metadata,
+      created: this.store.now(),
+      livemode: false,
+    }
+
+    this.store.customers.set(customer.id, customer)
+    this.store.emit('customer.created', customer)
+    return customer
+  }
+
+  private updateCustomer(id: string, body: any): Customer {
+    const customer = this.customer(id)
+    const { id: _, object: __, created: ___, livemode: ____, ...changes } = body
+
+    Object.assign(customer, changes)
+    this.store.emit('customer.updated', customer)
+    return customer
+  }
+
+  private deleteCustomer(id: string): { id: string; object: 'customer'; deleted: boolean } {
+    const customer = this.customer(id)
+
+    this.store.customers.delete(id)
+    this.store.emit('customer.deleted', customer)
+    return { id, object: 'customer', deleted: true }
+  }
+
+  // ============================================
+  // TOKENS
+  // ============================================
+
+  private token(id: string): Token & { number: string } {
+    const token = this.store.tokens.get(id)
+    if (!token) throw MockError.notFound('token', id)
+    return token
+  }
+
+  private publicToken(token: Token & { number: string }): Token {
+    const { number: _, ...rest } = token
+    return rest
+  }
+
+  private createToken(body: any): Token {
+    const card = body.card
+    if (!card) throw MockError.missing('card')
+
+    const number = String(card.number ?? '').replace(/\D/g, '')
+    if (!number) throw MockError.missing('card[number]')
+    if (number.length < 13 || number.length > 19) {
+      throw new MockError(402, { type: 'card_error', code: 'invalid_number', message: 'The card number is invalid', param: 'card[number]' })
+    }
+
+    if (!Number.isInteger(card.exp_month) || card.exp_month < 1 || card.exp_month > 12) {
+      throw new MockError(402, { type: 'card_error', code: 'invalid_expiry_month', message: 'The expiration month is invalid', param: 'card[exp_month]' })
+    }
+
+    const now = new Date()
+    const expYear = card.exp_year < 100 ? 2000 + card.exp_year : card.exp_year
+    if (!Number.isInteger(expYear) || expYear < now.getFullYear() || (expYear === now.getFullYear() && card.exp_month < now.getMonth() + 1)) {
+      throw new MockError(402, { type: 'card_error', code: 'expired_card', message: 'The card has expired', param: 'card[exp_year]' })
+    }
+
+    if (!/^\d{3,4}$/.test(String(card.cvc ?? ''))) {
+      throw new MockError(402, { type: 'card_error', code: 'invalid_cvc', message: 'The security code is invalid', param: 'card[cvc]' })
+    }
+
+    const token: Token & { number: string } = {
+      id: this.store.id('tok'),
+      object: 'token',
+      card: {
+        brand: detectCardBrand(number) ?? 'unknown',
+        last4: number.slice(-4),
+        exp_month: card.exp_month,
+        exp_year: expYear,
+        name: card.name,
+      },
+      created: this.store.now(),
+      livemode: false,
+      used: false,
+      number,
+    }
+
+    this.store.tokens.set(token.id, token)
+    return this.publicToken(token)
+  }
+
+  private useToken(card: any): Token & { number: string } {
+    if (!card?.token) throw MockError.missing('card[token]')
+
+    const token = this.store.tokens.get(card.token)
+    if (!token) throw MockError.invalid('card[token]', `No such token: '${card.token}'`)
+    if (token.used) {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'token_already_used',
+        message: `Token ${card.token} has already been used`,
+        param: 'card[token]',
+      })
+    }
+
+    token.used = true
+    return token
+  }
+
+  // ============================================
+  // REFUNDS
+  // ============================================
+
+  private refund(id: string): Refund {
+    const refund = this.store.refunds.get(id)
+    if (!refund) throw MockError.notFound('refund', id)
+    return refund
+  }
+
+  private createRefund(body: any): Refund {
+    if (!body.charge) throw MockError.missing('charge')
+
+    const charge = this.store.charges.get(body.charge)
+    if (!charge) throw MockError.invalid('charge', `No such charge: '${body.charge}'`)
+
+    if (charge.status !== 'paid') {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'charge_not_refundable',
+        message: `Charge ${charge.id} is ${charge.status} and cannot be refunded`,
+        param: 'charge',
+      })
+    }
+
+    const remaining = charge.amount - this.refundedAmount(charge.id)
+    const amount = body.amount === undefined ? remaining : this.requireAmount(body.amount, 1)
+
+    if (amount > remaining) {
+      throw MockError.invalid('amount', `amount cannot exceed the refundable amount (${remaining})`)
+    }
+
+    const refund: Refund = {
+      id: this.store.id('re'),
+      object: 'refund',
+      amount,
+      charge: charge.id,
+      status: 'pending',
+      reason: body.reason,
+      created: this.store.now(),
+      livemode: false,
+    }
+
+    this.store.refunds.set(refund.id, refund)
+    this.store.emit('refund.created', refund)
+    return refund
+  }
+
+  // ============================================
+  // PAYMENT LINKS
+  // ============================================
+
+  private paymentLink(id: string): PaymentLink {
+    const link = this.store.paymentLinks.get(id)
+    if (!link) throw MockError.notFound('payment_link', id)
+    return link
+  }
+
+  private createPaymentLink(body: any): PaymentLink {
+    const amount = this.requireAmount(body.amount)
+    const id = this.store.id('plink')
+    const shortCode = id.slice(-6)
+
+    const link: PaymentLink = {
+      id,
+      object: 'payment_link',
+      url: `https://mock.vaultix.global/pay/${shortCode}`,
+      short_code: shortCode,
+      amount,
+      currency: this.currency(body.currency),
+      description: body.description,
+      payment_methods: body.payment_methods ?? PAYMENT_METHODS,
+      success_url: body.success_url,
+      cancel_url: body.cancel_url,
+      expires_at: body.expires_at,
+      max_uses: body.max_uses,
+      current_uses: 0,
+      metadata: body.metadata,
+      status: 'active',
+      created: this.store.now(),
+      livemode: false,
+    }
+
+    this.store.paymentLinks.set(id, link)
+    return link
+  }
+
+  private deactivatePaymentLink(id: string): PaymentLink {
+    const link = this.paymentLink(id)
+    link.status = 'inactive'
+    return link
+  }
+
+  // ============================================
+  // PAYOUTS
+  // ============================================
+
+  private payout(id: string): Payout {
+    const payout = this.store.payouts.get(id)
+    if (!payout) throw MockError.notFound('payout', id)
+    return payout
+  }
+
+  private createPayout(body: any): Payout {
+    const amount = this.requireAmount(body.amount)
+    const currency = this.currency(body.currency)
+    const destination = body.destination
+
+    if (!destination) throw MockError.missing('destination')
+
+    const isPix = Boolean(destination.pix_key)
+    if (!isPix && !(destination.bank_code && destination.branch && destination.account)) {
+      throw MockError.invalid('destination', 'destination requires a pix_key or bank_code, branch and account')
+    }
+
+    if (this.store.balanceFor(currency).available < amount) {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'balance_insufficient',
+        message: 'Insufficient available balance for this payout',
+        param: 'amount',
+      })
+    }
+
+    const payout: Payout = {
+      id: this.store.id('po'),
+      object: 'payout',
+      amount,
+      currency,
+      destination: {
+        type: isPix ? 'pix' : 'bank_account',
+        pix_key: destination.pix_key,
+        bank_code: destination.bank_code,
+        branch: destination.branch,
+        account: destination.account,
+        holder_name: destination.holder_name,
+      },
+      description: body.description,
+      metadata: body.metadata,
+      status: 'pending',
+      estimated_arrival: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      created: this.store.now(),
+      livemode: false,
+    }
+
+    this.store.payouts.set(payout.id, payout)
+    this.store.recordBalanceTransaction('payout', -amount, currency, payout.id, payout.description)
+    this.store.emit('payout.created', payout)
+    return payout
+  }
+
+  private cancelPayout(id: string): Payout {
+    const payout = this.payout(id)
+
+    if (payout.status !== 'pending') {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'payout_not_cancelable',
+        message: `Payout ${id} is ${payout.status} and cannot be canceled`,
+      })
+    }
+
+    payout.status = 'canceled'
+    this.store.recordBalanceTransaction('adjustment', payout.amount, payout.currency, payout.id, 'Payout canceled')
+    this.store.emit('payout.canceled', payout)
+    return payout
+  }
+
+  // ============================================
+  // PRODUCTS
+  // ============================================
+
+  private product(id: string): Product {
+    const product = this.store.products.get(id)
+    if (!product) throw MockError.notFound('product', id)
+    return product
+  }
+
+  private createProduct(body: any): Product {
+    if (!body.name) throw MockError.missing('name')
+    if (body.price === undefined) throw MockError.missing('price')
+    if (!Number.isInteger(body.price) || body.price < 0) {
+      throw MockError.invalid('price', 'price must be a non-negative integer in cents')
+    }
+
+    const product = {
+      id: this.store.id('prod'),
+      object: 'product',
+      currency: 'BRL',
+      stock_quantity: 0,
+      track_inventory: true,
+      status: 'active',
+      visibility: 'visible',
+      is_featured: false,
+      is_digital: false,
+      has_variants: false,
+      created_at: this.store.now(),
+      livemode: false,
+    } as Product
+
+    this.applyProductParams(product, body)
+    this.store.products.set(product.id, product)
+    this.store.emit('product.created', product)
+    return product
+  }
+
+  private updateProduct(id: string, body: any): Product {
+    const product = this.product(id)
+
+    if (body.price !== undefined && (!Number.isInteger(body.price) || body.price < 0)) {
+      throw MockError.invalid('price', 'price must be a non-negative integer in cents')
+    }
+
+    this.applyProductParams(product, body)
+    product.updated_at = this.store.now()
+    this.store.emit('product.updated', product)
+    return product
+  }
+
+  private deleteProduct(id: string): { id: string; object: 'product'; deleted: boolean } {
+    const product = this.product(id)
+
+    this.store.products.delete(id)
+    product.status = 'deleted'
+    this.store.emit('product.deleted', product)
+    return { id, object: 'product', deleted: true }
+  }
+
+  private applyProductParams(product: Product, body: any): void {
+    const {
+      length, width, height, dimension_unit,
+      meta_title, meta_description, meta_keywords,
+      ...fields
+    } = body
+
+    Object.assign(product, fields)
+
+    if ([length, width, height, dimension_unit].some(value => value !== undefined)) {
+      product.dimensions = { ...product.dimensions, length, width, height, unit: dimension_unit }
+    }
+
+    if ([meta_title, meta_description, meta_keywords].some(value => value !== undefined)) {
+      product.meta = { ...product.meta, title: meta_title, description: meta_description, keywords: meta_keywords }
+    }
+
+    product.slug = slugify(product.name)
+    product.is_active = product.status === 'active'
+    product.stock_status = !product.track_inventory || product.stock_quantity > 5
+      ? 'in_stock'
+      : product.stock_quantity > 0 ? 'low_stock' : 'out_of_stock'
+
+    if (product.status === 'active' && !product.published_at) {
+      product.published_at = this.store.now()
+    }
+  }
+
+  private listProducts(query: URLSearchParams) {
+    const search = query.get('search')?.toLowerCase()
+    let products = this.filter([...this.store.products.values()], query, ['status', 'category_id'])
+
+    for (const flag of ['is_active', 'is_featured'] as const) {
+      const value = query.get(flag)
+      if (value !== null) products = products.filter(product => String(product[flag]) === value)
+    }
+
+    if (search) {
+      products = products.filter(product =>
+        [product.name, product.description, product.sku].some(field => field?.toLowerCase().includes(search))
+      )
+    }
+
+    return paginate(products, query)
+  }
+
+  // ============================================
+  // ORDERS
+  // ============================================
+
+  private order(id: string): Order & { items: OrderItem[] } {
+    const order = this.store.orders.get(id)
+    if (!order) throw MockError.notFound('order', id)
+    return order
+  }
+
+  private withoutItems(order: Order): Order {
+    const { items: _, ...rest } = order
+    return rest
+  }
+
+  private listOrders(query: URLSearchParams) {
+    const orders = this.filterByDate(
+      this.filter([...this.store.orders.values()], query, ['status', 'payment_status', 'fulfillment_status', 'customer_id']),
+      query,
+      order => order.created_at
+    )
+    const page = paginate(orders, query)
+
+    return query.get('expand') === 'items' ? page : { ...page, data: page.data.map(order => this.withoutItems(order)) }
+  }
+
+  // ============================================
+  // TRANSACTIONS
+  // ============================================
+
+  private transactions(): Transaction[] {
+    const charges = [...this.store.charges.values()].map((charge): Transaction => ({
+      id: charge.id,
+      object: 'transaction',
+      type: 'charge',
+      status: charge.status,
+      amount: charge.amount,
+      currency: charge.currency,
+      fee_amount: 0,
+      net_amount: charge.amount,
+      payment_method: charge.payment_method,
+      source: 'charge',
+      source_id: charge.id,
+      description: charge.description,
+      metadata: charge.metadata,
+      created_at: charge.created,
+      livemode: false,
+    }))
+
+    const refunds = [...this.store.refunds.values()].map((refund): Transaction => ({
+      id: refund.id,
+      object: 'transaction',
+      type: 'refund',
+      status: refund.status,
+      amount: refund.amount,
+      currency: this.store.charges.get(refund.charge)?.currency ?? 'BRL',
+      net_amount: -refund.amount,
+      source: 'refund',
+      source_id: refund.charge,
+      created_at: refund.created,
+      livemode: false,
+    }))
+
+    const payouts = [...this.store.payouts.values()].map((payout): Transaction => ({
+      id: payout.id,
+      object: 'transaction',
+      type: 'payout',
+      status: payout.status,
+      amount: payout.amount,
+      currency: payout.currency,
+      net_amount: -payout.amount,
+      source: 'payout',
+      source_id: payout.id,
+      description: payout.description,
+      destination: payout.destination,
+      metadata: payout.metadata,
+      created_at: payout.created,
+      livemode: false,
+    }))
+
+    return [...charges, ...refunds, ...payouts].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  private transaction(id: string): Transaction {
+    const transaction = this.transactions().find(tx => tx.id === id)
+    if (!transaction) throw MockError.notFound('transaction', id)
+    return transaction
+  }
+
+  private listTransactions(query: URLSearchParams) {
+    let transactions = this.filter(this.transactions(), query, ['type', 'status', 'payment_method', 'source'])
+    transactions = this.filterByDate(transactions, query, tx => tx.created_at)
+
+    const min = query.get('min_amount')
+    const max = query.get('max_amount')
+    if (min !== null) transactions = transactions.filter(tx => tx.amount >= Number(min))
+    if (max !== null) transactions = transactions.filter(tx => tx.amount <= Number(max))
+
+    return paginate(transactions, query)
+  }
+
+  private transactionSummary(period: string): TransactionSummary {
+    const window = SUMMARY_PERIODS[period]
+    if (!window) throw MockError.invalid('period', `period must be one of ${Object.keys(SUMMARY_PERIODS).join(', ')}`)
+
+    const since = Date.now() - window
+    const recent = <T extends { created: string }>(items: Iterable<T>) =>
+      [...items].filter(item => Date.parse(item.created) >= since)
+
+    const charges = recent(this.store.charges.values())
+    const paid = charges.filter(charge => charge.status === 'paid' || charge.status === 'refunded')
+    const pending = charges.filter(charge => charge.status === 'pending' || charge.status === 'authorized')
+    const refunds = recent(this.store.refunds.values()).filter(refund => refund.status === 'succeeded')
+    const payouts = recent(this.store.payouts.values()).filter(payout => payout.status !== 'canceled' && payout.status !== 'failed')
+    const sum = (items: Array<{ amount: number }>) => items.reduce((total, item) => total + item.amount, 0)
+
+    return {
+      object: 'transaction_summary',
+      period,
+      currency: 'BRL',
+      charges: {
+        total_amount: sum(charges),
+        total_count: charges.length,
+        paid_amount: sum(paid),
+        paid_count: paid.length,
+        pending_amount: sum(pending),
+        pending_count: pending.length,
+        failed_count: charges.filter(charge => charge.status === 'failed').length,
+        total_fees: 0,
+      },
+      refunds: { total_amount: sum(refunds), total_count: refunds.length },
+      payouts: { total_amount: sum(payouts), total_count: payouts.length },
+      net_amount: sum(paid) - sum(refunds),
+    }
+  }
+
+  // ============================================
+  // SANDBOX
+  // ============================================
+
+  private pendingCharge(id: string, action: string): Charge {
+    const charge = this.charge(id)
+
+    if (charge.status !== 'pending' && !(action === 'fail' && charge.status === 'authorized')) {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'charge_not_pending',
+        message: `Charge ${id} is ${charge.status}; only pending charges can be ${action === 'pay' ? 'paid' : `${action}d`}`,
+      })
+    }
+
+    return charge
+  }
+
+  private payCharge(id: string): Charge {
+    const charge = this.pendingCharge(id, 'pay')
+    charge.status = 'paid'
+    this.settleCharge(charge)
+    return charge
+  }
+
+  private failCharge(id: string): Charge {
+    const charge = this.pendingCharge(id, 'fail')
+    charge.status = 'failed'
+    return charge
+  }
+
+  private expireCharge(id: string): Charge {
+    const charge = this.pendingCharge(id, 'expire')
+    charge.status = 'expired'
+    return charge
+  }
+
+  private succeedRefund(id: string): Refund {
+    const refund = this.refund(id)
+
+    if (refund.status !== 'pending') {
+      throw new MockError(400, {
+        type: 'invalid_request_error',
+        code: 'refund_not_pending',
+        message: `Refund ${id} is ${refund.status}`,
+      })
+    }
+
+    const charge = this.charge(refund.charge)
+
+    refund.status = 'succeeded'
+    this.store.recordBalanceTransaction('refund', -refund.amount, charge.currency, refund.id)
+    this.store.emit('refund.succeeded', refund)
+
+    const succeeded = [...this.store.refunds.values()]
+      .filter(item => item.charge === charge.id && item.status === 'succeeded')
+      .reduce((sum, item) => sum + item.amount, 0)
+
+    if (succeeded >= charge.amount) {
+      charge.status = 'refunded'
+      this.store.emit('charge.refunded', charge)
+    }
+
+    return refund
+  }
+
+  private async testWebhook(body: any) {
+    const eventType = body.event_type ?? 'charge.paid'
+    const webhook = generateTestWebhook({
+      type: eventType,
+      data: body.payload?.object,
+      secret: this.webhook?.secret,
+      id: this.store.id('evt'),
+    })
+
+    if (!this.webhook) {
+      return {
+        success: false,
+        error: 'No webhook endpoint configured',
+        event_id: webhook.event.id,
+        event_type: eventType,
+        webhook_url: '',
+        message: 'Configure a webhook endpoint to receive test events',
+      }
+    }
+
+    try {
+      const response = await sendTestWebhook(this.webhook.url, webhook)
+      const ok = response.status >= 200 && response.status < 300
+
+      return {
+        success: ok,
+        status_code: response.status,
+        event_id: webhook.event.id,
+        event_type: eventType,
+        webhook_url: this.webhook.url,
+        message: ok ? 'Webhook delivered' : 'Webhook endpoint returned an error',
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        event_id: webhook.event.id,
+        event_type: eventType,
+        webhook_url: this.webhook.url,
+        message: 'Webhook delivery failed',
+      }
+    }
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private requireAmount(value: unknown, minimum = MIN_AMOUNT): number {
+    if (value === undefined || value === null) throw MockError.missing('amount')
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      throw MockError.invalid('amount', 'amount must be an integer in cents')
+    }
+    if (value < minimum) throw MockError.invalid('amount', `amount must be at least ${minimum}`)
+    return value
+  }
+
+  private currency(value: unknown): Currency {
+    if (value === undefined) return 'BRL'
+    if (!CURRENCIES.includes(value as Currency)) {
+      throw MockError.invalid('currency', `currency must be one of ${CURRENCIES.join(', ')}`)
+    }
+    return value as Currency
+  }
+
+  private filter<T extends object>(items: T[], query: URLSearchParams, fields: string[]): T[] {
+    return fields.reduce((result, field) => {
+      const value = query.get(field)
+      return value === null ? result : result.filter(item => String((item as Record<string, unknown>)[field]) === value)
+    }, items)
+  }
+
+  private filterByDate<T>(items: T[], query: URLSearchParams, date: (item: T) => string): T[] {
+    const gte = query.get('created_gte')
+    const lte = query.get('created_lte')
+
+    return items.filter(item => {
+      const time = Date.parse(date(item))
+      return (gte === null || time >= Date.parse(gte)) && (lte === null || time <= Date.parse(lte))
+    })
+  }
+}
+
+/**
+ * Create a mock server and a `Vaultix` client wired to it
+ *
+ * @example
+ * ```ts
+ * import { createMockVaultix } from '@vaultix/sdk/testing'
+ *
+ * const { vaultix, server } = createMockVaultix()
+ *
+ * const charge = await vaultix.charges.create({ amount: 5000, payment_method: 'pix' })
+ * await vaultix.sandbox.payCharge(charge.id)
+ *
+ * const balance = await vaultix.balance.retrieve()
+ * console.log(balance.available[0].amount) // 5000
+ * console.log(server.store.events.map(event => event.type)) // ['charge.created', 'charge.paid']
+ * ```
+ */
+export function createMockVaultix(
+  options: MockVaultixOptions & { config?: Partial<VaultixConfig> } = {}
+): { vaultix: Vaultix; server: MockVaultixServer } {
+  const server = new MockVaultixServer(options)
+  const vaultix = new Vaultix({
+    retry: { baseDelay: 1 },
+    ...options.config,
+    secretKey: server.secretKey,
+    fetch: server.fetch,
+  })
+
+  return { vaultix, server }
+}
+
+function slugify(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+/**
+ * Copy-and-paste PIX code for a mock charge, with a valid CRC16
+ */
+function mockPixCode(txid: string, amount: number): string {
+  return createDynamicPixCode({
+    url: `mock.vaultix.global/pix/v2/${txid}`,
+    amount,
+    merchantName: 'VAULTIX MOCK',
+    merchantCity: 'SAO PAULO',
+  })
+}
+
+/**
+ * 44-digit boleto barcode for a mock charge, with a valid check digit
+ */
+function mockBoletoBarcode(amount: number, dueDate: string, sequence: number): string {
+  return createBoletoBarcode({
+    bankCode: '001',
+    amount,
+    dueDate,
+    freeField: String(sequence).padStart(25, '0'),
+  })
+}
@@ -0,0 +1,233 @@
+/**
+ * Mock Vaultix Store
+ *
+ * In-memory state behind the mock server
+ */
+
+import type {
+  Balance,
+  BalanceTransaction,
+  Charge,
+  Currency,
+  Customer,
+  ListResponse,
+  PaymentLink,
+  Payout,
+  Refund,
+  Token,
+  VaultixError,
+  VaultixEvent,
+  VaultixEventObjectMap,
+  VaultixEventType,
+} from '../types.js'
+import type { Order, OrderItem } from '../resources/orders.js'
+import type { Product } from '../resources/products.js'
+
+const DEFAULT_LIST_LIMIT = 10
+const MAX_LIST_LIMIT = 100
+
+/**
+ * Error answered by the mock server, in the same shape as the real API
+ */
+export class MockError extends Error {
+  constructor(
+    readonly status: number,
+    readonly error: VaultixError
+  ) {
+    super(error.message)
+    this.name = 'MockError'
+  }
+
+  static notFound(resource: string, id: string): MockError {
+    return new MockError(404, {
+      type: 'invalid_request_error',
+      code: 'resource_missing',
+      message: `No such ${resource}: '${id}'`,
+      param: 'id',
+    })
+  }
+
+  static missing(param: string): MockError {
+    return new MockError(400, {
+      type: 'invalid_request_error',
+      code: 'parameter_missing',
+      message: `Missing required param: ${param}`,
+      param,
+    })
+  }
+
+  static invalid(param: string, message: string): MockError {
+    return new MockError(400, {
+      type: 'invalid_request_error',
+      code: 'parameter_invalid',
+      message,
+      param,
+    })
+  }
+}
+
+export interface MockIdempotencyRecord {
+  fingerprint: string
+  status: number
+  body: unknown
+}
+
+export class MockStore {
+  readonly charges = new Map<string, Charge>()
+  readonly customers = new Map<string, Customer>()
+  readonly tokens = new Map<string, Token & { number: string }>()
+  readonly refunds = new Map<string, Refund>()
+  readonly payouts = new Map<string, Payout>()
+  readonly paymentLinks = new Map<string, PaymentLink>()
+  readonly products = new Map<string, Product>()
+  readonly orders = new Map<string, Order & { items: OrderItem[] }>()
+  readonly balanceTransactions = new Map<string, BalanceTransaction>()
+  readonly idempotency = new Map<string, MockIdempotencyRecord>()
+  readonly balances = new Map<Currency, { available: number; pending: number }>()
+  readonly events: VaultixEvent[] = []
+
+  private sequence = 0
+  private clock = 0
+
+  /**
+   * Generate a sequential ID with the given prefix, e.g. `ch_mock_000001`
+   */
+  id(prefix: string): string {
+    this.sequence += 1
+    return `${prefix}_mock_${String(this.sequence).padStart(6, '0')}`
+  }
+
+  /**
+   * Current time as an ISO string, strictly increasing so ordering by
+   * creation date is stable
+   */
+  now(): string {
+    this.clock = Math.max(this.clock + 1, Date.now())
+    return new Date(this.clock).toISOString()
+  }
+
+  balanceFor(currency: Currency): { available: number; pending: number } {
+    let balance = this.balances.get(currency)
+
+    if (!balance) {
+      balance = { available: 0, pending: 0 }
+      this.balances.set(currency, balance)
+    }
+
+    return balance
+  }
+
+  balance(): Balance {
+    if (this.balances.size === 0) this.balanceFor('BRL')
+
+    const entries = [...this.balances.entries()]
+
+    return {
+      object: 'balance',
+      available: entries.map(([currency, balance]) => ({ amount: balance.available, currency })),
+      pending: entries.map(([currency, balance]) => ({ amount: balance.pending, currency })),
+      livemode: false,
+    }
+  }
+
+  /**
+   * Record a movement of available funds
+   */
+  recordBalanceTransaction(
+    type: BalanceTransaction['type'],
+    amount: number,
+    currency: Currency,
+    source: string,
+    description?: string
+  ): BalanceTransaction {
+    this.balanceFor(currency).available += amount
+
+    const transaction: BalanceTransaction = {
+      id: this.id('txn'),
+      object: 'balance_transaction',
+      amount,
+      type,
+      source,
+      description,
+      created: this.now(),
+      status: 'available',
+    }
+
+    this.balanceTransactions.set(transaction.id, transaction)
+    return transaction
+  }
+
+  /**
+   * Record the webhook event Vaultix would send for a state change
+   */
+  emit<TType extends VaultixEventType>(type: TType, object: VaultixEventObjectMap[TType]): VaultixEvent {
+    const event = {
+      id: this.id('evt'),
+      object: 'event',
+      type,
+      data: { object: structuredClone(object) },
+      created: this.now(),
+      livemode: false,
+    } as VaultixEvent
+
+    this.events.push(event)
+    return event
+  }
+
+  reset(): void {
+    this.charges.clear()
+    this.customers.clear()
+    this.tokens.clear()
+    this.refunds.clear()
+    this.payouts.clear()
+    this.paymentLinks.clear()
+    this.products.clear()
+    this.orders.clear()
+    this.balanceTransactions.clear()
+    this.idempotency.clear()
+    this.balances.clear()
+    this.events.length = 0
+    this.sequence = 0
+  }
+}
+
+/**
+ * Paginate items newest first, honoring `limit`, `starting_after` and
+ * `ending_before` like the real API
+ */
+export function paginate<T extends { id: string }>(items: T[], query: URLSearchParams): ListResponse<T> {
+  const limitParam = query.get('limit')
+  const limit = limitParam === null ? DEFAULT_LIST_LIMIT : Number(limitParam)
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw MockError.invalid('limit', `limit must be an integer between 1 and ${MAX_LIST_LIMIT}`)
+  }
+
+  const sorted = [...items].reverse()
+  let start = 0
+  let end = sorted.length
+
+  const startingAfter = query.get('starting_after')
+  if (startingAfter) {
+    const index = sorted.findIndex(item => item.id === startingAfter)
+    if (index === -1) throw MockError.invalid('starting_after', `No such object: '${startingAfter}'`)
+    start = index + 1
+  }
+
+  const endingBefore = query.get('ending_before')
+  if (endingBefore) {
+    const index = sorted.findIndex(item => item.id === endingBefore)
+    if (index === -1) throw MockError.invalid('ending_before', `No such object: '${endingBefore}'`)
+    end = index
+    start = Math.max(start, end - limit)
+  }
+
+  const data = sorted.slice(start, Math.min(end, start + limit))
+
+  return {
+    object: 'list',
+    data,
+    has_more: start + data.length < end,
+    total_count: sorted.length,
+  }
+}
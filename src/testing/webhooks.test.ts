@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { describe, expect, it } from 'vitest'
+import { VaultixSignatureVerificationError } from '../errors.js'
+import { Webhooks } from '../resources/webhooks.js'
+import { createMockVaultix } from './mock-server.js'
+import { generateTestWebhook, sendTestWebhook } from './webhooks.js'
+
+const webhooks = new Webhooks()
+
+describe('generateTestWebhook', () => {
+  it('signs events so constructEvent accepts them', () => {
+    const webhook = generateTestWebhook({
+      type: 'charge.paid',
+      data: { amount: 7500, metadata: { order_id: 'order_123' } },
+      secret: 'whsec_local',
+    })
+
+    const event = webhooks.constructEvent(webhook.payload, webhook.signature, 'whsec_local')
+
+    expect(webhook.signature).toMatch(/^sha256=[0-9a-f]{64}$/)
+    expect(webhook.headers['x-vaultix-signature']).toBe(webhook.signature)
+    expect(event).toEqual(webhook.event)
+    expect(event.data.object).toMatchObject({ object: 'charge', status: 'paid', amount: 7500, metadata: { order_id: 'order_123' } })
+  })
+
+  it('fails verification with another secret', () => {
+    const webhook = generateTestWebhook({ type: 'refund.succeeded', secret: 'whsec_forged' })
+
+    expect(() => webhooks.constructEvent(webhook.payload, webhook.signature, 'whsec_test'))
+      .toThrow(VaultixSignatureVerificationError)
+  })
+
+  it('fills in a realistic object per resource', () => {
+    expect(generateTestWebhook({ type: 'refund.succeeded' }).event.data.object).toMatchObject({ object: 'refund', status: 'succeeded' })
+    expect(generateTestWebhook({ type: 'payout.canceled' }).event.data.object).toMatchObject({ object: 'payout', status: 'canceled' })
+    expect(generateTestWebhook({ type: 'customer.created' }).event.data.object).toMatchObject({ object: 'customer' })
+  })
+
+  it('uses the given ID, timestamp and previous attributes', () => {
+    const { event } = generateTestWebhook({
+      type: 'customer.updated',
+      id: 'evt_1',
+      timestamp: 1_767_225_600,
+      previousAttributes: { email: 'old@email.com' },
+    })
+
+    expect(event.id).toBe('evt_1')
+    expect(event.created).toBe('2026-01-01T00:00:00.000Z')
+    expect(event.data.previous_attributes).toEqual({ email: 'old@email.com' })
+  })
+})
+
+describe('sendTestWebhook', () => {
+  it('delivers to a fetch-style handler', async () => {
+    const webhook = generateTestWebhook({ type: 'charge.paid' })
+
+    const delivery = await sendTestWebhook({
+      fetch: async request => {
+        const event = webhooks.constructEvent(await request.text(), request.headers.get('x-vaultix-signature')!, webhook.secret)
+        return Response.json({ received: event.id })
+      },
+    }, webhook)
+
+    expect(delivery.status).toBe(200)
+    expect(JSON.parse(delivery.body)).toEqual({ received: webhook.event.id })
+  })
+
+  it('serves a Node.js listener on a local port', async () => {
+    const webhook = generateTestWebhook({ type: 'charge.paid' })
+    const received: string[] = []
+
+    const listener = (req: IncomingMessage, res: ServerResponse) => {
+      let body = ''
+      req.on('data', chunk => (body += chunk))
+      req.on('end', () => {
+        received.push(`${req.method} ${req.url} ${req.headers['x-vaultix-signature']}`)
+        res.statusCode = body === webhook.payload ? 204 : 400
+        res.end()
+      })
+    }
+
+    const delivery = await sendTestWebhook({ listener }, webhook, '/hooks/vaultix')
+
+    expect(delivery.status).toBe(204)
+    expect(received).toEqual([`POST /hooks/vaultix ${webhook.signature}`])
+  })
+})
+
+describe('sandbox.testWebhook on the mock server', () => {
+  it('reports that no endpoint is configured', async () => {
+    const { vaultix } = createMockVaultix()
+
+    const result = await vaultix.sandbox.testWebhook({ event_type: 'charge.paid' })
+
+    expect(result).toMatchObject({ success: false, error: 'No webhook endpoint configured', event_type: 'charge.paid' })
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Vaultix Test Webhooks
+ *
+ * Build signed webhook events locally and deliver them to your handler,
+ * without the sandbox or a public URL
+ */
+
+import { randomBytes } from 'node:crypto'
+import { createServer } from 'node:http'
+import type { RequestListener } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { Webhooks } from '../resources/webhooks.js'
+import type {
+  Charge,
+  Customer,
+  Payout,
+  Refund,
+  VaultixEventObjectMap,
+  VaultixEventOf,
+  VaultixEventType,
+} from '../types.js'
+import type { Product } from '../resources/products.js'
+
+const webhooks = new Webhooks()
+
+export interface TestWebhookOptions<TType extends VaultixEventType> {
+  type: TType
+  /** Fields of `data.object`, merged over a realistic default object */
+  data?: Partial<VaultixEventObjectMap[TType]>
+  /** Fields that changed, for `*.updated` events */
+  previousAttributes?: Partial<VaultixEventObjectMap[TType]>
+  /** Endpoint secret used to sign the payload (default `whsec_test`) */
+  secret?: string
+  /** Event creation time in Unix seconds (default now) */
+  timestamp?: number
+  /** Event ID (default random) */
+  id?: string
+  livemode?: boolean
+}
+
+export interface TestWebhook<TType extends VaultixEventType> {
+  event: VaultixEventOf<TType>
+  /** Raw JSON body, exactly as signed */
+  payload: string
+  /** Value of the `x-vaultix-signature` header */
+  signature: string
+  /** Headers Vaultix sends with the event */
+  headers: Record<string, string>
+  secret: string
+}
+
+export interface TestWebhookDelivery {
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Where to deliver a test webhook: a URL, `{ fetch }` with a fetch-style
+ * handler `(request) => response`, or `{ listener }` with a Node.js request
+ * listener such as an Express app
+ */
+export type TestWebhookTarget =
+  | string
+  | { fetch: (request: Request) => Response | Promise<Response> }
+  | { listener: RequestListener }
+
+/**
+ * Build a webhook event and sign it exactly as Vaultix does
+ *
+ * @example
+ * ```ts
+ * import { generateTestWebhook } from '@vaultix/sdk/testing'
+ *
+ * const webhook = generateTestWebhook({
+ *   type: 'charge.paid',
+ *   data: { amount: 5000, metadata: { order_id: 'order_123' } },
+ *   secret: 'whsec_test',
+ * })
+ *
+ * const event = vaultix.webhooks.constructEvent(
+ *   webhook.payload,
+ *   webhook.signature,
+ *   'whsec_test',
+ * )
+ * ```
+ */
+export function generateTestWebhook<TType extends VaultixEventType>(
+  options: TestWebhookOptions<TType>
+): TestWebhook<TType> {
+  const secret = options.secret ?? 'whsec_test'
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000)
+  const livemode = options.livemode ?? false
+
+  const event: VaultixEventOf<TType> = {
+    id: options.id ?? randomId('evt'),
+    object: 'event',
+    type: options.type,
+    data: {
+      object: { ...defaultObject(options.type, livemode), ...options.data } as VaultixEventObjectMap[TType],
+      ...(options.previousAttributes ? { previous_attributes: options.previousAttributes } : {}),
+    },
+    created: new Date(timestamp * 1000).toISOString(),
+    livemode,
+  }
+
+  const payload = JSON.stringify(event)
+  const signature = `sha256=${webhooks.computeSignature(payload, secret)}`
+
+  return {
+    event,
+    payload,
+    signature,
+    secret,
+    headers: {
+      'content-type': 'application/json',
+      'user-agent': 'Vaultix-Webhooks/1.0',
+      'x-vaultix-signature': signature,
+    },
+  }
+}
+
+/**
+ * POST a test webhook to a local handler and return its response
+ *
+ * Node.js listeners (e.g. an Express app) are served on an ephemeral
+ * localhost port for the duration of the delivery; fetch-style handlers
+ * are called directly with a `Request` for `http://localhost<path>`.
+ *
+ * @example
+ * ```ts
+ * import { generateTestWebhook, sendTestWebhook } from '@vaultix/sdk/testing'
+ *
+ * const webhook = generateTestWebhook({ type: 'refund.succeeded', secret: process.env.WEBHOOK_SECRET })
+ * const response = await sendTestWebhook({ listener: app }, webhook)
+ *
+ * expect(response.status).toBe(200)
+ * ```
+ */
+export async function sendTestWebhook(
+  target: TestWebhookTarget,
+  webhook: TestWebhook<VaultixEventType>,
+  path = '/webhooks'
+): Promise<TestWebhookDelivery> {
+  const init: RequestInit = { method: 'POST', headers: webhook.headers, body: webhook.payload }
+
+  if (typeof target === 'string') {
+    return toDelivery(await fetch(target, init))
+  }
+
+  if ('fetch' in target) {
+    return toDelivery(await target.fetch(new Request(`http://localhost${path}`, init)))
+  }
+
+  const server = createServer(target.listener)
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(0, '127.0.0.1', resolve)
+  })
+
+  try {
+    const { port } = server.address() as AddressInfo
+    return toDelivery(await fetch(`http://127.0.0.1:${port}${path}`, init))
+  } finally {
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+  }
+}
+
+async function toDelivery(response: Response): Promise<TestWebhookDelivery> {
+  return {
+    status: response.status,
+    headers: Object.fromEntries(response.headers.entries()),
+    body: await response.text(),
+  }
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_test_${randomBytes(12).toString('hex')}`
+}
+
+function defaultObject(type: VaultixEventType, livemode: boolean): VaultixEventObjectMap[VaultixEventType] {
+  const created = new Date().toISOString()
+  const [resource, action] = type.split('.')
+
+  switch (resource) {
+    case 'charge': {
+      const statuses: Record<string, Charge['status']> = {
+        created: 'pending',
+        paid: 'paid',
+        captured: 'paid',
+        canceled: 'canceled',
+        refunded: 'refunded',
+      }
+      const charge: Charge = {
+        id: randomId('ch'),
+        object: 'charge',
+        amount: 5000,
+        currency: 'BRL',
+        payment_method: 'pix',
+        status: statuses[action] ?? 'pending',
+        description: 'Test charge',
+        metadata: {},
+        created,
+        livemode,
+      }
+      return charge
+    }
+
+    case 'refund': {
+      const refund: Refund = {
+        id: randomId('re'),
+        object: 'refund',
+        amount: 5000,
+        charge: randomId('ch'),
+        status: action === 'succeeded' ? 'succeeded' : 'pending',
+        reason: 'requested_by_customer',
+        created,
+        livemode,
+      }
+      return refund
+    }
+
+    case 'customer': {
+      const customer: Customer = {
+        id: randomId('cus'),
+        object: 'customer',
+        name: 'João Silva',
+        email: 'joao@email.com',
+        metadata: {},
+        created,
+        livemode,
+      }
+      return customer
+    }
+
+    case 'payout': {
+      const payout: Payout = {
+        id: randomId('po'),
+        object: 'payout',
+        amount: 10000,
+        currency: 'BRL',
+        destination: { type: 'pix', pix_key: 'joao@email.com', holder_name: 'João Silva' },
+        status: action === 'canceled' ? 'canceled' : 'pending',
+        created,
+        livemode,
+      }
+      return payout
+    }
+
+    default: {
+      const product: Product = {
+        id: randomId('prod'),
+        object: 'product',
+        name: 'Test product',
+        slug: 'test-product',
+        price: 5000,
+        currency: 'BRL',
+        stock_quantity: 10,
+        stock_status: 'in_stock',
+        track_inventory: true,
+        status: action === 'deleted' ? 'deleted' : 'active',
+        visibility: 'visible',
+        is_active: action !== 'deleted',
+        is_featured: false,
+        is_digital: false,
+        has_variants: false,
+        created_at: created,
+        livemode,
+      }
+      return product
+    }
+  }
+}
@@ -2,6 +2,10 @@
  * Vaultix SDK Types
  */
 
+import type { VaultixAPIError, VaultixResponseValidationError } from './errors.js'
+import type { Middleware } from './middleware.js'
+import type { Product } from './resources/products.js'
+
 // ============================================
 // CONFIGURATION
 // ============================================
@@ -15,20 +19,220 @@ export interface VaultixConfig {
   timeout?: number
   /** Maximum retry attempts for failed requests */
   maxRetries?: number
+  /**
+   * Custom fetch implementation used for every request (defaults to the
+   * global `fetch`). Use it to route through a proxy, a local stand-in
+   * server or a test double.
+   */
+  fetch?: FetchFunction
+  /**
+   * Extra options merged into every fetch call, e.g. an undici
+   * `dispatcher` for HTTP proxies or mTLS
+   */
+  fetchOptions?: Record<string, unknown>
+  /** Your application's name and version, appended to the User-Agent */
+  appInfo?: AppInfo
+  /** Middleware wrapping every HTTP attempt (see `vaultix.use`) */
+  middleware?: Middleware[]
+  /** How failed requests are retried */
+  retry?: RetryPolicy
+  /** Called before every retry, e.g. to log or record metrics */
+  onRetry?: (info: RetryInfo) => void
+  /** Client-side rate limiting shared by every request made through this client */
+  rateLimit?: RateLimitOptions
+  /**
+   * Logger for requests, responses and retries. Authorization headers, card
+   * numbers, CVCs, documents and bank details are always redacted.
+   */
+  logger?: VaultixLogger
+  /**
+   * Argument order of the `logger` methods: `console` (default) calls
+   * `(message, meta)`, as console and winston expect; `pino` calls
+   * `(meta, message)`, as pino and bunyan expect
+   */
+  loggerStyle?: LoggerStyle
+  /** Minimum level to log (default `info`) */
+  logLevel?: LogLevel | 'silent'
+  /**
+   * Check every response against the SDK's declared types. `strict` throws
+   * a `VaultixResponseValidationError`; `lenient` reports the mismatch to
+   * `onValidationError` (or logs a warning) and returns the response.
+   * Off by default.
+   */
+  validateResponses?: 'strict' | 'lenient'
+  /** Called for every mismatching response in `lenient` mode */
+  onValidationError?: (error: VaultixResponseValidationError) => void
+  /**
+   * Check request params before sending them, throwing the same
+   * `VaultixInvalidRequestError` the API would return (default false).
+   * The SDK's rules may be stricter than the API's for some accounts.
+   */
+  validateParams?: boolean
+  /**
+   * Check CPF/CNPJ check digits in `customer.document`, `document` and
+   * `destination.holder_document` before sending, and strip their
+   * punctuation (default false)
+   */
+  validateDocuments?: boolean
+  /**
+   * Check card numbers (brand and Luhn), expiry and CVC in
+   * `tokens.create` before sending, throwing the same `VaultixCardError`
+   * the API would return (default false)
+   */
+  validateCards?: boolean
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LoggerStyle = 'console' | 'pino'
+
+/**
+ * Any logger with level methods taking a message and a metadata object,
+ * e.g. `console` or winston; set `loggerStyle: 'pino'` for loggers that take
+ * the metadata first
+ */
+export interface VaultixLogger {
+  debug(message: string, meta?: Record<string, unknown>): void
+  info(message: string, meta?: Record<string, unknown>): void
+  warn(message: string, meta?: Record<string, unknown>): void
+  error(message: string, meta?: Record<string, unknown>): void
+}
+
+export interface RateLimitOptions {
+  /** Sustained requests per second (token refill rate) */
+  requestsPerSecond?: number
+  /** Maximum burst size (bucket capacity, defaults to `requestsPerSecond`) */
+  burst?: number
+  /** Maximum number of requests in flight at once */
+  maxConcurrency?: number
+  /**
+   * Pause the queue when the server reports the limit is exhausted through
+   * `x-ratelimit-remaining`/`x-ratelimit-reset` or a 429 (default true)
+   */
+  adaptive?: boolean
+}
+
+export interface RateLimiterStats {
+  /** Requests waiting for a slot */
+  queued: number
+  /** Requests currently in flight */
+  active: number
+  /** Tokens left in the bucket */
+  availableTokens: number
+  /** Set while the queue is paused by the server's rate-limit headers */
+  pausedUntil?: Date
+}
+
+export interface RetryPolicy {
+  /** Base delay for exponential backoff, in milliseconds (default 1000) */
+  baseDelay?: number
+  /** Maximum backoff delay between attempts, in milliseconds (default 10000) */
+  maxDelay?: number
+  /**
+   * `full` (default) waits a random time between 0 and the backoff delay so
+   * that many clients don't retry in lockstep; `none` waits the exact delay
+   */
+  jitter?: 'full' | 'none'
+  /** Give up once this much time has passed since the first attempt, in milliseconds */
+  maxElapsedTime?: number
+  /**
+   * Wait for the delay in the `Retry-After` response header when present
+   * (default true); when it exceeds `maxDelay` or `maxElapsedTime`, the
+   * error is thrown instead of retrying early
+   */
+  respectRetryAfter?: boolean
+  /** Custom retry decision; `context.retryable` holds the default decision */
+  shouldRetry?: (context: RetryContext) => boolean
+}
+
+export interface RetryContext {
+  method: HttpMethod
+  path: string
+  /** Number of the attempt that failed, starting at 1 */
+  attempt: number
+  error: VaultixAPIError
+  idempotencyKey?: string
+  /**
+   * Default decision: true for 429, 5xx and network errors, but POSTs only
+   * when they carry an idempotency key
+   */
+  retryable: boolean
+}
+
+export interface RetryInfo extends RetryContext {
+  /** Delay before the next attempt, in milliseconds */
+  delay: number
+}
+
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>
+
+export interface AppInfo {
+  name: string
+  version?: string
+  url?: string
 }
 
 // ============================================
 // COMMON TYPES
 // ============================================
 
+export interface RequestOptions {
+  /** Request timeout in milliseconds (overrides the client default) */
+  timeout?: number
+  /** Maximum retry attempts (overrides the client default) */
+  maxRetries?: number
+  /** Signal to cancel the request */
+  signal?: AbortSignal
+  /** Additional headers to send with the request */
+  headers?: Record<string, string>
+  /** Account ID to perform the request on behalf of (sent as `Vaultix-Account`) */
+  account?: string
+  /**
+   * Idempotency key for POST, PUT and DELETE requests
+   *
+   * A key is generated automatically when omitted. The same key is sent on
+   * every retry of a call, so the server executes it at most once.
+   */
+  idempotencyKey?: string
+}
+
 export interface VaultixError {
-  type: 'api_error' | 'authentication_error' | 'invalid_request_error' | 'rate_limit_error'
+  type:
+    | 'api_error'
+    | 'authentication_error'
+    | 'invalid_request_error'
+    | 'rate_limit_error'
+    | 'card_error'
+    | 'idempotency_error'
   code: string
   message: string
   param?: string
   doc_url?: string
 }
 
+export interface ResponseMetadata {
+  /** HTTP status code */
+  status: number
+  /** Response headers, lowercased */
+  headers: Record<string, string>
+  /** Request ID assigned by the server (`x-request-id`), for support tickets */
+  requestId?: string
+  /** Time spent on the call, including retries, in milliseconds */
+  elapsedMs: number
+  /** Number of attempts made, including retries */
+  attempts: number
+}
+
+/**
+ * A parsed API response with the HTTP metadata of the call that produced it
+ *
+ * `lastResponse` is non-enumerable, so it doesn't show up in
+ * `JSON.stringify` or object spreads.
+ */
+export type VaultixResponse<T> = T & {
+  lastResponse: ResponseMetadata
+}
+
 export interface ListParams {
   /** Number of items to return (max 100) */
   limit?: number
@@ -43,6 +247,7 @@ export interface ListResponse<T> {
   total_count?: number
 }
 
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE'
 export type Currency = 'BRL' | 'USD' | 'EUR'
 export type PaymentMethod = 'pix' | 'credit_card' | 'boleto'
 export type Environment = 'live' | 'test'
@@ -379,3 +584,53 @@ export interface TestCard {
   behavior: string
   description: string
 }
+
+// ============================================
+// WEBHOOK EVENTS
+// ============================================
+
+/** Maps every webhook event type to the object carried in `data.object` */
+export interface VaultixEventObjectMap {
+  'charge.created': Charge
+  'charge.paid': Charge
+  'charge.captured': Charge
+  'charge.canceled': Charge
+  'charge.refunded': Charge
+  'refund.created': Refund
+  'refund.succeeded': Refund
+  'customer.created': Customer
+  'customer.updated': Customer
+  'customer.deleted': Customer
+  'payout.created': Payout
+  'payout.canceled': Payout
+  'product.created': Product
+  'product.updated': Product
+  'product.deleted': Product
+}
+
+export type VaultixEventType = keyof VaultixEventObjectMap
+
+export interface VaultixEventBase<TType extends VaultixEventType, TObject> {
+  id: string
+  object: 'event'
+  type: TType
+  data: {
+    object: TObject
+    /** Values of the fields that changed (only on `*.updated` events) */
+    previous_attributes?: Partial<TObject>
+  }
+  created: string
+  livemode: boolean
+}
+
+/** A single webhook event, narrowed by its `type` */
+export type VaultixEventOf<TType extends VaultixEventType> = VaultixEventBase<TType, VaultixEventObjectMap[TType]>
+
+/**
+ * Any webhook event sent by Vaultix
+ *
+ * Switching on `event.type` narrows `event.data.object` to the matching resource.
+ */
+export type VaultixEvent = {
+  [K in VaultixEventType]: VaultixEventOf<K>
+}[VaultixEventType]
@@ -17,8 +17,10 @@ import {
   Products,
   Orders,
   Transactions,
+  Webhooks,
 } from './resources/index.js'
-import type { VaultixConfig } from './types.js'
+import type { Middleware } from './middleware.js'
+import type { RateLimiterStats, VaultixConfig } from './types.js'
 
 export class Vaultix {
   private readonly client: VaultixClient
@@ -56,6 +58,9 @@ export class Vaultix {
   /** Transactions API - Unified transaction history */
   readonly transactions: Transactions
 
+  /** Webhooks - Verify signatures and parse webhook events */
+  readonly webhooks: Webhooks
+
   /**
    * Create a new Vaultix SDK instance
    *
@@ -105,6 +110,34 @@ export class Vaultix {
     this.products = new Products(this.client)
     this.orders = new Orders(this.client)
     this.transactions = new Transactions(this.client)
+    this.webhooks = new Webhooks()
+  }
+
+  /**
+   * Register a middleware that wraps every HTTP request
+   *
+   * @example
+   * ```ts
+   * vaultix.use(async (request, next) => {
+   *   request.headers['X-Tenant-Id'] = tenant.id
+   *   const response = await next(request)
+   *   console.log(request.method, request.path, response.status, `attempt ${request.attempt}`)
+   *   return response
+   * })
+   * ```
+   */
+  use(middleware: Middleware): this {
+    this.client.use(middleware)
+    return this
+  }
+
+  /**
+   * Queue depth and in-flight requests of the client-side rate limiter
+   *
+   * Undefined unless `rateLimit` is set in the config.
+   */
+  get rateLimiterStats(): RateLimiterStats | undefined {
+    return this.client.rateLimiterStats
   }
 
   /**
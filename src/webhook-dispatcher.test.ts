@@ -0,0 +1,178 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { generateTestWebhook } from './testing/webhooks.js'
+import {
+  FileWebhookEventStore,
+  MemoryWebhookEventStore,
+  WebhookDispatcher,
+  webhookCallbackName,
+} from './webhook-dispatcher.js'
+import type { VaultixEvent, VaultixEventType } from './types.js'
+
+/** An event, optionally about a given object ID */
+function event(type: VaultixEventType, id?: string, objectId?: string): VaultixEvent {
+  return generateTestWebhook({ type, id, data: objectId ? { id: objectId } : undefined }).event as VaultixEvent
+}
+
+describe('webhookCallbackName', () => {
+  it('turns event types into callback names', () => {
+    expect(webhookCallbackName('charge.paid')).toBe('onChargePaid')
+    expect(webhookCallbackName('refund.succeeded')).toBe('onRefundSucceeded')
+  })
+})
+
+describe('WebhookDispatcher', () => {
+  it('runs onEvent, the callback, then handlers added with on()', async () => {
+    const calls: string[] = []
+    const dispatcher = new WebhookDispatcher({
+      onEvent: () => calls.push('onEvent'),
+      onChargePaid: charge => calls.push(`onChargePaid:${charge.id}`),
+    })
+    dispatcher.on('charge.paid', () => calls.push('on'))
+
+    const paid = event('charge.paid', 'evt_1', 'ch_1')
+    const result = await dispatcher.dispatch(paid)
+
+    expect(result).toEqual({ status: 'processed', event: paid })
+    expect(calls).toEqual(['onEvent', 'onChargePaid:ch_1', 'on'])
+  })
+
+  it('calls onUnhandled for events without a handler', async () => {
+    const onUnhandled = vi.fn()
+    const created = event('customer.created')
+
+    await new WebhookDispatcher({ onUnhandled }).dispatch(created)
+
+    expect(onUnhandled).toHaveBeenCalledWith(created)
+  })
+
+  it('skips events it already processed', async () => {
+    const onChargePaid = vi.fn()
+    const dispatcher = new WebhookDispatcher({ onChargePaid })
+    const paid = event('charge.paid', 'evt_1')
+
+    await dispatcher.dispatch(paid)
+    const [first, second] = await Promise.all([dispatcher.dispatch(paid), dispatcher.dispatch(paid)])
+
+    expect([first.status, second.status]).toEqual(['duplicate', 'duplicate'])
+    expect(onChargePaid).toHaveBeenCalledTimes(1)
+  })
+
+  it('processes a redelivery after a failure', async () => {
+    const failure = new Error('database down')
+    const onError = vi.fn()
+    const onChargePaid = vi.fn().mockRejectedValueOnce(failure)
+    const dispatcher = new WebhookDispatcher({ onChargePaid, onError })
+    const paid = event('charge.paid', 'evt_1')
+
+    expect(await dispatcher.dispatch(paid)).toEqual({ status: 'failed', event: paid, error: failure })
+    expect(onError).toHaveBeenCalledWith(failure, paid)
+
+    expect((await dispatcher.dispatch(paid)).status).toBe('processed')
+    expect(onChargePaid).toHaveBeenCalledTimes(2)
+  })
+
+  it('handles events for the same object one at a time', async () => {
+    const order: string[] = []
+    let releasePaid!: () => void
+
+    const dispatcher = new WebhookDispatcher({
+      onChargePaid: async charge => {
+        order.push(`paid:${charge.id}:start`)
+        if (charge.id === 'ch_1') await new Promise<void>(resolve => (releasePaid = resolve))
+        order.push(`paid:${charge.id}:end`)
+      },
+      onChargeRefunded: charge => {
+        order.push(`refunded:${charge.id}`)
+      },
+    })
+
+    const paid = dispatcher.dispatch(event('charge.paid', 'evt_1', 'ch_1'))
+    const refunded = dispatcher.dispatch(event('charge.refunded', 'evt_2', 'ch_1'))
+    const other = dispatcher.dispatch(event('charge.paid', 'evt_3', 'ch_2'))
+
+    await other
+    expect(order).toEqual(['paid:ch_1:start', 'paid:ch_2:start', 'paid:ch_2:end'])
+
+    releasePaid()
+    await Promise.all([paid, refunded])
+    expect(order.slice(3)).toEqual(['paid:ch_1:end', 'refunded:ch_1'])
+  })
+})
+
+describe('MemoryWebhookEventStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('forgets processed events after the TTL', () => {
+    vi.useFakeTimers()
+    const store = new MemoryWebhookEventStore({ ttl: 60 })
+
+    expect(store.claim('evt_1')).toBe(true)
+    expect(store.claim('evt_1')).toBe(false)
+    store.complete('evt_1')
+
+    vi.advanceTimersByTime(59_000)
+    expect(store.claim('evt_1')).toBe(false)
+
+    vi.advanceTimersByTime(1_000)
+    expect(store.claim('evt_1')).toBe(true)
+  })
+
+  it('evicts the oldest processed events beyond maxEntries', () => {
+    const store = new MemoryWebhookEventStore({ maxEntries: 2 })
+
+    for (const id of ['evt_1', 'evt_2', 'evt_3']) {
+      store.claim(id)
+      store.complete(id)
+    }
+
+    expect(store.claim('evt_3')).toBe(false)
+    expect(store.claim('evt_1')).toBe(true)
+  })
+})
+
+describe('FileWebhookEventStore', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vaultix-events-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('remembers processed events across instances', async () => {
+    const path = join(dir, 'events', 'processed.json')
+    const store = new FileWebhookEventStore(path)
+
+    expect(await store.claim('evt_1')).toBe(true)
+    expect(await store.claim('evt_1')).toBe(false)
+    await store.complete('evt_1')
+
+    expect(Object.keys(JSON.parse(await readFile(path, 'utf8')))).toEqual(['evt_1'])
+    expect(await new FileWebhookEventStore(path).claim('evt_1')).toBe(false)
+  })
+
+  it('releases failed claims', async () => {
+    const store = new FileWebhookEventStore(join(dir, 'processed.json'))
+
+    await store.claim('evt_1')
+    store.release('evt_1')
+
+    expect(await store.claim('evt_1')).toBe(true)
+  })
+
+  it('keeps every completion when events finish concurrently', async () => {
+    const path = join(dir, 'processed.json')
+    const dispatcher = new WebhookDispatcher({ store: new FileWebhookEventStore(path), onChargePaid: () => {} })
+
+    await Promise.all(Array.from({ length: 10 }, (_, i) => dispatcher.dispatch(event('charge.paid', `evt_${i}`))))
+
+    expect(Object.keys(JSON.parse(await readFile(path, 'utf8')))).toHaveLength(10)
+  })
+})
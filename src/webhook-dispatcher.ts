@@ -0,0 +1,337 @@
+/**
+ * Vaultix Webhook Dispatcher
+ *
+ * Route webhook events to typed handlers exactly once: duplicate
+ * deliveries are skipped using a pluggable store, and events about the
+ * same object are handled one at a time
+ */
+
+import { randomUUID } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type {
+  VaultixEvent,
+  VaultixEventObjectMap,
+  VaultixEventOf,
+  VaultixEventType,
+} from './types.js'
+
+/** How long processed event IDs are remembered by the built-in stores, in seconds (7 days) */
+const DEFAULT_EVENT_TTL = 7 * 24 * 60 * 60
+
+const DEFAULT_MAX_ENTRIES = 10_000
+
+/** `'charge.paid'` → `'ChargePaid'`, `'payment_link.created'` → `'PaymentLinkCreated'` */
+type PascalCase<S extends string> =
+  S extends `${infer Head}.${infer Tail}` ? `${PascalCase<Head>}${PascalCase<Tail>}` :
+  S extends `${infer Head}_${infer Tail}` ? `${Capitalize<Head>}${PascalCase<Tail>}` :
+  Capitalize<S>
+
+/** Callback name for an event type, e.g. `onChargePaid` for `charge.paid` */
+export type WebhookCallbackName<TType extends VaultixEventType> = `on${PascalCase<TType>}`
+
+/** Handler for one event type, receiving the event's object and the full event */
+export type WebhookEventHandler<TType extends VaultixEventType> = (
+  object: VaultixEventObjectMap[TType],
+  event: VaultixEventOf<TType>
+) => unknown | Promise<unknown>
+
+/**
+ * One optional callback per event type, receiving the event's object
+ * (typed by the event) and the full event
+ */
+export type WebhookEventCallbacks = {
+  [K in VaultixEventType as WebhookCallbackName<K>]?: WebhookEventHandler<K>
+}
+
+/**
+ * Where processed event IDs are recorded
+ *
+ * Implement it on top of Redis, SQL or any shared storage to deduplicate
+ * across processes. `claim` must be atomic (e.g. Redis `SET NX`, or an
+ * `INSERT` on a unique key).
+ *
+ * @example
+ * ```ts
+ * const redisStore: WebhookEventStore = {
+ *   claim: async id => (await redis.set(`vaultix:event:${id}`, 'pending', { NX: true, EX: 600 })) === 'OK',
+ *   complete: async id => { await redis.set(`vaultix:event:${id}`, 'done', { EX: 7 * 86400 }) },
+ *   release: async id => { await redis.del(`vaultix:event:${id}`) },
+ * }
+ * ```
+ */
+export interface WebhookEventStore {
+  /** Reserve an event for processing; resolve false if it is already being processed or was processed */
+  claim(eventId: string): boolean | Promise<boolean>
+  /** Record the event as processed */
+  complete(eventId: string): void | Promise<void>
+  /** Drop the reservation after a failure, so a redelivery is processed again */
+  release(eventId: string): void | Promise<void>
+}
+
+export interface WebhookDispatcherOptions extends WebhookEventCallbacks {
+  /** Processed event IDs (default: an in-memory store) */
+  store?: WebhookEventStore
+  /** Called for every new event, before the per-event handlers */
+  onEvent?: (event: VaultixEvent) => unknown | Promise<unknown>
+  /** Called for events without a per-event handler */
+  onUnhandled?: (event: VaultixEvent) => unknown | Promise<unknown>
+  /** Called when a handler throws */
+  onError?: (error: unknown, event?: VaultixEvent) => void
+}
+
+export interface WebhookDispatchResult {
+  /**
+   * - `processed`: the handlers ran and succeeded
+   * - `duplicate`: the event was already processed (or is being processed) and was skipped
+   * - `failed`: a handler threw; the event will be processed again if redelivered
+   */
+  status: 'processed' | 'duplicate' | 'failed'
+  event: VaultixEvent
+  error?: unknown
+}
+
+/**
+ * Name of the callback invoked for an event type
+ *
+ * @example
+ * ```ts
+ * webhookCallbackName('charge.paid') // 'onChargePaid'
+ * ```
+ */
+export function webhookCallbackName<TType extends VaultixEventType>(type: TType): WebhookCallbackName<TType> {
+  const name = type
+    .split(/[._]/)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('')
+
+  return `on${name}` as WebhookCallbackName<TType>
+}
+
+/**
+ * Routes events to handlers, skipping duplicates and serializing events
+ * that concern the same object (so `charge.paid` is never handled
+ * concurrently with `charge.refunded` for the same charge)
+ *
+ * @example
+ * ```ts
+ * const dispatcher = new WebhookDispatcher({
+ *   store: new FileWebhookEventStore('./data/processed-events.json'),
+ *   onChargePaid: charge => orders.markPaid(charge.metadata?.order_id),
+ * })
+ *
+ * dispatcher.on('refund.succeeded', refund => ledger.recordRefund(refund))
+ *
+ * const result = await dispatcher.dispatch(event)
+ * if (result.status === 'failed') {
+ *   // answer non-2xx so Vaultix redelivers the event
+ * }
+ * ```
+ */
+export class WebhookDispatcher {
+  private readonly store: WebhookEventStore
+  private readonly handlers = new Map<VaultixEventType, Array<(object: unknown, event: VaultixEvent) => unknown>>()
+  private readonly queues = new Map<string, Promise<unknown>>()
+
+  constructor(private readonly options: WebhookDispatcherOptions = {}) {
+    this.store = options.store ?? new MemoryWebhookEventStore()
+  }
+
+  /**
+   * Register a handler for an event type, in addition to the callbacks
+   * passed to the constructor
+   */
+  on<TType extends VaultixEventType>(type: TType, handler: WebhookEventHandler<TType>): this {
+    const handlers = this.handlers.get(type) ?? []
+    handlers.push(handler as (object: unknown, event: VaultixEvent) => unknown)
+    this.handlers.set(type, handlers)
+    return this
+  }
+
+  /**
+   * Handle an event unless it was already processed
+   *
+   * Never throws: handler failures are reported in the result.
+   */
+  dispatch(event: VaultixEvent): Promise<WebhookDispatchResult> {
+    const key = (event.data?.object as { id?: string } | undefined)?.id ?? event.id
+    const previous = this.queues.get(key) ?? Promise.resolve()
+    const current = previous.then(() => this.process(event))
+
+    this.queues.set(key, current)
+    current.finally(() => {
+      if (this.queues.get(key) === current) this.queues.delete(key)
+    })
+
+    return current
+  }
+
+  private async process(event: VaultixEvent): Promise<WebhookDispatchResult> {
+    let claimed = false
+
+    try {
+      claimed = await this.store.claim(event.id)
+      if (!claimed) return { status: 'duplicate', event }
+
+      await this.options.onEvent?.(event)
+
+      const handlers = [...this.handlers.get(event.type) ?? []]
+      const callback = this.options[webhookCallbackName(event.type)] as
+        | ((object: unknown, event: VaultixEvent) => unknown)
+        | undefined
+
+      if (callback) handlers.unshift(callback)
+
+      if (handlers.length === 0) {
+        await this.options.onUnhandled?.(event)
+      }
+
+      for (const handler of handlers) {
+        await handler(event.data.object, event)
+      }
+
+      await this.store.complete(event.id)
+      return { status: 'processed', event }
+    } catch (error) {
+      if (claimed) {
+        try {
+          await this.store.release(event.id)
+        } catch {
+          // Leave a claim that cannot be released to the store to expire
+        }
+      }
+
+      this.options.onError?.(error, event)
+      return { status: 'failed', event, error }
+    }
+  }
+}
+
+/**
+ * Processed event IDs kept in memory
+ *
+ * Only deduplicates within one process; use a shared store when several
+ * instances receive webhooks.
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  private readonly entries = new Map<string, { done: boolean; expiresAt: number }>()
+  private readonly ttl: number
+  private readonly maxEntries: number
+
+  constructor(options: { ttl?: number; maxEntries?: number } = {}) {
+    this.ttl = (options.ttl ?? DEFAULT_EVENT_TTL) * 1000
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+  }
+
+  claim(eventId: string): boolean {
+    const entry = this.entries.get(eventId)
+    if (entry && entry.expiresAt > Date.now()) return false
+
+    this.entries.delete(eventId)
+    this.entries.set(eventId, { done: false, expiresAt: Infinity })
+    this.evict()
+    return true
+  }
+
+  complete(eventId: string): void {
+    this.entries.set(eventId, { done: true, expiresAt: Date.now() + this.ttl })
+  }
+
+  release(eventId: string): void {
+    this.entries.delete(eventId)
+  }
+
+  /**
+   * Drop the oldest processed entries beyond `maxEntries`
+   */
+  private evict(): void {
+    for (const [id, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries) break
+      if (entry.done) this.entries.delete(id)
+    }
+  }
+}
+
+/**
+ * Processed event IDs persisted to a JSON file, so duplicates are still
+ * skipped after a restart
+ *
+ * Suited to a single process; in-flight claims are kept in memory.
+ */
+export class FileWebhookEventStore implements WebhookEventStore {
+  private readonly ttl: number
+  private readonly pending = new Set<string>()
+  private processed?: Map<string, number>
+  private loading?: Promise<Map<string, number>>
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(
+    readonly path: string,
+    options: { ttl?: number } = {}
+  ) {
+    this.ttl = (options.ttl ?? DEFAULT_EVENT_TTL) * 1000
+  }
+
+  async claim(eventId: string): Promise<boolean> {
+    const processed = await this.load()
+    const processedAt = processed.get(eventId)
+
+    if (this.pending.has(eventId) || (processedAt !== undefined && processedAt + this.ttl > Date.now())) {
+      return false
+    }
+
+    this.pending.add(eventId)
+    return true
+  }
+
+  async complete(eventId: string): Promise<void> {
+    const processed = await this.load()
+
+    this.pending.delete(eventId)
+    processed.set(eventId, Date.now())
+    await this.save()
+  }
+
+  release(eventId: string): void {
+    this.pending.delete(eventId)
+  }
+
+  private load(): Promise<Map<string, number>> {
+    if (this.processed) return Promise.resolve(this.processed)
+
+    this.loading ??= readFile(this.path, 'utf8').then(
+      text => new Map(Object.entries(JSON.parse(text) as Record<string, number>)),
+      error => {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map<string, number>()
+        throw error
+      }
+    ).then(processed => {
+      this.processed = processed
+      return processed
+    })
+
+    return this.loading
+  }
+
+  /**
+   * Write the file atomically, pruning expired entries; writes are queued
+   * so concurrent completions never interleave
+   */
+  private save(): Promise<void> {
+    this.writing = this.writing.catch(() => {}).then(async () => {
+      const processed = this.processed!
+      const cutoff = Date.now() - this.ttl
+
+      for (const [id, processedAt] of processed) {
+        if (processedAt <= cutoff) processed.delete(id)
+      }
+
+      const temp = `${this.path}.${randomUUID()}.tmp`
+      await mkdir(dirname(this.path), { recursive: true })
+      await writeFile(temp, JSON.stringify(Object.fromEntries(processed)))
+      await rename(temp, this.path)
+    })
+
+    return this.writing
+  }
+}
@@ -0,0 +1,193 @@
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { describe, expect, it, vi } from 'vitest'
+import { VaultixSignatureVerificationError } from './errors.js'
+import { generateTestWebhook, sendTestWebhook } from './testing/webhooks.js'
+import { MemoryWebhookEventStore, WebhookDispatcher } from './webhook-dispatcher.js'
+import {
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createNodeWebhookHandler,
+  fastifyWebhookPlugin,
+  handleWebhook,
+} from './webhook-handlers.js'
+import type { VaultixEvent } from './types.js'
+
+type FastifyRoute = Parameters<Parameters<typeof fastifyWebhookPlugin>[0]['post']>[1]
+
+const secret = 'whsec_handlers'
+
+describe('handleWebhook', () => {
+  it('verifies the event and calls the typed callback', async () => {
+    const onChargePaid = vi.fn()
+    const webhook = generateTestWebhook({ type: 'charge.paid', data: { amount: 7500 }, secret })
+
+    const result = await handleWebhook(webhook.payload, webhook.signature, { secret, onChargePaid })
+
+    expect(result).toEqual({ status: 200, body: { received: true }, event: webhook.event })
+    expect(onChargePaid).toHaveBeenCalledWith(webhook.event.data.object, webhook.event)
+  })
+
+  it('answers 400 to a bad signature without calling the callbacks', async () => {
+    const onChargePaid = vi.fn()
+    const onError = vi.fn()
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret: 'whsec_forged' })
+
+    const result = await handleWebhook(webhook.payload, webhook.signature, { secret, onChargePaid, onError })
+
+    expect(result.status).toBe(400)
+    expect(result.body.received).toBe(false)
+    expect(onChargePaid).not.toHaveBeenCalled()
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(VaultixSignatureVerificationError)
+  })
+
+  it('answers 500 when a callback throws, so the event is redelivered', async () => {
+    const failure = new Error('database down')
+    const onError = vi.fn()
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+
+    const result = await handleWebhook(webhook.payload, webhook.signature, {
+      secret,
+      onChargePaid: () => {
+        throw failure
+      },
+      onError,
+    })
+
+    expect(result).toMatchObject({ status: 500, body: { received: false, error: 'Webhook handler failed' } })
+    expect(onError).toHaveBeenCalledWith(failure, webhook.event)
+  })
+
+  it('acknowledges duplicates without running the callbacks again', async () => {
+    const options = { secret, onChargePaid: vi.fn() }
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+
+    await handleWebhook(webhook.payload, webhook.signature, options)
+    const result = await handleWebhook(webhook.payload, webhook.signature, options)
+
+    expect(result.body).toEqual({ received: true, duplicate: true })
+    expect(options.onChargePaid).toHaveBeenCalledTimes(1)
+  })
+
+  it('needs a shared store to skip duplicates when the options are rebuilt for every request', async () => {
+    const onChargePaid = vi.fn()
+    const store = new MemoryWebhookEventStore()
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+
+    await handleWebhook(webhook.payload, webhook.signature, { secret, onChargePaid })
+    await handleWebhook(webhook.payload, webhook.signature, { secret, onChargePaid })
+    expect(onChargePaid).toHaveBeenCalledTimes(2)
+
+    await handleWebhook(webhook.payload, webhook.signature, { secret, store, onChargePaid })
+    const result = await handleWebhook(webhook.payload, webhook.signature, { secret, store, onChargePaid })
+
+    expect(result.body).toEqual({ received: true, duplicate: true })
+    expect(onChargePaid).toHaveBeenCalledTimes(3)
+  })
+
+  it('routes events through an explicit dispatcher', async () => {
+    const onChargePaid = vi.fn()
+    const ignored = vi.fn()
+    const dispatcher = new WebhookDispatcher({ onChargePaid })
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+
+    await handleWebhook(webhook.payload, webhook.signature, { secret, dispatcher, onChargePaid: ignored })
+
+    expect(onChargePaid).toHaveBeenCalledTimes(1)
+    expect(ignored).not.toHaveBeenCalled()
+    expect((await dispatcher.dispatch(webhook.event as VaultixEvent)).status).toBe('duplicate')
+  })
+})
+
+describe('framework adapters', () => {
+  it('createFetchWebhookHandler answers with JSON', async () => {
+    const onRefundSucceeded = vi.fn()
+    const webhook = generateTestWebhook({ type: 'refund.succeeded', secret })
+
+    const delivery = await sendTestWebhook({ fetch: createFetchWebhookHandler({ secret, onRefundSucceeded }) }, webhook)
+
+    expect(delivery.status).toBe(200)
+    expect(delivery.headers['content-type']).toBe('application/json')
+    expect(JSON.parse(delivery.body)).toEqual({ received: true })
+    expect(onRefundSucceeded).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps a separate event store per handler', async () => {
+    const options = { secret, onChargePaid: vi.fn() }
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+    const first = { fetch: createFetchWebhookHandler(options) }
+    const second = { fetch: createFetchWebhookHandler(options) }
+
+    await sendTestWebhook(first, webhook)
+    const duplicate = await sendTestWebhook(first, webhook)
+    await sendTestWebhook(second, webhook)
+
+    expect(JSON.parse(duplicate.body)).toEqual({ received: true, duplicate: true })
+    expect(options.onChargePaid).toHaveBeenCalledTimes(2)
+  })
+
+  it('createNodeWebhookHandler reads the raw body from the request', async () => {
+    const onCustomerCreated = vi.fn()
+    const webhook = generateTestWebhook({ type: 'customer.created', secret })
+
+    const delivery = await sendTestWebhook({ listener: createNodeWebhookHandler({ secret, onCustomerCreated }) }, webhook)
+
+    expect(delivery.status).toBe(200)
+    expect(onCustomerCreated).toHaveBeenCalledWith(webhook.event.data.object, webhook.event)
+  })
+
+  it('createExpressWebhookHandler rejects a body already parsed as JSON', async () => {
+    const onError = vi.fn()
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+    const handler = createExpressWebhookHandler({ secret, onError })
+
+    const server = createServer((req, res) => {
+      Object.assign(req, { body: webhook.event })
+      req.resume()
+      req.on('end', () => {
+        handler(req, {
+          status(code) {
+            res.statusCode = code
+            return this
+          },
+          json(body) {
+            res.end(JSON.stringify(body))
+          },
+        })
+      })
+    })
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+
+    try {
+      const { port } = server.address() as AddressInfo
+      const response = await fetch(`http://127.0.0.1:${port}/webhooks`, { method: 'POST', headers: webhook.headers, body: webhook.payload })
+
+      expect(response.status).toBe(400)
+      expect(await response.json()).toMatchObject({ received: false, error: expect.stringMatching(/express\.json\(\)/) })
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(VaultixSignatureVerificationError)
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  })
+
+  it('fastifyWebhookPlugin registers a raw JSON parser and the route', async () => {
+    const onChargePaid = vi.fn()
+    const webhook = generateTestWebhook({ type: 'charge.paid', secret })
+    const routes = new Map<string, FastifyRoute>()
+    const parseAs: string[] = []
+
+    await fastifyWebhookPlugin({
+      addContentTypeParser: (contentType, options) => parseAs.push(`${contentType}:${options.parseAs}`),
+      post: (path, handler) => routes.set(path, handler),
+    }, { secret, path: '/hooks', onChargePaid })
+
+    const reply = { code: vi.fn(() => reply), send: vi.fn() }
+    await routes.get('/hooks')!({ headers: webhook.headers, body: Buffer.from(webhook.payload) }, reply)
+
+    expect(parseAs).toEqual(['application/json:buffer'])
+    expect(reply.code).toHaveBeenCalledWith(200)
+    expect(reply.send).toHaveBeenCalledWith({ received: true })
+    expect(onChargePaid).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,311 @@
+/**
+ * Vaultix Webhook Handlers
+ *
+ * Ready-made webhook endpoints for Node.js `http`, Express, Fastify and
+ * fetch-style runtimes. Each adapter captures the raw body, verifies the
+ * signature, parses the event and calls the matching typed callback.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import { VaultixSignatureVerificationError } from './errors.js'
+import { Webhooks } from './resources/webhooks.js'
+import { WebhookDispatcher } from './webhook-dispatcher.js'
+import type { WebhookDispatcherOptions } from './webhook-dispatcher.js'
+import type { VaultixEvent } from './types.js'
+
+const SIGNATURE_HEADER = 'x-vaultix-signature'
+
+/**
+ * One dispatcher per options object, so deduplication and per-object
+ * ordering span requests; it owns its default in-memory store
+ */
+const dispatchers = new WeakMap<WebhookHandlerOptions, WebhookDispatcher>()
+
+export interface WebhookHandlerOptions extends WebhookDispatcherOptions {
+  /** Endpoint secret (`whsec_...`) */
+  secret: string
+  /** Maximum age of the event's signed `created` time, in seconds (default 300) */
+  tolerance?: number
+  /**
+   * Dispatcher to route events through, e.g. one shared with a queue
+   * consumer; the callbacks and `store` in these options are then ignored
+   */
+  dispatcher?: WebhookDispatcher
+}
+
+export interface WebhookHandlerResult {
+  status: number
+  body: { received: boolean; duplicate?: boolean; error?: string }
+  event?: VaultixEvent
+}
+
+/** Minimal request shape shared by Express and Fastify */
+interface FrameworkRequest {
+  headers: Record<string, string | string[] | undefined>
+  body?: unknown
+  rawBody?: string | Buffer
+}
+
+interface ExpressResponse {
+  status(code: number): ExpressResponse
+  json(body: unknown): unknown
+}
+
+interface FastifyReply {
+  code(status: number): FastifyReply
+  send(body: unknown): unknown
+}
+
+interface FastifyInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Buffer, done: (error: Error | null, body?: Buffer) => void) => void
+  ): void
+  post(path: string, handler: (request: FrameworkRequest, reply: FastifyReply) => Promise<unknown>): void
+}
+
+/**
+ * Verify a raw webhook request and dispatch it to the callbacks
+ *
+ * This is the framework-independent core of every adapter: it never
+ * throws, and returns the status and body the endpoint should answer.
+ *
+ * Build the options once, outside the request handler: the dispatcher
+ * that skips duplicates and orders events, with its default in-memory
+ * store, is kept per options object. Callers that rebuild the options on
+ * every request must pass a shared `store` or `dispatcher`, or every
+ * request starts from an empty store and duplicates are processed again.
+ *
+ * @example
+ * ```ts
+ * const webhookOptions: WebhookHandlerOptions = {
+ *   secret: process.env.VAULTIX_WEBHOOK_SECRET,
+ *   onChargePaid: charge => fulfillOrder(charge.metadata.order_id),
+ * }
+ *
+ * // in the request handler
+ * const result = await handleWebhook(rawBody, signatureHeader, webhookOptions)
+ * reply.status(result.status).json(result.body)
+ * ```
+ */
+export async function handleWebhook(
+  rawBody: string | Buffer,
+  signatureHeader: string | string[] | undefined,
+  options: WebhookHandlerOptions
+): Promise<WebhookHandlerResult> {
+  let event: VaultixEvent
+
+  try {
+    event = new Webhooks().constructEvent(rawBody, signatureHeader, options.secret, options.tolerance)
+  } catch (error) {
+    options.onError?.(error)
+
+    if (error instanceof VaultixSignatureVerificationError) {
+      return { status: 400, body: { received: false, error: error.message } }
+    }
+
+    return { status: 500, body: { received: false, error: 'Webhook handler failed' } }
+  }
+
+  const result = await dispatcherFor(options).dispatch(event)
+
+  if (result.status === 'failed') {
+    return { status: 500, body: { received: false, error: 'Webhook handler failed' }, event }
+  }
+
+  return {
+    status: 200,
+    body: result.status === 'duplicate' ? { received: true, duplicate: true } : { received: true },
+    event,
+  }
+}
+
+/**
+ * Request listener for Node.js `http` servers
+ *
+ * @example
+ * ```ts
+ * import { createServer } from 'node:http'
+ * import { createNodeWebhookHandler } from '@vaultix/sdk'
+ *
+ * const handler = createNodeWebhookHandler({
+ *   secret: process.env.VAULTIX_WEBHOOK_SECRET,
+ *   onChargePaid: charge => markOrderPaid(charge.metadata.order_id),
+ * })
+ *
+ * createServer((req, res) => {
+ *   if (req.url === '/webhooks' && req.method === 'POST') return handler(req, res)
+ *   res.statusCode = 404
+ *   res.end()
+ * }).listen(3000)
+ * ```
+ */
+export function createNodeWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  options = withOwnDispatcher(options)
+
+  return async (req, res) => {
+    const rawBody = await readRawBody(req)
+    const result = await handleWebhook(rawBody ?? '', req.headers[SIGNATURE_HEADER], options)
+
+    res.statusCode = result.status
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify(result.body))
+  }
+}
+
+/**
+ * Express route handler
+ *
+ * Mount it before any global `express.json()`, or on a route where the
+ * body has not been parsed: the raw body is required to verify the
+ * signature. A body parsed by `express.raw()` also works.
+ *
+ * @example
+ * ```ts
+ * import { createExpressWebhookHandler } from '@vaultix/sdk'
+ *
+ * app.post('/webhooks', createExpressWebhookHandler({
+ *   secret: process.env.VAULTIX_WEBHOOK_SECRET,
+ *   onChargePaid: async charge => {
+ *     await orders.markPaid(charge.metadata.order_id)
+ *   },
+ *   onRefundSucceeded: refund => notifyCustomer(refund.charge),
+ * }))
+ * ```
+ */
+export function createExpressWebhookHandler(
+  options: WebhookHandlerOptions
+): (req: IncomingMessage & FrameworkRequest, res: ExpressResponse, next?: (error?: unknown) => void) => Promise<void> {
+  options = withOwnDispatcher(options)
+
+  return async (req, res, next) => {
+    try {
+      const rawBody = req.rawBody ?? (await readRawBody(req))
+
+      if (rawBody === undefined) {
+        const error = new VaultixSignatureVerificationError(
+          'The request body was already parsed; register the webhook route before express.json() or use express.raw()'
+        )
+        options.onError?.(error)
+        res.status(400).json({ received: false, error: error.message })
+        return
+      }
+
+      const result = await handleWebhook(rawBody, req.headers[SIGNATURE_HEADER], options)
+      res.status(result.status).json(result.body)
+    } catch (error) {
+      if (next) next(error)
+      else throw error
+    }
+  }
+}
+
+/**
+ * Fastify plugin registering a `POST` webhook route
+ *
+ * The plugin parses `application/json` as a raw buffer inside its own
+ * encapsulation context, so the rest of the app keeps Fastify's JSON
+ * parser.
+ *
+ * @example
+ * ```ts
+ * import { fastifyWebhookPlugin } from '@vaultix/sdk'
+ *
+ * await app.register(fastifyWebhookPlugin, {
+ *   path: '/webhooks',
+ *   secret: process.env.VAULTIX_WEBHOOK_SECRET,
+ *   onPayoutCanceled: payout => alertFinance(payout),
+ * })
+ * ```
+ */
+export async function fastifyWebhookPlugin(
+  fastify: FastifyInstance,
+  options: WebhookHandlerOptions & { path?: string }
+): Promise<void> {
+  options = withOwnDispatcher(options)
+
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_, body, done) => done(null, body))
+
+  fastify.post(options.path ?? '/webhooks', async (request, reply) => {
+    const rawBody = Buffer.isBuffer(request.body) || typeof request.body === 'string' ? request.body : ''
+    const result = await handleWebhook(rawBody, request.headers[SIGNATURE_HEADER], options)
+
+    return reply.code(result.status).send(result.body)
+  })
+}
+
+/**
+ * Handler for fetch-style runtimes: Next.js route handlers, Hono, Bun,
+ * Deno, Cloudflare Workers, ...
+ *
+ * @example
+ * ```ts
+ * // app/api/webhooks/route.ts
+ * import { createFetchWebhookHandler } from '@vaultix/sdk'
+ *
+ * export const POST = createFetchWebhookHandler({
+ *   secret: process.env.VAULTIX_WEBHOOK_SECRET!,
+ *   onChargePaid: charge => fulfillOrder(charge),
+ * })
+ * ```
+ */
+export function createFetchWebhookHandler(options: WebhookHandlerOptions): (request: Request) => Promise<Response> {
+  options = withOwnDispatcher(options)
+
+  return async request => {
+    const rawBody = await request.text()
+    const result = await handleWebhook(rawBody, request.headers.get(SIGNATURE_HEADER) ?? undefined, options)
+
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers: { 'content-type': 'application/json' },
+    })
+  }
+}
+
+function dispatcherFor(options: WebhookHandlerOptions): WebhookDispatcher {
+  if (options.dispatcher) return options.dispatcher
+
+  let dispatcher = dispatchers.get(options)
+
+  if (!dispatcher) {
+    dispatcher = new WebhookDispatcher(options)
+    dispatchers.set(options, dispatcher)
+  }
+
+  return dispatcher
+}
+
+/**
+ * Options bound to a dispatcher owned by one handler, so two handlers never
+ * share deduplication state even when built from the same options
+ */
+function withOwnDispatcher<T extends WebhookHandlerOptions>(options: T): T {
+  return { ...options, dispatcher: options.dispatcher ?? new WebhookDispatcher(options) }
+}
+
+/**
+ * Read the raw body of a Node.js request
+ *
+ * Returns the body already captured by a raw parser if there is one, and
+ * undefined if a parser consumed the stream and kept only parsed JSON.
+ */
+async function readRawBody(req: IncomingMessage & { body?: unknown }): Promise<string | Buffer | undefined> {
+  if (Buffer.isBuffer(req.body) || typeof req.body === 'string') {
+    return req.body
+  }
+
+  if (req.readableEnded || req.body !== undefined) {
+    return undefined
+  }
+
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+
+  return Buffer.concat(chunks)
+}